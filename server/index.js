@@ -0,0 +1,223 @@
+// Reference global leaderboard server for score sync. No dependencies
+// beyond the games' own rules, bundled from src/games/verify.ts:
+//
+//   npm run server                       # builds the verifier, then serves
+//   PORT=9000 DATA_FILE=/var/lib/scores.json node server/index.js
+//
+// Build the site with VITE_LEADERBOARD_URL=<server url> to sync by default,
+// or set the server on the Leaderboard page.
+//
+// API (JSON, CORS open to any origin):
+//   GET  /scores/:game/:variant?limit=10  -> { entries, total }
+//   POST /scores/:game/:variant           { id, initials, recording } -> { rank, total }
+// The recording is replayed and ranked on the score the replay reaches;
+// runs that don't reproduce are refused with 422. Posting an id again only
+// updates its initials, so clients can retry freely; the same run posted
+// under another id is refused with 409.
+//
+// This is a reference server, not one hardened for public traffic: each
+// replay runs on the one event loop, and a recording may be up to an hour
+// of play (432,000 ticks), so a long one holds up every other request
+// until it is through. A public deployment should replay in worker
+// threads, with a time limit, behind a rate limit.
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+let verifyRecording;
+try {
+  ({ verifyRecording } = await import("../dist-server/verify.js"));
+} catch {
+  console.error("Verifier not built: run `npm run server` instead.");
+  process.exit(1);
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.DATA_FILE || "leaderboard-data.json";
+const MAX_ENTRIES = 1000; // kept per board
+const MAX_LIMIT = 100;
+const MAX_BODY = 2 * 1024 * 1024; // recordings of long runs
+
+const NAME = /^[a-z0-9-]{1,32}$/;
+const INITIALS = /^[A-Z0-9?]{1,3}$/;
+const ID = /^[a-z0-9-]{1,40}$/;
+
+// ── Data ──────────────────────────────────────────────────
+// { boards: { "game/variant": [{ id, initials, score, date, run, recording }] } },
+// best first. Recordings are kept so any entry can be checked again.
+let data = { boards: {} };
+
+// What makes two recordings the same run, whoever posts them: the date and
+// the score claimed don't change what the replay does.
+function runHash(game, variant, { seed, settings, world, inputs }) {
+  return createHash("sha256")
+    .update(JSON.stringify([game, variant, seed, settings, world, inputs]))
+    .digest("hex");
+}
+
+async function load() {
+  try {
+    data = JSON.parse(await readFile(DATA_FILE, "utf8"));
+  } catch (err) {
+    if (err.code !== "ENOENT") throw err;
+  }
+  // data files from before runs were hashed
+  for (const [key, entries] of Object.entries(data.boards)) {
+    const [game, variant] = key.split("/");
+    for (const e of entries) e.run ??= runHash(game, variant, e.recording);
+  }
+}
+
+// Writes go through a temp file one at a time, so a crash never leaves a
+// half-written data file.
+let saving = Promise.resolve();
+function save() {
+  saving = saving.then(async () => {
+    const tmp = `${DATA_FILE}.tmp`;
+    await writeFile(tmp, JSON.stringify(data));
+    await rename(tmp, DATA_FILE);
+  });
+  return saving;
+}
+
+function board(game, variant) {
+  return data.boards[`${game}/${variant}`] ?? [];
+}
+
+function publicEntry({ initials, score, date }) {
+  return { initials, score, date };
+}
+
+// ── Scores ────────────────────────────────────────────────
+function validSubmission(body) {
+  return (
+    body !== null &&
+    typeof body === "object" &&
+    typeof body.id === "string" &&
+    ID.test(body.id) &&
+    typeof body.initials === "string" &&
+    INITIALS.test(body.initials) &&
+    body.recording !== null &&
+    typeof body.recording === "object" &&
+    typeof body.recording.date === "string" &&
+    !Number.isNaN(Date.parse(body.recording.date))
+  );
+}
+
+async function submit(game, variant, body) {
+  if (!validSubmission(body)) return [400, { error: "invalid submission" }];
+  const entries = board(game, variant);
+  let entry = entries.find((e) => e.id === body.id);
+  if (entry) {
+    entry.initials = body.initials;
+  } else {
+    const run = runHash(game, variant, body.recording);
+    if (entries.some((e) => e.run === run)) {
+      return [409, { error: "run already submitted" }];
+    }
+    const verdict = verifyRecording(game, variant, body.recording);
+    if (!verdict.ok) return [422, { error: verdict.reason }];
+    if (verdict.score <= 0) return [422, { error: "nothing to rank" }];
+    entry = {
+      id: body.id,
+      initials: body.initials,
+      score: verdict.score,
+      date: body.recording.date,
+      run,
+      recording: body.recording,
+    };
+    // after every equal score, so earlier runs keep their place
+    const index = entries.findIndex((e) => e.score < entry.score);
+    entries.splice(index === -1 ? entries.length : index, 0, entry);
+    entries.length = Math.min(entries.length, MAX_ENTRIES);
+    data.boards[`${game}/${variant}`] = entries;
+  }
+  await save();
+  const rank = entries.indexOf(entry) + 1;
+  return [200, { rank: rank || entries.length + 1, total: entries.length }];
+}
+
+function top(game, variant, limit) {
+  const entries = board(game, variant);
+  const n = Math.min(Math.max(1, limit || 10), MAX_LIMIT);
+  const shown = entries.slice(0, n).map(publicEntry);
+  return [200, { entries: shown, total: entries.length }];
+}
+
+// ── HTTP ──────────────────────────────────────────────────
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+function send(res, status, body) {
+  res.writeHead(status, { ...CORS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Chunks are joined before decoding, so a character split across two of
+// them still comes out whole.
+async function readBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size > MAX_BODY) return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+async function route(req) {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/health") return [200, { ok: true }];
+
+  const match = url.pathname.match(/^\/scores\/([^/]+)\/([^/]+)\/?$/);
+  if (!match) return [404, { error: "not found" }];
+  let game, variant;
+  try {
+    [game, variant] = match.slice(1).map(decodeURIComponent);
+  } catch {
+    return [400, { error: "malformed path" }];
+  }
+  if (!NAME.test(game) || !NAME.test(variant)) {
+    return [404, { error: "unknown board" }];
+  }
+
+  if (req.method === "GET") {
+    return top(game, variant, Number(url.searchParams.get("limit")));
+  }
+  if (req.method === "POST") {
+    const body = await readBody(req);
+    if (body === undefined) return [400, { error: "invalid JSON body" }];
+    return submit(game, variant, body);
+  }
+  return [405, { error: "method not allowed" }];
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS);
+    res.end();
+    return;
+  }
+  try {
+    const [status, body] = await route(req);
+    send(res, status, body);
+  } catch (err) {
+    console.error(err);
+    send(res, 500, { error: "internal error" });
+  }
+});
+
+await load();
+server.listen(PORT, () => {
+  console.log(`Leaderboard server on http://localhost:${PORT}`);
+  console.log(`Scores are kept in ${DATA_FILE}`);
+});
@@ -1,12 +1,11 @@
+import { Suspense, lazy } from "react";
 import { Routes, Route, Link, useLocation } from "react-router";
 import Home from "./pages/Home";
-import FlappyBird from "./pages/FlappyBird";
-import Snake from "./pages/Snake";
-import MatchThree from "./pages/MatchThree";
-import PixelRunner from "./pages/PixelRunner";
-import SpaceInvaders from "./pages/SpaceInvaders";
+import { GAMES } from "./games/registry";
 import "./App.css";
 
+const Leaderboard = lazy(() => import("./pages/Leaderboard"));
+
 function App() {
   const location = useLocation();
   const isHome = location.pathname === "/";
@@ -25,14 +24,19 @@ function App() {
         )}
       </header>
       <main className="app-main">
-        <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/flappy-bird" element={<FlappyBird />} />
-          <Route path="/snake" element={<Snake />} />
-          <Route path="/match-three" element={<MatchThree />} />
-          <Route path="/pixel-runner" element={<PixelRunner />} />
-          <Route path="/space-invaders" element={<SpaceInvaders />} />
-        </Routes>
+        <Suspense fallback={<div className="app-loading">Loading…</div>}>
+          <Routes>
+            <Route path="/" element={<Home />} />
+            <Route path="/leaderboard" element={<Leaderboard />} />
+            {GAMES.map((game) => (
+              <Route
+                key={game.id}
+                path={game.path}
+                element={<game.component />}
+              />
+            ))}
+          </Routes>
+        </Suspense>
       </main>
     </div>
   );
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react'
+import DemoCanvas from './DemoCanvas'
+import { GAMES } from '../games/registry'
+import './AttractMode.css'
+
+const DEMO_TIME = 20000 // ms each game gets before the next takes over
+
+// Full-screen demos of every game in turn, like an arcade cabinet waiting
+// for someone to walk up. A game moves on when its demo ends or its time is
+// up; Home takes the overlay away again on the first sign of a player.
+function AttractMode() {
+  const [index, setIndex] = useState(0)
+  const game = GAMES[index]
+
+  const next = useCallback(() => setIndex((i) => (i + 1) % GAMES.length), [])
+
+  useEffect(() => {
+    const timer = window.setTimeout(next, DEMO_TIME)
+    return () => window.clearTimeout(timer)
+  }, [index, next])
+
+  return (
+    <div className="attract">
+      <DemoCanvas key={game.id} load={game.demo} onEnd={next} className="attract-demo" />
+      <div className="attract-caption">
+        <span className="attract-emoji">{game.emoji}</span>
+        <h2 className="attract-title">{game.title}</h2>
+        <p className="attract-prompt">Press any key</p>
+      </div>
+    </div>
+  )
+}
+
+export default AttractMode
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useGameLoop } from '../engine/useGameLoop'
+import type { Demo } from '../engine/demo'
+import type { GameManifest } from '../games/registry'
+import './DemoCanvas.css'
+
+interface DemoCanvasProps {
+  load: GameManifest['demo']
+  onEnd?: () => void // without it the demo starts over
+  className?: string
+}
+
+const END_PAUSE = 1.5 // s a finished demo holds its last frame
+const IDLE_STEP = 1 / 60 // loop rate until the demo has loaded
+
+// Runs a game's demo on a canvas that fills its container. The game's code
+// is loaded on mount, so nothing is fetched until a demo is first shown.
+// Games with nothing to show draw nothing and end straight away.
+function DemoCanvas({ load, onEnd, className = '' }: DemoCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const makeRef = useRef<(() => Demo | null) | null>(null)
+  const demoRef = useRef<Demo | null>(null)
+  const restRef = useRef(0)
+  const onEndRef = useRef(onEnd)
+  const [step, setStep] = useState(IDLE_STEP)
+
+  useEffect(() => {
+    onEndRef.current = onEnd
+  })
+
+  const start = useCallback(() => {
+    const demo = makeRef.current?.() ?? null
+    demoRef.current = demo
+    restRef.current = 0
+    if (demo) setStep(demo.step)
+    else onEndRef.current?.()
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    load().then((make) => {
+      if (cancelled) return
+      makeRef.current = make
+      start()
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [load, start])
+
+  useGameLoop({
+    initialState: 'playing',
+    step,
+    update(dt) {
+      const demo = demoRef.current
+      if (!demo) return
+      if (!demo.finished()) {
+        demo.update()
+        return
+      }
+      restRef.current += dt
+      if (restRef.current < END_PAUSE) return
+      if (!onEndRef.current) return start()
+      demoRef.current = null
+      onEndRef.current()
+    },
+    render(alpha, now) {
+      const ctx = canvasRef.current?.getContext('2d')
+      if (!ctx || !demoRef.current) return
+      demoRef.current.draw(ctx, alpha, now)
+    },
+  })
+
+  // ── Canvas sizing ──
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const container = containerRef.current
+    if (!canvas || !container) return
+
+    function resize() {
+      const rect = container!.getBoundingClientRect()
+      canvas!.width = rect.width
+      canvas!.height = rect.height
+    }
+    resize()
+    window.addEventListener('resize', resize)
+    return () => window.removeEventListener('resize', resize)
+  }, [])
+
+  return (
+    <div className={`demo-canvas ${className}`} ref={containerRef}>
+      <canvas ref={canvasRef} />
+    </div>
+  )
+}
+
+export default DemoCanvas
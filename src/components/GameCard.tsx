@@ -1,4 +1,7 @@
+import { useState } from 'react'
 import { Link } from 'react-router'
+import DemoCanvas from './DemoCanvas'
+import type { GameManifest } from '../games/registry'
 import './GameCard.css'
 
 interface GameCardProps {
@@ -6,16 +9,31 @@ interface GameCardProps {
   description: string
   path: string
   emoji: string
+  best?: number
+  demo?: GameManifest['demo'] // played in place of the emoji while hovered
 }
 
-function GameCard({ title, description, path, emoji }: GameCardProps) {
+function GameCard({ title, description, path, emoji, best = 0, demo }: GameCardProps) {
+  const [previewing, setPreviewing] = useState(false)
+
   return (
-    <Link to={path} className="game-card">
-      <div className="game-card-emoji">{emoji}</div>
+    <Link
+      to={path}
+      className="game-card"
+      onMouseEnter={() => setPreviewing(true)}
+      onMouseLeave={() => setPreviewing(false)}
+      onFocus={() => setPreviewing(true)}
+      onBlur={() => setPreviewing(false)}
+    >
+      <div className="game-card-preview">
+        <div className="game-card-emoji">{emoji}</div>
+        {demo && previewing && <DemoCanvas load={demo} className="game-card-demo" />}
+      </div>
       <div className="game-card-info">
         <h2 className="game-card-title">{title}</h2>
         <p className="game-card-desc">{description}</p>
       </div>
+      {best > 0 && <span className="game-card-best">Best: {best}</span>}
       <span className="game-card-play">Play →</span>
     </Link>
   )
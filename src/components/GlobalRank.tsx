@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from 'react'
+import { submissionStatus, subscribe } from '../engine/scoreSync'
+import type { Submission } from '../engine/scoreSync'
+import './GlobalRank.css'
+
+interface GlobalRankProps {
+  submission: Submission | null // null when sync is off or nothing was sent
+}
+
+// Game-over line showing where a run landed on the global leaderboard.
+function GlobalRank({ submission }: GlobalRankProps) {
+  const status = useSyncExternalStore(subscribe, () =>
+    submission ? submissionStatus(submission.id) : undefined,
+  )
+  if (!submission || !status) return null
+
+  let text: string
+  switch (status.state) {
+    case 'pending':
+      text = 'Submitting to the global board…'
+      break
+    case 'waiting':
+      text = 'Offline — will submit when the server is reachable'
+      break
+    case 'ranked':
+      text = `Global #${status.rank} of ${status.total}`
+      break
+    case 'rejected':
+      text = `Not accepted globally: ${status.reason}`
+      break
+  }
+
+  return <span className={`global-rank global-rank-${status.state}`}>🌍 {text}</span>
+}
+
+export default GlobalRank
@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react'
+import { useGameLoop } from '../engine/useGameLoop'
+import { createPlayback } from '../engine/replay'
+import type { Playback, Recording } from '../engine/replay'
+import type { SimState, Simulation } from '../engine/sim'
+import './ReplayViewer.css'
+
+interface ReplayViewerProps<State extends SimState, Input, Settings> {
+  sim: Simulation<State, Input, Settings>
+  recording: Recording<Input, Settings>
+  draw: (ctx: CanvasRenderingContext2D, state: State, alpha: number, now: number) => void
+  onClose: () => void
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+function isFinished(playback: Playback<SimState>): boolean {
+  return playback.state.tick >= playback.ticks || playback.state.over
+}
+
+// Plays a recording back through the game's simulation. Scrubbing re-runs
+// the simulation up to the chosen tick, so every frame matches the original.
+function ReplayViewer<State extends SimState, Input, Settings>({
+  sim,
+  recording,
+  draw,
+  onClose,
+}: ReplayViewerProps<State, Input, Settings>) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [playback] = useState(() => createPlayback(sim, recording))
+  const [speed, setSpeed] = useState(1)
+  const [tick, setTick] = useState(0)
+
+  const step = sim.step(recording.settings)
+
+  const loop = useGameLoop({
+    initialState: 'playing',
+    step: step / speed,
+    update() {
+      playback.update()
+      if (isFinished(playback)) loop.setState('paused')
+    },
+    render(alpha, now) {
+      const ctx = canvasRef.current?.getContext('2d')
+      if (!ctx) return
+      draw(ctx, playback.state, isFinished(playback) ? 1 : alpha, now)
+      setTick(playback.state.tick)
+    },
+  })
+  const { state, setState, togglePause } = loop
+
+  function togglePlay() {
+    if (isFinished(playback)) playback.seek(0)
+    togglePause()
+  }
+
+  function seek(target: number) {
+    playback.seek(target)
+    setTick(playback.state.tick)
+  }
+
+  // ── Canvas sizing + keyboard ──
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const container = containerRef.current
+    if (!canvas || !container) return
+
+    function resize() {
+      const rect = container!.getBoundingClientRect()
+      canvas!.width = rect.width
+      canvas!.height = rect.height
+    }
+    resize()
+    window.addEventListener('resize', resize)
+
+    function onKey(e: KeyboardEvent) {
+      if (e.key === ' ') {
+        e.preventDefault()
+        if (isFinished(playback)) playback.seek(0)
+        togglePause()
+      } else if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', onKey)
+
+    return () => {
+      window.removeEventListener('resize', resize)
+      window.removeEventListener('keydown', onKey)
+    }
+  }, [playback, togglePause, onClose])
+
+  return (
+    <div className="replay-viewer">
+      <div className="replay-stage" ref={containerRef}>
+        <canvas ref={canvasRef} className="replay-canvas" />
+        <span className="replay-badge">Replay · Score {recording.score}</span>
+      </div>
+
+      <div className="replay-controls">
+        <button className="replay-btn" onClick={togglePlay}>
+          {state === 'playing' ? 'Pause' : 'Play'}
+        </button>
+        <input
+          className="replay-scrub"
+          type="range"
+          min={0}
+          max={playback.ticks}
+          value={tick}
+          onChange={(e) => {
+            setState('paused')
+            seek(Number(e.target.value))
+          }}
+        />
+        <span className="replay-time">
+          {formatTime(tick * step)} / {formatTime(playback.ticks * step)}
+        </span>
+        <div className="replay-speeds">
+          {SPEEDS.map((s) => (
+            <button
+              key={s}
+              className={`replay-speed ${speed === s ? 'replay-speed-active' : ''}`}
+              onClick={() => setSpeed(s)}
+            >
+              {s}×
+            </button>
+          ))}
+        </div>
+        <button className="replay-btn replay-btn-sec" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ReplayViewer
@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { createSaveFile, importSave, parseSaveFile } from '../engine/saveFile'
+import type { ImportMode, ParsedSave, SaveFile } from '../engine/saveFile'
+import './SaveTransfer.css'
+
+interface SaveTransferProps {
+  onImport: () => void // storage changed; re-read anything shown from it
+}
+
+function download(file: SaveFile) {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `browser-games-save-${file.exported.slice(0, 10)}.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function describe(file: SaveFile): string {
+  const games = Object.keys(file.data.games).length
+  const date = Date.parse(file.exported)
+  const when = Number.isNaN(date) ? 'an unknown date' : new Date(date).toLocaleDateString()
+  return `Save from ${when} with records for ${games} game${games === 1 ? '' : 's'}.`
+}
+
+// Export and import of everything the site remembers, so progress can move
+// between browsers. Imports are previewed before anything is written.
+function SaveTransfer({ onImport }: SaveTransferProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [pending, setPending] = useState<SaveFile | null>(null)
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  async function choose(e: ChangeEvent<HTMLInputElement>) {
+    const chosen = e.target.files?.[0]
+    e.target.value = '' // picking the same file again still fires change
+    if (!chosen) return
+    let parsed: ParsedSave
+    try {
+      parsed = parseSaveFile(await chosen.text())
+    } catch {
+      parsed = { ok: false, error: "That file couldn't be read." }
+    }
+    if (parsed.ok) {
+      setPending(parsed.file)
+      setMessage(null)
+    } else {
+      setPending(null)
+      setMessage({ text: parsed.error, error: true })
+    }
+  }
+
+  function apply(mode: ImportMode) {
+    if (!pending) return
+    const stored = importSave(pending, mode)
+    setPending(null)
+    setMessage(
+      stored
+        ? { text: mode === 'merge' ? 'Save merged.' : 'Save restored.', error: false }
+        : { text: 'Imported, but it could only be kept until you leave the page.', error: true },
+    )
+    onImport()
+  }
+
+  return (
+    <div className="save-transfer">
+      <div className="save-transfer-row">
+        <button className="save-transfer-btn" onClick={() => download(createSaveFile())}>
+          ⬇ Export save
+        </button>
+        <button className="save-transfer-btn" onClick={() => inputRef.current?.click()}>
+          ⬆ Import save
+        </button>
+        <input
+          ref={inputRef}
+          className="save-transfer-file"
+          type="file"
+          accept="application/json,.json"
+          onChange={choose}
+        />
+      </div>
+      {pending && (
+        <div className="save-transfer-preview">
+          <p>{describe(pending)}</p>
+          <p className="save-transfer-hint">
+            Merge keeps the best of both; replace overwrites everything saved here.
+          </p>
+          <div className="save-transfer-row">
+            <button className="save-transfer-btn primary" onClick={() => apply('merge')}>
+              Merge
+            </button>
+            <button className="save-transfer-btn danger" onClick={() => apply('replace')}>
+              Replace
+            </button>
+            <button className="save-transfer-btn" onClick={() => setPending(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {message && (
+        <p className={`save-transfer-message${message.error ? ' error' : ''}`}>{message.text}</p>
+      )}
+    </div>
+  )
+}
+
+export default SaveTransfer
@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Link } from 'react-router'
+import { INITIALS_LENGTH, normalizeInitials, rankOf, renameEntry } from '../games/leaderboard'
+import type { LeaderboardEntry } from '../games/leaderboard'
+import type { GameId } from '../games/registry'
+import { renameSubmission } from '../engine/scoreSync'
+import type { Submission } from '../engine/scoreSync'
+import './ScoreEntry.css'
+
+interface ScoreEntryProps {
+  game: GameId
+  variant: string
+  entry: LeaderboardEntry // already on the board under the last initials used
+  submission?: Submission | null // the same run on the global board, renamed along with it
+}
+
+// Game-over form for putting initials on a run that made the leaderboard.
+// Keys typed here stay out of the game's own keyboard handling.
+function ScoreEntry({ game, variant, entry, submission }: ScoreEntryProps) {
+  const [initials, setInitials] = useState(() => normalizeInitials(entry.initials))
+  const [saved, setSaved] = useState(false)
+  const rank = rankOf(game, variant, entry)
+
+  function save(e: FormEvent) {
+    e.preventDefault()
+    if (!initials) return
+    renameEntry(game, variant, entry, initials)
+    if (submission) renameSubmission(submission, initials)
+    setSaved(true)
+  }
+
+  return (
+    <form
+      className="score-entry"
+      onSubmit={save}
+      onKeyDown={(e) => e.stopPropagation()}
+      onKeyUp={(e) => e.stopPropagation()}
+    >
+      <span className="score-entry-rank">
+        #{rank} on the {variant} leaderboard
+      </span>
+      {saved ? (
+        <span className="score-entry-saved">Saved as {initials}</span>
+      ) : (
+        <div className="score-entry-row">
+          <input
+            className="score-entry-input"
+            value={initials}
+            maxLength={INITIALS_LENGTH}
+            placeholder="AAA"
+            aria-label="Your initials"
+            onChange={(e) => setInitials(normalizeInitials(e.target.value))}
+          />
+          <button className="score-entry-btn" type="submit" disabled={!initials}>
+            Save
+          </button>
+        </div>
+      )}
+      <Link className="score-entry-link" to={`/leaderboard?game=${game}&variant=${variant}`}>
+        View leaderboard →
+      </Link>
+    </form>
+  )
+}
+
+export default ScoreEntry
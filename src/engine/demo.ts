@@ -0,0 +1,86 @@
+import { getGame } from "../games/registry";
+import type { GameId } from "../games/registry";
+import type { Policy } from "../games/headless";
+import { createPlayback, createRun } from "./replay";
+import { randomSeed } from "./rng";
+import type { SimState, Simulation, World } from "./sim";
+import { loadBestRun } from "./storage";
+
+// ── Types ──────────────────────────────────────────────────
+// A game playing itself, for Home's card previews and attract mode. Each
+// page builds its own, so whoever shows a demo only ever steps and draws
+// it and never needs to know one game's state from another's.
+export interface Demo {
+  source: "bot" | "replay";
+  step: number; // seconds of game time per update
+  finished: () => boolean;
+  update: () => void;
+  draw: (ctx: CanvasRenderingContext2D, alpha: number, now: number) => void;
+}
+
+export interface DemoOptions<State extends SimState, Input, Settings> {
+  sim: Simulation<State, Input, Settings>;
+  game: GameId;
+  variant: string;
+  settings: Settings;
+  world?: World; // defaults to DEMO_WORLD
+  draw: (
+    ctx: CanvasRenderingContext2D,
+    state: State,
+    alpha: number,
+    now: number,
+  ) => void;
+  policy?: Policy<State, Input> | null; // plays a fresh run when there is one
+}
+
+// Games that play on a canvas-sized world get a typical desktop one; it is
+// scaled to fit whatever the demo is drawn on.
+const DEMO_WORLD: World = { width: 800, height: 600 };
+
+// ── Demo ──────────────────────────────────────────────────
+// A fresh run on a random seed with the policy at the controls, its inputs
+// going through the run like the page's own autopilot. Without a policy
+// the stored best run is played back instead – the demo's variant first,
+// then any other – and without one of those there is nothing to show.
+export function createDemo<State extends SimState, Input, Settings>(
+  options: DemoOptions<State, Input, Settings>,
+): Demo | null {
+  const { sim, game, variant, settings, draw, policy } = options;
+  const world = options.world ?? DEMO_WORLD;
+
+  if (policy) {
+    const run = createRun(sim, game, settings, randomSeed(), world, variant);
+    return {
+      source: "bot",
+      step: sim.step(settings),
+      finished: () => run.state.over,
+      update() {
+        const decided = policy(run.state);
+        if (decided !== undefined) {
+          for (const input of Array.isArray(decided) ? decided : [decided]) {
+            run.input(input);
+          }
+        }
+        run.update();
+      },
+      draw: (ctx, alpha, now) => draw(ctx, run.state, alpha, now),
+    };
+  }
+
+  const variants = [variant, ...getGame(game).variants];
+  const best = variants
+    .map((v) => loadBestRun<Input, Settings>(game, v))
+    .find((run) => run !== null);
+  if (!best) return null;
+  const playback = createPlayback(sim, best);
+  const finished = () =>
+    playback.state.over || playback.state.tick >= playback.ticks;
+  return {
+    source: "replay",
+    step: sim.step(best.settings),
+    finished,
+    update: playback.update,
+    draw: (ctx, alpha, now) =>
+      draw(ctx, playback.state, finished() ? 1 : alpha, now),
+  };
+}
@@ -0,0 +1,39 @@
+import type { GameId } from "../games/registry";
+import { loadBestRun, saveBestRun } from "./storage";
+import { createPlayback } from "./replay";
+import type { Playback, Recording } from "./replay";
+import type { SimState, Simulation } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface Ghost<State> extends Playback<State> {
+  start: number; // tick of the first recorded input
+  seed: number; // the level it was played on, for the live run to race it on
+}
+
+// ── Ghost ─────────────────────────────────────────────────
+// A ghost is the stored best run played back next to a live one, one update
+// per live update. It only shows up under the exact settings it was set
+// with, and is only worth racing on its own level: pages start the live run
+// on `seed` (see `useRunSeed`) and in the ghost's own `state.world`. Games that wait for the player before the
+// run really begins can seek the ghost to `start` to line the two up.
+export function loadGhost<State extends SimState, Input, Settings>(
+  sim: Simulation<State, Input, Settings>,
+  game: GameId,
+  settings: Settings,
+  variant?: string,
+): Ghost<State> | null {
+  const best = loadBestRun<Input, Settings>(game, variant);
+  if (!best || JSON.stringify(best.settings) !== JSON.stringify(settings)) {
+    return null;
+  }
+  return Object.assign(createPlayback(sim, best), {
+    start: best.inputs.length > 0 ? best.inputs[0].tick : 0,
+    seed: best.seed,
+  });
+}
+
+// Keeps `recording` as the new ghost if it beats the stored one.
+export function keepBestRun(recording: Recording) {
+  const best = loadBestRun(recording.game, recording.variant);
+  if (!best || recording.score > best.score) saveBestRun(recording);
+}
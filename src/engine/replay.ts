@@ -0,0 +1,117 @@
+import type { GameId } from "../games/registry";
+import type { SimState, Simulation, World } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+export const RECORDING_VERSION = 1;
+
+export interface RecordedInput<Input> {
+  tick: number; // applied right before this update
+  input: Input;
+}
+
+// Everything needed to play a run again: the simulation is deterministic,
+// so seed + settings + world + inputs reproduce every frame exactly.
+export interface Recording<Input = unknown, Settings = unknown> {
+  version: number;
+  game: GameId;
+  variant?: string; // difficulty the run was played on
+  seed: number;
+  settings: Settings;
+  world: World;
+  inputs: RecordedInput<Input>[];
+  ticks: number; // length of the run in updates
+  score: number;
+  date: string; // ISO timestamp of when the run ended
+}
+
+export interface Run<State, Input, Settings> {
+  state: State;
+  input: (input: Input) => void;
+  update: () => void;
+  recording: () => Recording<Input, Settings>;
+}
+
+export interface Playback<State> {
+  state: State;
+  ticks: number;
+  update: () => void; // no-op once the recording has ended
+  seek: (tick: number) => void;
+}
+
+// ── Live run ──────────────────────────────────────────────
+// Wraps a simulation for live play and records every input with the tick
+// it landed on.
+export function createRun<State extends SimState, Input, Settings>(
+  sim: Simulation<State, Input, Settings>,
+  game: GameId,
+  settings: Settings,
+  seed: number,
+  world: World,
+  variant?: string,
+): Run<State, Input, Settings> {
+  const state = sim.create(settings, seed, world);
+  const inputs: RecordedInput<Input>[] = [];
+
+  return {
+    state,
+    input(input) {
+      if (state.over) return;
+      inputs.push({ tick: state.tick, input });
+      sim.input(state, input);
+    },
+    update() {
+      if (!state.over) sim.update(state);
+    },
+    recording() {
+      return {
+        version: RECORDING_VERSION,
+        game,
+        variant,
+        seed,
+        settings,
+        world: { ...world },
+        inputs: inputs.slice(),
+        ticks: state.tick,
+        score: sim.score(state),
+        date: new Date().toISOString(),
+      };
+    },
+  };
+}
+
+// ── Playback ──────────────────────────────────────────────
+// Re-runs a recording. Seeking backwards replays from the start, which is
+// cheap next to drawing: even long runs are only a few thousand updates.
+export function createPlayback<State extends SimState, Input, Settings>(
+  sim: Simulation<State, Input, Settings>,
+  recording: Recording<Input, Settings>,
+): Playback<State> {
+  const { settings, seed, world, inputs, ticks } = recording;
+  let next = 0; // index of the next input to apply
+
+  const playback: Playback<State> = {
+    state: sim.create(settings, seed, world),
+    ticks,
+    update() {
+      const state = playback.state;
+      if (state.tick >= ticks || state.over) return;
+      while (next < inputs.length && inputs[next].tick <= state.tick) {
+        sim.input(state, inputs[next].input);
+        next++;
+      }
+      sim.update(state);
+    },
+    seek(tick) {
+      const target = Math.max(0, Math.min(ticks, Math.round(tick)));
+      if (target < playback.state.tick) {
+        playback.state = sim.create(settings, seed, world);
+        next = 0;
+      }
+      while (playback.state.tick < target && !playback.state.over) {
+        playback.update();
+      }
+    },
+  };
+
+  return playback;
+}
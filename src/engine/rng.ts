@@ -0,0 +1,46 @@
+// ── Types ──────────────────────────────────────────────────
+export interface Rng {
+  readonly seed: number;
+  next: () => number; // uniform in [0, 1)
+  range: (min: number, max: number) => number; // uniform in [min, max)
+  int: (n: number) => number; // integer in [0, n)
+  chance: (p: number) => boolean; // true with probability p
+  pick: <T>(items: readonly T[]) => T;
+}
+
+// ── Seeds ──────────────────────────────────────────────────
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// Seeds are unsigned 32-bit integers; anything else is rejected.
+export function parseSeed(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  const seed = Number(value);
+  return seed <= 0xffffffff ? seed : null;
+}
+
+// ── Generator ─────────────────────────────────────────────
+// mulberry32: tiny, fast and plenty random for games. The same seed always
+// yields the same sequence on every platform, which is what makes runs
+// reproducible. Anything purely cosmetic (star fields, engine flicker)
+// should keep using Math.random so it doesn't shift the gameplay sequence.
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+
+  function next(): number {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  return {
+    seed: seed >>> 0,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (n) => Math.floor(next() * n),
+    chance: (p) => next() < p,
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
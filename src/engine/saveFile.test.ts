@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { SAVE_FORMAT, parseSaveFile } from "./saveFile";
+import { RECORDING_VERSION } from "./replay";
+import { SCHEMA_VERSION } from "./storage";
+
+function run(game: string, score: number) {
+  return {
+    version: RECORDING_VERSION,
+    game,
+    seed: 7,
+    settings: {},
+    world: { width: 800, height: 600 },
+    inputs: [{ tick: 3, input: "jump" }],
+    ticks: 600,
+    score,
+    date: "2026-01-02T03:04:05.000Z",
+  };
+}
+
+// A save as an older build exported it: never with the sync data, which
+// stays with the browser.
+function exported(version: number, games: Record<string, unknown>) {
+  return JSON.stringify({
+    format: SAVE_FORMAT,
+    exported: "2026-01-02T03:04:05.000Z",
+    data: { version, player: { initials: "ABC" }, games },
+  });
+}
+
+describe("save file import", () => {
+  it("migrates a version 2 export", () => {
+    const parsed = parseSaveFile(
+      exported(2, {
+        snake: {
+          best: { medium: 12 },
+          leaderboards: {},
+          bestRuns: { medium: run("snake", 12) },
+          settings: null,
+          stats: { plays: 3, timePlayed: 90, totalScore: 20 },
+        },
+        "pixel-runner": {
+          best: { medium: 900 },
+          leaderboards: {},
+          bestRuns: { medium: run("pixel-runner", 900) },
+          settings: null,
+          stats: { plays: 1, timePlayed: 30, totalScore: 900 },
+        },
+      }),
+    );
+    if (!parsed.ok) throw new Error(parsed.error);
+    const { data } = parsed.file;
+    expect(data.version).toBe(SCHEMA_VERSION);
+    expect(data.player.initials).toBe("ABC");
+    expect(data.games.snake?.best).toEqual({ medium: 12 });
+    expect(data.games.snake?.bestRuns.medium?.score).toBe(12);
+    // Pixel Runner's rules have changed since, so its run is dropped
+    expect(data.games["pixel-runner"]?.best).toEqual({ medium: 900 });
+    expect(data.games["pixel-runner"]?.bestRuns).toEqual({});
+  });
+
+  it("refuses a save with a fractional version", () => {
+    const parsed = parseSaveFile(exported(2.5, {}));
+    expect(parsed).toEqual({
+      ok: false,
+      error: "That save has an unknown version.",
+    });
+  });
+
+  it("migrates a save whose sync data has no queue", () => {
+    const parsed = parseSaveFile(
+      JSON.stringify({
+        format: SAVE_FORMAT,
+        exported: "2026-01-02T03:04:05.000Z",
+        data: { version: 4, player: {}, games: {}, sync: { server: null } },
+      }),
+    );
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(parsed.file.data.version).toBe(SCHEMA_VERSION);
+  });
+
+  it("migrates a version 7 export", () => {
+    const parsed = parseSaveFile(
+      exported(7, {
+        "pixel-runner": {
+          best: { hard: 1500 },
+          leaderboards: {},
+          bestRuns: { hard: run("pixel-runner", 1500) },
+          settings: null,
+          stats: { plays: 4, timePlayed: 200, totalScore: 3000 },
+          brains: [],
+          wallet: { coins: 75, owned: ["ember"], stock: {}, skin: "ember" },
+        },
+      }),
+    );
+    if (!parsed.ok) throw new Error(parsed.error);
+    const game = parsed.file.data.games["pixel-runner"];
+    expect(parsed.file.data.version).toBe(SCHEMA_VERSION);
+    expect(game?.best).toEqual({ hard: 1500 });
+    expect(game?.bestRuns).toEqual({});
+    expect(game?.wallet).toEqual({
+      coins: 75,
+      owned: ["ember"],
+      stock: {},
+      skin: "ember",
+    });
+  });
+});
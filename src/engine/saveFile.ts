@@ -0,0 +1,297 @@
+import { GAMES } from "../games/registry";
+import type { GameId, GameManifest } from "../games/registry";
+import {
+  DEFAULT_INITIALS,
+  LEADERBOARD_SIZE,
+  normalizeInitials,
+} from "../games/leaderboard";
+import type { LeaderboardEntry } from "../games/leaderboard";
+import { RECORDING_VERSION } from "./replay";
+import type { Recording } from "./replay";
+import {
+  SCHEMA_VERSION,
+  emptyGame,
+  emptyWallet,
+  exportStore,
+  migrate,
+  replaceStore,
+} from "./storage";
+import type {
+  GameData,
+  SavedSettings,
+  StoreData,
+  VersionedDoc,
+  Wallet,
+} from "./storage";
+
+// ── Types ──────────────────────────────────────────────────
+// A portable copy of the storage document, minus what belongs to this
+// browser. `data.version` is the schema version it was written with; older
+// ones are migrated on import.
+export const SAVE_FORMAT = "browser-games-save";
+
+export type SaveData = Omit<StoreData, "sync">;
+
+export interface SaveFile {
+  format: typeof SAVE_FORMAT;
+  exported: string; // ISO timestamp
+  data: SaveData;
+}
+
+export type ImportMode = "merge" | "replace";
+
+export type ParsedSave =
+  | { ok: true; file: SaveFile }
+  | { ok: false; error: string };
+
+// ── Export ────────────────────────────────────────────────
+export function createSaveFile(): SaveFile {
+  const { sync: _sync, ...data } = exportStore();
+  return {
+    format: SAVE_FORMAT,
+    exported: new Date().toISOString(),
+    data,
+  };
+}
+
+// ── Validation ────────────────────────────────────────────
+// Imported files are untrusted: anything that doesn't look exactly like
+// what the site writes is dropped rather than carried into storage.
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function cleanBest(raw: unknown): Record<string, number> {
+  const best: Record<string, number> = {};
+  if (!isObject(raw)) return best;
+  for (const [variant, score] of Object.entries(raw)) {
+    if (isCount(score)) best[variant] = Math.floor(score);
+  }
+  return best;
+}
+
+function cleanEntry(raw: unknown): LeaderboardEntry | null {
+  if (!isObject(raw) || !isCount(raw.score)) return null;
+  if (typeof raw.initials !== "string" || typeof raw.date !== "string") {
+    return null;
+  }
+  if (Number.isNaN(Date.parse(raw.date))) return null;
+  return {
+    initials: normalizeInitials(raw.initials) || DEFAULT_INITIALS,
+    score: Math.floor(raw.score),
+    date: raw.date,
+  };
+}
+
+function sortEntries(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  return entries
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+    .slice(0, LEADERBOARD_SIZE);
+}
+
+function cleanRecording(raw: unknown, id: GameId): Recording | null {
+  if (!isObject(raw) || raw.version !== RECORDING_VERSION || raw.game !== id) {
+    return null;
+  }
+  const { world } = raw;
+  const valid =
+    typeof raw.seed === "number" &&
+    isCount(raw.ticks) &&
+    isCount(raw.score) &&
+    typeof raw.date === "string" &&
+    isObject(raw.settings) &&
+    isObject(world) &&
+    isCount(world.width) &&
+    isCount(world.height) &&
+    Array.isArray(raw.inputs) &&
+    raw.inputs.every((i) => isObject(i) && isCount(i.tick) && "input" in i);
+  return valid ? (raw as unknown as Recording) : null;
+}
+
+function cleanWallet(raw: unknown): Wallet {
+  const wallet = emptyWallet();
+  if (!isObject(raw)) return wallet;
+  if (isCount(raw.coins)) wallet.coins = Math.floor(raw.coins);
+  if (Array.isArray(raw.owned)) {
+    wallet.owned = raw.owned.filter((id) => typeof id === "string");
+  }
+  if (isObject(raw.stock)) {
+    for (const [id, count] of Object.entries(raw.stock)) {
+      if (isCount(count)) wallet.stock[id] = Math.floor(count);
+    }
+  }
+  if (typeof raw.skin === "string" && wallet.owned.includes(raw.skin)) {
+    wallet.skin = raw.skin;
+  }
+  return wallet;
+}
+
+function cleanGame(raw: unknown, game: GameManifest): GameData | null {
+  if (!isObject(raw)) return null;
+  const data = emptyGame();
+  data.best = cleanBest(raw.best);
+
+  const boards = isObject(raw.leaderboards) ? raw.leaderboards : {};
+  const runs = isObject(raw.bestRuns) ? raw.bestRuns : {};
+  for (const v of game.variants) {
+    if (Array.isArray(boards[v])) {
+      const entries = boards[v].map(cleanEntry);
+      data.leaderboards[v] = sortEntries(
+        entries.filter((e): e is LeaderboardEntry => e !== null),
+      );
+    }
+    const run = cleanRecording(runs[v], game.id);
+    if (run) data.bestRuns[v] = run;
+  }
+
+  if (Array.isArray(raw.brains)) data.brains = raw.brains.filter(isObject);
+  data.wallet = cleanWallet(raw.wallet);
+
+  const { settings, stats } = raw;
+  if (
+    isObject(settings) &&
+    typeof settings.difficulty === "string" &&
+    game.variants.includes(settings.difficulty) &&
+    isObject(settings.settings)
+  ) {
+    data.settings = settings as unknown as SavedSettings<string, unknown>;
+  }
+  if (isObject(stats)) {
+    data.stats = {
+      plays: isCount(stats.plays) ? Math.floor(stats.plays) : 0,
+      timePlayed: isCount(stats.timePlayed) ? stats.timePlayed : 0,
+      totalScore: isCount(stats.totalScore) ? stats.totalScore : 0,
+    };
+  }
+  return data;
+}
+
+export function parseSaveFile(text: string): ParsedSave {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "That file isn't valid JSON." };
+  }
+  if (!isObject(raw) || raw.format !== SAVE_FORMAT || !isObject(raw.data)) {
+    return { ok: false, error: "That file isn't a Browser Games save." };
+  }
+  const version = raw.data.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: "That save has an unknown version." };
+  }
+  if (version > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      error: "That save comes from a newer version of the site.",
+    };
+  }
+
+  const doc = migrate(raw.data as VersionedDoc);
+  const player = isObject(doc.player) ? doc.player : {};
+  const games = isObject(doc.games) ? doc.games : {};
+  const data: SaveData = {
+    version: SCHEMA_VERSION,
+    player: {
+      initials:
+        typeof player.initials === "string"
+          ? normalizeInitials(player.initials) || null
+          : null,
+    },
+    games: {},
+  };
+  for (const game of GAMES) {
+    const clean = cleanGame(games[game.id], game);
+    if (clean) data.games[game.id] = clean;
+  }
+
+  return {
+    ok: true,
+    file: {
+      format: SAVE_FORMAT,
+      exported: typeof raw.exported === "string" ? raw.exported : "",
+      data,
+    },
+  };
+}
+
+// ── Import ────────────────────────────────────────────────
+// Merging keeps the better of each record: the higher best and best run,
+// the top scores of both leaderboards, every trained bot and unlock of
+// either, and the larger of each stat, coin balance and stock (so importing
+// the same file twice changes nothing). Settings and the skin worn from the
+// file win – they are what the player is bringing over.
+function mergeGame(local: GameData, incoming: GameData): GameData {
+  const merged = emptyGame();
+
+  merged.best = { ...local.best };
+  for (const [v, score] of Object.entries(incoming.best)) {
+    merged.best[v] = Math.max(merged.best[v] ?? 0, score);
+  }
+
+  merged.leaderboards = { ...local.leaderboards };
+  for (const [v, entries] of Object.entries(incoming.leaderboards)) {
+    const byDate = new Map<string, LeaderboardEntry>();
+    for (const e of [...(local.leaderboards[v] ?? []), ...entries]) {
+      byDate.set(e.date, e);
+    }
+    merged.leaderboards[v] = sortEntries([...byDate.values()]);
+  }
+
+  merged.bestRuns = { ...local.bestRuns };
+  for (const [v, run] of Object.entries(incoming.bestRuns)) {
+    const current = merged.bestRuns[v];
+    if (!current || run.score > current.score) merged.bestRuns[v] = run;
+  }
+
+  const brains = new Map<string, unknown>();
+  for (const brain of [...local.brains, ...incoming.brains]) {
+    brains.set(JSON.stringify(brain), brain);
+  }
+  merged.brains = [...brains.values()];
+
+  const stock = { ...local.wallet.stock };
+  for (const [id, count] of Object.entries(incoming.wallet.stock)) {
+    stock[id] = Math.max(stock[id] ?? 0, count);
+  }
+  merged.wallet = {
+    coins: Math.max(local.wallet.coins, incoming.wallet.coins),
+    owned: [...new Set([...local.wallet.owned, ...incoming.wallet.owned])],
+    stock,
+    skin: incoming.wallet.skin ?? local.wallet.skin,
+  };
+
+  merged.settings = incoming.settings ?? local.settings;
+  merged.stats = {
+    plays: Math.max(local.stats.plays, incoming.stats.plays),
+    timePlayed: Math.max(local.stats.timePlayed, incoming.stats.timePlayed),
+    totalScore: Math.max(local.stats.totalScore, incoming.stats.totalScore),
+  };
+  return merged;
+}
+
+// Returns false if the result could only be kept in memory.
+export function importSave(file: SaveFile, mode: ImportMode): boolean {
+  const local = exportStore();
+  if (mode === "replace") {
+    return replaceStore({ ...file.data, sync: local.sync });
+  }
+
+  const data: StoreData = {
+    version: SCHEMA_VERSION,
+    player: { initials: local.player.initials ?? file.data.player.initials },
+    games: { ...local.games },
+    sync: local.sync,
+  };
+  for (const game of GAMES) {
+    const incoming = file.data.games[game.id];
+    if (!incoming) continue;
+    const current = local.games[game.id];
+    data.games[game.id] = current ? mergeGame(current, incoming) : incoming;
+  }
+  return replaceStore(data);
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchGlobalBoard, submissionStatus, submitScore } from "./scoreSync";
+import { RECORDING_VERSION } from "./replay";
+import type { Recording } from "./replay";
+import { loadSyncQueue, saveSyncQueue, saveSyncServer } from "./storage";
+
+const RUN: Recording = {
+  version: RECORDING_VERSION,
+  game: "snake",
+  variant: "medium",
+  seed: 7,
+  settings: {},
+  world: { width: 800, height: 600 },
+  inputs: [],
+  ticks: 600,
+  score: 12,
+  date: "2026-01-02T03:04:05.000Z",
+};
+
+function answer(status: number, body: string) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(body, { status })),
+  );
+}
+
+// Submitting starts a flush of its own; waits for it to land on `state`.
+function settled(id: string, state: string) {
+  return vi.waitFor(() => expect(submissionStatus(id)?.state).toBe(state));
+}
+
+describe("score sync", () => {
+  afterEach(() => {
+    saveSyncQueue([]);
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("ranks a score the server accepts", async () => {
+    saveSyncServer("http://scores.test");
+    answer(200, JSON.stringify({ rank: 3, total: 40 }));
+    const submission = submitScore(RUN)!;
+    await settled(submission.id, "ranked");
+    expect(submissionStatus(submission.id)).toEqual({
+      state: "ranked",
+      rank: 3,
+      total: 40,
+    });
+    expect(loadSyncQueue()).toEqual([]);
+  });
+
+  it("retries when something other than the server answers", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    saveSyncServer("http://scores.test");
+    answer(200, "<html>Sign in to the Wi-Fi</html>");
+    const submission = submitScore({ ...RUN, date: "2026-02-02T00:00:00Z" })!;
+    await settled(submission.id, "waiting");
+    expect(loadSyncQueue()).toHaveLength(1);
+
+    // a ranking without the board size is no ranking either: the retry is
+    // put off again
+    answer(200, JSON.stringify({ rank: 1 }));
+    vi.runOnlyPendingTimers();
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.waitFor(() => expect(vi.getTimerCount()).toBe(1));
+    expect(submissionStatus(submission.id)?.state).toBe("waiting");
+
+    answer(200, JSON.stringify({ rank: 1, total: 1 }));
+    vi.runOnlyPendingTimers();
+    await settled(submission.id, "ranked");
+    expect(loadSyncQueue()).toEqual([]);
+  });
+
+  it("fails to fetch a board that isn't one", async () => {
+    saveSyncServer("http://scores.test");
+    const entry = { initials: "ABC", score: 40, date: RUN.date };
+    answer(200, JSON.stringify({ entries: [entry], total: 1 }));
+    await expect(fetchGlobalBoard("snake", "medium")).resolves.toEqual({
+      entries: [entry],
+      total: 1,
+    });
+
+    answer(200, JSON.stringify({ entries: [{ initials: "ABC" }], total: 1 }));
+    await expect(fetchGlobalBoard("snake", "medium")).rejects.toThrow();
+    answer(200, "<html>Sign in to the Wi-Fi</html>");
+    await expect(fetchGlobalBoard("snake", "medium")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,242 @@
+import { DEFAULT_INITIALS, LEADERBOARD_SIZE } from "../games/leaderboard";
+import type { LeaderboardEntry } from "../games/leaderboard";
+import type { GameId } from "../games/registry";
+import type { Recording } from "./replay";
+import {
+  loadClientId,
+  loadInitials,
+  loadSyncQueue,
+  loadSyncServer,
+  saveSyncQueue,
+  saveSyncServer,
+} from "./storage";
+import type { PendingScore } from "./storage";
+
+// ── Types ──────────────────────────────────────────────────
+// Scores go to a global leaderboard server (see server/index.js) through
+// a queue kept in storage, so runs finished offline are sent later. Each
+// carries its recording: the server replays it and ranks the score the
+// replay reaches, so a typed-in best can't get onto the board.
+export type Submission = PendingScore;
+
+export type SubmissionStatus =
+  | { state: "pending" } // queued or being sent
+  | { state: "waiting" } // couldn't be sent, will be retried
+  | { state: "ranked"; rank: number; total: number }
+  | { state: "rejected"; reason: string };
+
+export interface GlobalBoard {
+  entries: LeaderboardEntry[];
+  total: number; // scores on the server for this game and variant
+}
+
+// ── Constants ─────────────────────────────────────────────
+const REQUEST_TIMEOUT_MS = 10_000;
+const RETRY_MIN_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+// Set VITE_LEADERBOARD_URL at build time to turn sync on by default; the
+// Leaderboard page lets players point at another server or turn it off.
+const BUILD_SERVER =
+  normalizeServer(import.meta.env.VITE_LEADERBOARD_URL ?? "") ?? "";
+
+// ── Server ────────────────────────────────────────────────
+// An http(s) URL without its trailing slash, "" for off, or null if it
+// isn't a URL at all.
+export function normalizeServer(url: string): string | null {
+  const trimmed = url.trim();
+  if (!trimmed) return "";
+  try {
+    const parsed = new URL(trimmed);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    return parsed.href.replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
+}
+
+// The server in use, or "" when sync is off.
+export function syncServer(): string {
+  return loadSyncServer() ?? BUILD_SERVER;
+}
+
+// Takes a URL from `normalizeServer`; `null` goes back to the build's
+// default server.
+export function setSyncServer(server: string | null) {
+  saveSyncServer(server);
+  void flushQueue();
+}
+
+function boardUrl(server: string, game: GameId, variant: string): string {
+  return `${server}/scores/${game}/${encodeURIComponent(variant)}`;
+}
+
+// ── Status ────────────────────────────────────────────────
+// Only runs submitted during this visit have a status; it's what the
+// game-over screen shows.
+const statuses = new Map<string, SubmissionStatus>();
+const listeners = new Set<() => void>();
+
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => void listeners.delete(listener);
+}
+
+export function submissionStatus(id: string): SubmissionStatus | undefined {
+  return statuses.get(id);
+}
+
+function setStatus(id: string, status: SubmissionStatus) {
+  statuses.set(id, status);
+  for (const listener of listeners) listener();
+}
+
+// ── Queue ─────────────────────────────────────────────────
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let retryDelay = RETRY_MIN_MS;
+
+// Thrown for failures worth retrying: offline, timeouts, server errors.
+class RetryLater extends Error {}
+
+function isRanking(body: unknown): body is { rank: number; total: number } {
+  if (typeof body !== "object" || body === null) return false;
+  const { rank, total } = body as Record<string, unknown>;
+  return Number.isInteger(rank) && Number.isInteger(total);
+}
+
+async function send(
+  server: string,
+  p: PendingScore,
+): Promise<SubmissionStatus> {
+  const { game, variant = "" } = p.recording;
+  let res: Response;
+  try {
+    res = await fetch(boardUrl(server, game, variant), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(p),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (err) {
+    throw new RetryLater(String(err));
+  }
+  if (res.status >= 500 || res.status === 408 || res.status === 429) {
+    throw new RetryLater(`HTTP ${res.status}`);
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    return { state: "rejected", reason: body?.error ?? `HTTP ${res.status}` };
+  }
+  // anything else answering in the server's place – a proxy's error page,
+  // a captive portal – is no answer at all
+  if (!isRanking(body)) throw new RetryLater("Unexpected response");
+  return { state: "ranked", rank: body.rank, total: body.total };
+}
+
+// Sends queued scores oldest first. A failure stops the flush and tries
+// again later, backing off up to RETRY_MAX_MS.
+export async function flushQueue() {
+  const server = syncServer();
+  if (flushing || !server) return;
+  flushing = true;
+  clearTimeout(retryTimer);
+  try {
+    let next: PendingScore | undefined;
+    while ((next = loadSyncQueue()[0])) {
+      const sent = next;
+      setStatus(sent.id, await send(server, sent));
+      // a rename made while sending stays queued
+      saveSyncQueue(
+        loadSyncQueue().filter(
+          (p) => p.id !== sent.id || p.initials !== sent.initials,
+        ),
+      );
+    }
+    retryDelay = RETRY_MIN_MS;
+  } catch (err) {
+    if (!(err instanceof RetryLater)) throw err;
+    for (const p of loadSyncQueue()) {
+      if (statuses.get(p.id)?.state === "pending") {
+        setStatus(p.id, { state: "waiting" });
+      }
+    }
+    retryTimer = setTimeout(flushQueue, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+  } finally {
+    flushing = false;
+  }
+}
+
+function enqueue(p: PendingScore) {
+  const queue = loadSyncQueue().filter((q) => q.id !== p.id);
+  queue.push(p);
+  saveSyncQueue(queue);
+  if (!statuses.has(p.id)) setStatus(p.id, { state: "pending" });
+  void flushQueue();
+}
+
+// Queues a finished run under the last initials used. Returns null when
+// sync is off or there's nothing to submit.
+export function submitScore(recording: Recording): Submission | null {
+  if (recording.score <= 0 || !syncServer()) return null;
+  const submission: Submission = {
+    id: `${loadClientId()}-${Date.parse(recording.date).toString(36)}`,
+    initials: loadInitials() ?? DEFAULT_INITIALS,
+    recording,
+  };
+  enqueue(submission);
+  return submission;
+}
+
+export function renameSubmission(submission: Submission, initials: string) {
+  enqueue({ ...submission, initials });
+}
+
+export function pendingCount(): number {
+  return loadSyncQueue().length;
+}
+
+// Sends anything left over from earlier visits, and again whenever the
+// browser comes back online.
+export function startScoreSync() {
+  window.addEventListener("online", () => void flushQueue());
+  void flushQueue();
+}
+
+// ── Global board ──────────────────────────────────────────
+function isEntry(value: unknown): value is LeaderboardEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const { initials, score, date } = value as Record<string, unknown>;
+  return (
+    typeof initials === "string" &&
+    Number.isInteger(score) &&
+    typeof date === "string"
+  );
+}
+
+function isBoard(body: unknown): body is GlobalBoard {
+  if (typeof body !== "object" || body === null) return false;
+  const { entries, total } = body as Record<string, unknown>;
+  return (
+    Array.isArray(entries) && entries.every(isEntry) && Number.isInteger(total)
+  );
+}
+
+// Anything but a board – a captive portal's page, another server's answer
+// – fails the fetch like a network error would.
+export async function fetchGlobalBoard(
+  game: GameId,
+  variant: string,
+  limit = LEADERBOARD_SIZE,
+): Promise<GlobalBoard> {
+  const server = syncServer();
+  if (!server) throw new Error("Score sync is off");
+  const res = await fetch(`${boardUrl(server, game, variant)}?limit=${limit}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const body: unknown = await res.json();
+  if (!isBoard(body)) throw new Error("Unexpected response");
+  return body;
+}
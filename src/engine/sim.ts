@@ -0,0 +1,30 @@
+// ── Types ──────────────────────────────────────────────────
+// A simulation holds every rule of a game with no DOM, canvas or React in
+// sight. Pages drive it from the game loop and draw its state; replays,
+// ghosts and anything else that needs to re-run a game drive it the same
+// way. Given the same settings, seed, world and inputs applied at the same
+// ticks, a simulation always ends in exactly the same state.
+export interface World {
+  width: number; // logical size the run was played at, in px
+  height: number;
+}
+
+export interface SimState {
+  tick: number; // updates performed so far
+  over: boolean;
+}
+
+export interface Simulation<State extends SimState, Input, Settings> {
+  step: (settings: Settings) => number; // seconds of game time per update
+  create: (settings: Settings, seed: number, world: World) => State;
+  input: (state: State, input: Input) => void; // applied before the next update
+  update: (state: State) => void; // advance one step, incrementing `tick`
+  score: (state: State) => number;
+}
+
+// Bounds of a custom setting, shared by the menu slider and the verifier.
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
@@ -0,0 +1,493 @@
+import { GAMES, getGame } from "../games/registry";
+import type { GameId } from "../games/registry";
+import type { LeaderboardEntry } from "../games/leaderboard";
+import { RECORDING_VERSION } from "./replay";
+import type { Recording } from "./replay";
+
+// ── Types ──────────────────────────────────────────────────
+// Everything the site remembers lives in one versioned document. Bump
+// SCHEMA_VERSION and append to MIGRATIONS whenever its shape changes.
+export const SCHEMA_VERSION = 9;
+
+export interface GameStats {
+  plays: number;
+  timePlayed: number; // seconds
+  totalScore: number;
+}
+
+// The menu choice a game starts on next time.
+export interface SavedSettings<Difficulty extends string, Settings> {
+  difficulty: Difficulty;
+  settings: Settings;
+}
+
+// Coins banked across runs and what they have bought, for games with a
+// shop. Item ids belong to the game.
+export interface Wallet {
+  coins: number;
+  owned: string[]; // unlocks bought for good
+  stock: Record<string, number>; // consumables bought and not yet used
+  skin: string | null; // owned skin to wear; null is the default look
+}
+
+export interface GameData {
+  best: Record<string, number>; // by variant; "" is the single best from before variants
+  leaderboards: Record<string, LeaderboardEntry[]>; // by variant, best first
+  bestRuns: Record<string, Recording>; // saved best run per variant, raced as a ghost
+  settings: SavedSettings<string, unknown> | null;
+  stats: GameStats;
+  brains: unknown[]; // trained bots, checked by the game that loads them
+  wallet: Wallet;
+}
+
+// A score waiting to reach the global leaderboard server. Sending the same
+// id again only updates its initials.
+export interface PendingScore {
+  id: string;
+  initials: string;
+  recording: Recording; // the whole run; the server replays it for the score
+}
+
+// Belongs to this browser: left alone by save export and import.
+export interface SyncData {
+  server: string | null; // leaderboard server URL; null uses the build default, "" is off
+  clientId: string; // prefixes submission ids so they don't collide across browsers
+  queue: PendingScore[]; // oldest first
+}
+
+export interface StoreData {
+  version: number;
+  player: {
+    initials: string | null; // last initials entered on a leaderboard
+  };
+  games: Partial<Record<GameId, GameData>>;
+  sync: SyncData;
+}
+
+interface Backend {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export interface VersionedDoc {
+  version: number;
+  [key: string]: unknown;
+}
+
+// ── Backend ───────────────────────────────────────────────
+const STORE_KEY = "browser-games";
+const LEGACY_INITIALS_KEY = "leaderboard-initials";
+
+function memoryBackend(): Backend {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+// localStorage when it works; private modes, disabled storage and Node all
+// get a store that lasts as long as the page.
+function detectBackend(): Backend {
+  try {
+    const ls = window.localStorage;
+    const probe = `${STORE_KEY}-probe`;
+    ls.setItem(probe, probe);
+    ls.removeItem(probe);
+    return ls;
+  } catch {
+    return memoryBackend();
+  }
+}
+
+const backend = detectBackend();
+
+// ── Migrations ────────────────────────────────────────────
+export function emptyGame(): GameData {
+  return {
+    best: {},
+    leaderboards: {},
+    bestRuns: {},
+    settings: null,
+    stats: { plays: 0, timePlayed: 0, totalScore: 0 },
+    brains: [],
+    wallet: emptyWallet(),
+  };
+}
+
+export function emptyWallet(): Wallet {
+  return { coins: 0, owned: [], stock: {}, skin: null };
+}
+
+function parseJson(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Version 0 is the loose keys each game used to write on its own
+// (`snake-best`, `flappy-best-run-hard`, …).
+function importLegacyKeys(): VersionedDoc {
+  const games: Partial<Record<GameId, GameData>> = {};
+  for (const game of GAMES) {
+    const { best, bestRun, leaderboard } = game.storageKeys;
+    const data = emptyGame();
+    const bestScore = parseInt(backend.getItem(best) ?? "", 10);
+    if (bestScore > 0) data.best[""] = bestScore;
+    for (const v of game.variants) {
+      const score = parseInt(backend.getItem(`${best}-${v}`) ?? "", 10);
+      if (score > 0) data.best[v] = score;
+      const run = bestRun && parseJson(backend.getItem(`${bestRun}-${v}`));
+      if (run) data.bestRuns[v] = run as Recording;
+      const board = parseJson(backend.getItem(`${leaderboard}-${v}`));
+      if (Array.isArray(board)) data.leaderboards[v] = board;
+    }
+    games[game.id] = data;
+  }
+  return {
+    version: 1,
+    player: { initials: backend.getItem(LEGACY_INITIALS_KEY) },
+    games,
+  };
+}
+
+function legacyKeys(): string[] {
+  const keys = [LEGACY_INITIALS_KEY];
+  for (const game of GAMES) {
+    const { best, bestRun, leaderboard } = game.storageKeys;
+    keys.push(best);
+    for (const v of game.variants) {
+      keys.push(`${best}-${v}`, `${leaderboard}-${v}`);
+      if (bestRun) keys.push(`${bestRun}-${v}`);
+    }
+  }
+  return keys;
+}
+
+function randomId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function emptySync(): SyncData {
+  return { server: null, clientId: randomId(), queue: [] };
+}
+
+// Version 2 adds score sync.
+function addSync(doc: VersionedDoc): VersionedDoc {
+  return { ...doc, version: 2, sync: emptySync() };
+}
+
+// Drops queued scores. Exported saves leave sync out, so an imported one
+// has no queue to drop them from.
+function dropQueued(
+  doc: VersionedDoc,
+  drop: (p: PendingScore) => boolean,
+): VersionedDoc {
+  const sync = doc.sync as SyncData | undefined;
+  if (!sync) return doc;
+  const queue = sync.queue.filter((p) => !drop(p));
+  return { ...doc, sync: { ...sync, queue } };
+}
+
+// Version 3 submits whole runs; scores queued without one can't be
+// verified by the server, so they're dropped.
+function requireRecordings(doc: VersionedDoc): VersionedDoc {
+  return { ...dropQueued(doc, (p) => !("recording" in p)), version: 3 };
+}
+
+// Version 4 keeps trained bots with each game.
+function addBrains(doc: VersionedDoc): VersionedDoc {
+  const games = { ...(doc.games as Record<string, GameData>) };
+  for (const id of Object.keys(games)) games[id] = { ...games[id], brains: [] };
+  return { ...doc, version: 4, games };
+}
+
+// Once a game's rules change, its old runs no longer play back the way
+// they went: its ghosts and its queued scores are dropped.
+function dropRuns(
+  doc: VersionedDoc,
+  id: GameId,
+  version: number,
+): VersionedDoc {
+  const games = { ...(doc.games as Record<string, GameData>) };
+  if (games[id]) games[id] = { ...games[id], bestRuns: {} };
+  const rest = dropQueued(doc, (p) => p.recording.game === id);
+  return { ...rest, version, games };
+}
+
+// Version 5 builds Pixel Runner levels differently.
+function regenerateRunnerLevels(doc: VersionedDoc): VersionedDoc {
+  return dropRuns(doc, "pixel-runner", 5);
+}
+
+// Version 6 adds Pixel Runner power-ups.
+function addRunnerPowerUps(doc: VersionedDoc): VersionedDoc {
+  return dropRuns(doc, "pixel-runner", 6);
+}
+
+// Version 7 gives each game a wallet.
+function addWallets(doc: VersionedDoc): VersionedDoc {
+  const games = { ...(doc.games as Record<string, GameData>) };
+  for (const id of Object.keys(games)) {
+    games[id] = { ...games[id], wallet: emptyWallet() };
+  }
+  return { ...doc, version: 7, games };
+}
+
+// Version 8 adds Pixel Runner's slide, beams and projectiles.
+function addRunnerSlides(doc: VersionedDoc): VersionedDoc {
+  return dropRuns(doc, "pixel-runner", 8);
+}
+
+// Version 9 builds Pixel Runner's fallback steps differently.
+function checkRunnerSteps(doc: VersionedDoc): VersionedDoc {
+  return dropRuns(doc, "pixel-runner", 9);
+}
+
+// MIGRATIONS[n] turns a version-n document into a version n + 1 one.
+const MIGRATIONS: ((doc: VersionedDoc) => VersionedDoc)[] = [
+  importLegacyKeys,
+  addSync,
+  requireRecordings,
+  addBrains,
+  regenerateRunnerLevels,
+  addRunnerPowerUps,
+  addWallets,
+  addRunnerSlides,
+  checkRunnerSteps,
+];
+
+// Brings a document up to SCHEMA_VERSION; newer documents are returned as
+// they are. Sync data without a queue has nothing the migrations could keep,
+// so it's dropped first.
+export function migrate(doc: VersionedDoc): VersionedDoc {
+  const sync = doc.sync as { queue?: unknown } | null | undefined;
+  if ("sync" in doc && !Array.isArray(sync?.queue)) {
+    doc = { ...doc };
+    delete doc.sync;
+  }
+  while (doc.version < SCHEMA_VERSION) doc = MIGRATIONS[doc.version](doc);
+  return doc;
+}
+
+// ── Document ──────────────────────────────────────────────
+let data: StoreData | null = null;
+let readOnly = false; // written by a newer version of the site – don't clobber it
+
+function persist(): boolean {
+  if (readOnly || !data) return false;
+  try {
+    backend.setItem(STORE_KEY, JSON.stringify(data));
+    return true;
+  } catch {
+    // storage full: the document stays correct in memory for this visit
+    return false;
+  }
+}
+
+function openStore(): StoreData {
+  const raw = backend.getItem(STORE_KEY);
+  const parsed = parseJson(raw) as VersionedDoc | null;
+  const from =
+    parsed && Number.isInteger(parsed.version) && parsed.version > 0
+      ? parsed.version
+      : 0;
+  if (raw && from === 0) {
+    // keep an unreadable or unversioned document aside rather than
+    // overwrite it
+    try {
+      backend.setItem(`${STORE_KEY}-corrupt`, raw);
+    } catch {
+      // nowhere to put it
+    }
+  }
+
+  let doc = migrate(from > 0 ? parsed! : { version: 0 });
+  readOnly = doc.version > SCHEMA_VERSION;
+  // sync data too broken to migrate starts over
+  if (!readOnly && !doc.sync) doc = { ...doc, sync: emptySync() };
+
+  data = doc as unknown as StoreData;
+  if (from < SCHEMA_VERSION && persist() && from === 0) {
+    for (const key of legacyKeys()) backend.removeItem(key);
+  }
+  return data;
+}
+
+function store(): StoreData {
+  return data ?? openStore();
+}
+
+function gameData(id: GameId): GameData {
+  const games = store().games;
+  const game = games[id] ?? (games[id] = emptyGame());
+  return game;
+}
+
+function updateGame(id: GameId, change: (game: GameData) => void) {
+  change(gameData(id));
+  persist();
+}
+
+// ── Scores ────────────────────────────────────────────────
+// Without a variant, the highest best over every difficulty is reported
+// (used by the Home cards).
+export function loadBest(id: GameId, variant?: string): number {
+  const best = gameData(id).best;
+  if (variant !== undefined) return best[variant] ?? 0;
+  return Math.max(0, ...Object.values(best));
+}
+
+export function saveBest(id: GameId, score: number, variant = "") {
+  updateGame(id, (game) => {
+    game.best[variant] = score;
+  });
+}
+
+export function loadLeaderboard(
+  id: GameId,
+  variant: string,
+): LeaderboardEntry[] {
+  return (gameData(id).leaderboards[variant] ?? []).map((e) => ({ ...e }));
+}
+
+export function saveLeaderboard(
+  id: GameId,
+  variant: string,
+  entries: LeaderboardEntry[],
+) {
+  updateGame(id, (game) => {
+    game.leaderboards[variant] = entries;
+  });
+}
+
+// ── Saves ─────────────────────────────────────────────────
+export function loadBestRun<Input, Settings>(
+  id: GameId,
+  variant = "",
+): Recording<Input, Settings> | null {
+  const run = gameData(id).bestRuns[variant];
+  return run && run.version === RECORDING_VERSION && run.game === id
+    ? (run as Recording<Input, Settings>)
+    : null;
+}
+
+export function saveBestRun(recording: Recording) {
+  updateGame(recording.game, (game) => {
+    game.bestRuns[recording.variant ?? ""] = recording;
+  });
+}
+
+// ── Settings ──────────────────────────────────────────────
+// The difficulty picked last time, with its settings: presets come from
+// `presets` so tuning them reaches returning players, custom settings are
+// laid over the medium preset so new fields get a default.
+export function loadSettings<Difficulty extends string, Settings extends object>(
+  id: GameId,
+  presets: Partial<Record<Difficulty, Settings>> & { medium: Settings },
+): SavedSettings<Difficulty, Settings> | null {
+  const saved = gameData(id).settings;
+  if (!saved || !getGame(id).variants.includes(saved.difficulty)) return null;
+  const difficulty = saved.difficulty as Difficulty;
+  const preset = presets[difficulty];
+  const settings = preset
+    ? { ...preset }
+    : { ...presets.medium, ...(saved.settings as Partial<Settings>) };
+  return { difficulty, settings };
+}
+
+export function saveSettings<Difficulty extends string, Settings>(
+  id: GameId,
+  difficulty: Difficulty,
+  settings: Settings,
+) {
+  updateGame(id, (game) => {
+    game.settings = { difficulty, settings };
+  });
+}
+
+export function loadInitials(): string | null {
+  return store().player.initials;
+}
+
+export function saveInitials(initials: string) {
+  store().player.initials = initials;
+  persist();
+}
+
+// ── Stats ─────────────────────────────────────────────────
+export function loadStats(id: GameId): GameStats {
+  return { ...gameData(id).stats };
+}
+
+export function recordPlay(id: GameId, score: number, seconds: number) {
+  updateGame(id, (game) => {
+    game.stats.plays++;
+    game.stats.timePlayed += seconds;
+    game.stats.totalScore += score;
+  });
+}
+
+// ── Bots ──────────────────────────────────────────────────
+export function loadBrains(id: GameId): unknown[] {
+  return JSON.parse(JSON.stringify(gameData(id).brains));
+}
+
+export function saveBrains(id: GameId, brains: unknown[]) {
+  updateGame(id, (game) => {
+    game.brains = brains;
+  });
+}
+
+// ── Wallet ────────────────────────────────────────────────
+export function loadWallet(id: GameId): Wallet {
+  return JSON.parse(JSON.stringify(gameData(id).wallet));
+}
+
+export function saveWallet(id: GameId, wallet: Wallet) {
+  updateGame(id, (game) => {
+    game.wallet = wallet;
+  });
+}
+
+// ── Sync ──────────────────────────────────────────────────
+export function loadSyncServer(): string | null {
+  return store().sync.server;
+}
+
+export function saveSyncServer(server: string | null) {
+  store().sync.server = server;
+  persist();
+}
+
+export function loadClientId(): string {
+  return store().sync.clientId;
+}
+
+export function loadSyncQueue(): PendingScore[] {
+  return store().sync.queue.map((p) => ({ ...p }));
+}
+
+export function saveSyncQueue(queue: PendingScore[]) {
+  store().sync.queue = queue;
+  persist();
+}
+
+// ── Whole document ────────────────────────────────────────
+// A detached copy of everything stored, for save export.
+export function exportStore(): StoreData {
+  return JSON.parse(JSON.stringify(store()));
+}
+
+// Swaps in a complete, already validated document (save import). Returns
+// false if it could only be kept in memory.
+export function replaceStore(next: StoreData): boolean {
+  data = next;
+  readOnly = false;
+  return persist();
+}
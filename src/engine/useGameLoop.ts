@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+
+// ── Types ──────────────────────────────────────────────────
+export type GameState = "menu" | "playing" | "paused" | "gameover";
+
+export interface GameLoopOptions {
+  initialState?: GameState;
+  step: number; // seconds of game time per update, may change between frames
+  runInMenu?: boolean; // keep rendering in "menu" (pages whose canvas stays mounted)
+  update: (dt: number) => void; // advance the game by one fixed step
+  render: (alpha: number, now: number) => void; // alpha = fraction of a step since the last update
+}
+
+export interface GameLoop {
+  state: GameState;
+  stateRef: RefObject<GameState>;
+  setState: (next: GameState) => void;
+  togglePause: () => void;
+}
+
+// ── Constants ─────────────────────────────────────────────
+const MAX_FRAME_TIME = 0.25; // s – long frames (tab switch, debugger) are clamped
+const MAX_STEPS_PER_FRAME = 240; // bail out instead of spiralling on slow devices
+
+// ── Hook ──────────────────────────────────────────────────
+// Fixed-step game loop shared by every game. `update` always receives the
+// same dt regardless of the display refresh rate; `render` runs once per
+// animation frame and may interpolate using `alpha`. Updates only happen
+// while the lifecycle is "playing", rendering continues in every other
+// state so pages can draw their paused / game over overlays.
+export function useGameLoop(options: GameLoopOptions): GameLoop {
+  const initial = options.initialState ?? "menu";
+  const [state, setReactState] = useState<GameState>(initial);
+  const stateRef = useRef<GameState>(initial);
+  const optionsRef = useRef(options);
+  const accRef = useRef(0);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const setState = useCallback((next: GameState) => {
+    // a fresh run starts with an empty accumulator; resuming keeps it
+    if (next === "playing" && stateRef.current !== "paused") {
+      accRef.current = 0;
+    }
+    stateRef.current = next;
+    setReactState(next);
+  }, []);
+
+  const togglePause = useCallback(() => {
+    if (stateRef.current === "playing") setState("paused");
+    else if (stateRef.current === "paused") setState("playing");
+  }, [setState]);
+
+  const running = state !== "menu" || !!options.runInMenu;
+
+  useEffect(() => {
+    if (!running) return;
+
+    let raf = 0;
+    let last = 0;
+
+    function frame(now: number) {
+      const opts = optionsRef.current;
+      const elapsed = last > 0 ? Math.min((now - last) / 1000, MAX_FRAME_TIME) : 0;
+      last = now;
+
+      if (stateRef.current === "playing") {
+        accRef.current += elapsed;
+        let steps = 0;
+        while (accRef.current >= opts.step && stateRef.current === "playing") {
+          opts.update(opts.step);
+          accRef.current -= opts.step;
+          if (++steps >= MAX_STEPS_PER_FRAME) {
+            accRef.current = 0;
+            break;
+          }
+        }
+      }
+
+      const alpha = Math.min(1, accRef.current / opts.step);
+      opts.render(alpha, now);
+      raf = requestAnimationFrame(frame);
+    }
+
+    raf = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(raf);
+  }, [running]);
+
+  return { state, stateRef, setState, togglePause };
+}
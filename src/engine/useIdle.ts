@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+
+// ── Constants ─────────────────────────────────────────────
+const ACTIVITY = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "wheel",
+  "touchstart",
+  "scroll",
+] as const;
+
+// ── Hook ──────────────────────────────────────────────────
+// True once nobody has touched the mouse, keyboard or screen for `timeout`
+// ms, and false again the moment anyone does.
+export function useIdle(timeout: number): boolean {
+  const [idle, setIdle] = useState(false);
+
+  useEffect(() => {
+    let timer = window.setTimeout(() => setIdle(true), timeout);
+
+    function wake() {
+      window.clearTimeout(timer);
+      setIdle(false);
+      timer = window.setTimeout(() => setIdle(true), timeout);
+    }
+
+    for (const event of ACTIVITY) {
+      window.addEventListener(event, wake, { passive: true });
+    }
+    return () => {
+      window.clearTimeout(timer);
+      for (const event of ACTIVITY) window.removeEventListener(event, wake);
+    };
+  }, [timeout]);
+
+  return idle;
+}
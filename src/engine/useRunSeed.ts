@@ -0,0 +1,19 @@
+import { useCallback } from "react";
+import { useSearchParams } from "react-router";
+import { parseSeed, randomSeed } from "./rng";
+
+// ── Hook ──────────────────────────────────────────────────
+// Picks the seed for each run of a game page. A `?seed=` query parameter
+// pins every run to that seed (shared challenges); otherwise a run takes the
+// seed it is `racing`, a ghost's, or gets a fresh random one.
+export function useRunSeed(): { nextSeed: (racing?: number) => number } {
+  const [params] = useSearchParams();
+  const fixedSeed = parseSeed(params.get("seed"));
+
+  const nextSeed = useCallback(
+    (racing?: number) => fixedSeed ?? racing ?? randomSeed(),
+    [fixedSeed],
+  );
+
+  return { nextSeed };
+}
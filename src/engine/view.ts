@@ -0,0 +1,23 @@
+import type { World } from "./sim";
+
+// Scales and centres a fixed-size world inside the canvas, letterboxing
+// whatever is left over. Runs keep the world they started with, so a
+// resized window or a replay viewer just shows the same run bigger or
+// smaller. Reset the transform before drawing screen-space overlays.
+export function fitWorld(
+  ctx: CanvasRenderingContext2D,
+  world: World,
+  letterbox = "#000",
+) {
+  const { width: cw, height: ch } = ctx.canvas;
+  const scale = Math.min(cw / world.width, ch / world.height);
+  const offsetX = (cw - world.width * scale) / 2;
+  const offsetY = (ch - world.height * scale) / 2;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (offsetX > 0.5 || offsetY > 0.5) {
+    ctx.fillStyle = letterbox;
+    ctx.fillRect(0, 0, cw, ch);
+  }
+  ctx.setTransform(scale, 0, 0, scale, offsetX, offsetY);
+}
@@ -0,0 +1,129 @@
+import type { Rng } from "../../engine/rng";
+import type { Policy } from "../headless";
+import { BIRD_RADIUS, FLAP_STRENGTH, GROUND_HEIGHT, PIPE_WIDTH } from "./sim";
+import type { FlappyInput, FlappyState } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+// A small fully connected network. Weights are stored flat, neuron by
+// neuron: each neuron past the inputs has its bias, then one weight per
+// neuron in the layer below.
+export interface Brain {
+  layers: number[]; // neurons per layer, inputs first
+  weights: number[];
+}
+
+// What a bird sees, in the order the network receives it.
+export const SENSES = [
+  "Height",
+  "Speed",
+  "Pipe ahead",
+  "Gap top",
+  "Gap bottom",
+];
+export const LAYERS = [SENSES.length, 6, 1];
+
+// ── Network ────────────────────────────────────────────────
+export function weightCount(layers: number[]): number {
+  let count = 0;
+  for (let l = 1; l < layers.length; l++) {
+    count += layers[l] * (layers[l - 1] + 1);
+  }
+  return count;
+}
+
+export function randomBrain(rng: Rng, layers: number[] = LAYERS): Brain {
+  const weights = Array.from({ length: weightCount(layers) }, () =>
+    rng.range(-1, 1),
+  );
+  return { layers: [...layers], weights };
+}
+
+// Every layer's activations, inputs first. Hidden layers use tanh, the
+// output a sigmoid so it reads as "how much it wants to flap".
+export function activate(brain: Brain, inputs: number[]): number[][] {
+  const { layers, weights } = brain;
+  const out = [inputs];
+  let w = 0;
+  for (let l = 1; l < layers.length; l++) {
+    const below = out[l - 1];
+    const layer: number[] = [];
+    for (let n = 0; n < layers[l]; n++) {
+      let sum = weights[w++];
+      for (const value of below) sum += value * weights[w++];
+      layer.push(
+        l === layers.length - 1 ? 1 / (1 + Math.exp(-sum)) : Math.tanh(sum),
+      );
+    }
+    out.push(layer);
+  }
+  return out;
+}
+
+// ── Playing ────────────────────────────────────────────────
+// Roughly unit-sized readings of the bird and the next pipe it has to clear.
+export function senses(state: FlappyState): number[] {
+  const { bird, pipes, world, settings } = state;
+  const playH = world.height - GROUND_HEIGHT;
+  const next = pipes.find((p) => p.x + PIPE_WIDTH + 4 > bird.x - BIRD_RADIUS);
+  const gapY = next ? next.gapY : playH / 2;
+  return [
+    bird.y / playH,
+    bird.velocity / -FLAP_STRENGTH,
+    next ? (next.x - bird.x) / world.width : 1,
+    (gapY - settings.gap / 2 - bird.y) / playH,
+    (gapY + settings.gap / 2 - bird.y) / playH,
+  ];
+}
+
+// Flaps when the network says so. A bird that is still shooting up from its
+// last flap can't flap again, which keeps a bot's recording as sparse as a
+// player's taps; the first flap starts the run straight away.
+export function decide(brain: Brain, state: FlappyState): FlappyInput | void {
+  if (!state.started) return "flap";
+  if (state.bird.velocity < FLAP_STRENGTH / 2) return;
+  const [output] = activate(brain, senses(state)).at(-1)!;
+  if (output > 0.5) return "flap";
+}
+
+export function brainPolicy(brain: Brain): Policy<FlappyState, FlappyInput> {
+  return (state) => decide(brain, state);
+}
+
+// ── Saving ────────────────────────────────────────────────
+// A trained brain as it is kept in storage.
+export interface SavedBrain {
+  brain: Brain;
+  generation: number; // the generation it came from
+  score: number; // pipes it cleared in training
+  date: string; // ISO timestamp
+}
+
+function parseBrain(raw: unknown): Brain | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { layers, weights } = raw as Partial<Brain>;
+  const valid =
+    Array.isArray(layers) &&
+    layers.length === LAYERS.length &&
+    layers.every((n, i) => n === LAYERS[i]) &&
+    Array.isArray(weights) &&
+    weights.length === weightCount(LAYERS) &&
+    weights.every((w) => typeof w === "number" && Number.isFinite(w));
+  return valid ? { layers: [...layers], weights: [...weights] } : null;
+}
+
+// Saved brains come back from storage and save files, so anything that
+// isn't a network of this shape is refused.
+export function parseSavedBrain(raw: unknown): SavedBrain | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { brain, generation, score, date } = raw as Record<string, unknown>;
+  const parsed = parseBrain(brain);
+  if (!parsed || typeof generation !== "number" || typeof score !== "number") {
+    return null;
+  }
+  return {
+    brain: parsed,
+    generation,
+    score,
+    date: typeof date === "string" ? date : "",
+  };
+}
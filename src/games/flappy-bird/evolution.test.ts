@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "../../engine/rng";
+import { DEFAULT_WORLD, simulate } from "../headless";
+import { brainPolicy, parseSavedBrain, randomBrain } from "./brain";
+import { createPopulation, nextGeneration, stepPopulation } from "./evolution";
+import type { Population } from "./evolution";
+import { PRESETS, flappySim } from "./sim";
+
+function train(pop: Population, generations: number) {
+  for (let g = 0; g < generations; g++) {
+    while (!stepPopulation(pop));
+    nextGeneration(pop);
+    if (pop.champion!.score >= pop.options.goal) return;
+  }
+}
+
+describe("flappy neuroevolution", () => {
+  it("breeds a bird that flies the whole course", () => {
+    const pop = createPopulation(PRESETS.easy, DEFAULT_WORLD, 1);
+    train(pop, 20);
+    expect(pop.champion!.score).toBe(pop.options.goal);
+    expect(pop.history.length).toBe(pop.champion!.generation);
+  });
+
+  it("flies a trained brain through the normal game", () => {
+    const pop = createPopulation(PRESETS.easy, DEFAULT_WORLD, 1);
+    train(pop, 20);
+    const run = simulate(flappySim, "flappy-bird", PRESETS.easy, {
+      seed: 99,
+      world: DEFAULT_WORLD,
+      policy: brainPolicy(pop.champion!.brain),
+      maxTicks: 120 * 30,
+    });
+    expect(run.state.score).toBeGreaterThan(10);
+  });
+
+  it("only loads brains of the right shape", () => {
+    const brain = randomBrain(createRng(3));
+    const saved = { brain, generation: 4, score: 12, date: "2024-01-01" };
+    expect(parseSavedBrain(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+    expect(
+      parseSavedBrain({ ...saved, brain: { ...brain, layers: [5, 2, 1] } }),
+    ).toBeNull();
+    expect(
+      parseSavedBrain({ ...saved, brain: { ...brain, weights: [1, 2] } }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import { createRng } from "../../engine/rng";
+import type { Rng } from "../../engine/rng";
+import type { World } from "../../engine/sim";
+import { decide, randomBrain } from "./brain";
+import type { Brain } from "./brain";
+import { flappySim } from "./sim";
+import type { FlappyState, GameSettings } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface EvolutionOptions {
+  size: number; // birds per generation
+  elite: number; // best birds carried over unchanged
+  mutationRate: number; // chance of each weight being nudged
+  mutationSize: number; // spread of a nudge
+  goal: number; // a generation ends once a bird clears this many pipes
+}
+
+export interface Bot {
+  brain: Brain;
+  state: FlappyState;
+  fitness: number;
+}
+
+export interface GenerationStats {
+  best: number; // fitness
+  average: number;
+  score: number; // most pipes cleared
+}
+
+export interface Champion {
+  brain: Brain;
+  generation: number;
+  score: number;
+  fitness: number;
+}
+
+// Every bird of a generation flies its own copy of the same course, so
+// they meet the same pipes at the same time and can be drawn as one flock.
+export interface Population {
+  settings: GameSettings;
+  world: World;
+  options: EvolutionOptions;
+  rng: Rng;
+  generation: number; // counts from 1
+  bots: Bot[];
+  history: GenerationStats[]; // one entry per finished generation
+  champion: Champion | null; // best bird of every generation so far
+}
+
+export const DEFAULT_EVOLUTION: EvolutionOptions = {
+  size: 50,
+  elite: 4,
+  mutationRate: 0.15,
+  mutationSize: 0.5,
+  goal: 100,
+};
+
+// ── Population ────────────────────────────────────────────
+// A cleared pipe is worth about half a second of flying.
+function fitness(state: FlappyState): number {
+  return state.tick + state.score * 60;
+}
+
+function spawn(pop: Population, brains: Brain[]) {
+  const seed = pop.rng.int(0x100000000);
+  pop.bots = brains.map((brain) => ({
+    brain,
+    state: flappySim.create(pop.settings, seed, pop.world),
+    fitness: 0,
+  }));
+}
+
+export function createPopulation(
+  settings: GameSettings,
+  world: World,
+  seed: number,
+  options: EvolutionOptions = DEFAULT_EVOLUTION,
+): Population {
+  const rng = createRng(seed);
+  const pop: Population = {
+    settings,
+    world,
+    options,
+    rng,
+    generation: 1,
+    bots: [],
+    history: [],
+    champion: null,
+  };
+  spawn(
+    pop,
+    Array.from({ length: options.size }, () => randomBrain(rng)),
+  );
+  return pop;
+}
+
+// Advances every bird still flying by one physics step. Returns true once
+// the generation is over: every bird has crashed or one reached the goal.
+export function stepPopulation(pop: Population): boolean {
+  let flying = 0;
+  for (const bot of pop.bots) {
+    const { state } = bot;
+    if (state.over) continue;
+    if (decide(bot.brain, state)) flappySim.input(state, "flap");
+    flappySim.update(state);
+    bot.fitness = fitness(state);
+    if (state.score >= pop.options.goal) return true;
+    if (!state.over) flying++;
+  }
+  return flying === 0;
+}
+
+// The bird worth following on screen: the fittest still flying, or the
+// fittest overall once they have all crashed.
+export function leader(pop: Population): Bot {
+  let best = pop.bots[0];
+  for (const bot of pop.bots) {
+    if (best.state.over && !bot.state.over) best = bot;
+    else if (best.state.over === bot.state.over && bot.fitness > best.fitness) {
+      best = bot;
+    }
+  }
+  return best;
+}
+
+// ── Breeding ──────────────────────────────────────────────
+function gaussian(rng: Rng): number {
+  const u = 1 - rng.next();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng.next());
+}
+
+// The fitter of a few birds picked at random.
+function select(ranked: Bot[], rng: Rng): Brain {
+  let best = ranked.length - 1;
+  for (let i = 0; i < 3; i++) best = Math.min(best, rng.int(ranked.length));
+  return ranked[best].brain;
+}
+
+function breed(a: Brain, b: Brain, pop: Population): Brain {
+  const { rng, options } = pop;
+  const weights = a.weights.map((w, i) => {
+    const gene = rng.chance(0.5) ? w : b.weights[i];
+    return rng.chance(options.mutationRate)
+      ? gene + gaussian(rng) * options.mutationSize
+      : gene;
+  });
+  return { layers: [...a.layers], weights };
+}
+
+// Scores the finished generation and replaces it with the next: the elite
+// fly again unchanged, everyone else is a mutated cross of two parents.
+export function nextGeneration(pop: Population) {
+  const ranked = [...pop.bots].sort((a, b) => b.fitness - a.fitness);
+  const top = ranked[0];
+  const total = ranked.reduce((sum, bot) => sum + bot.fitness, 0);
+  pop.history.push({
+    best: top.fitness,
+    average: total / ranked.length,
+    score: Math.max(...ranked.map((bot) => bot.state.score)),
+  });
+
+  if (!pop.champion || top.fitness > pop.champion.fitness) {
+    pop.champion = {
+      brain: top.brain,
+      generation: pop.generation,
+      score: top.state.score,
+      fitness: top.fitness,
+    };
+  }
+
+  const brains = ranked.slice(0, pop.options.elite).map((bot) => bot.brain);
+  while (brains.length < pop.options.size) {
+    brains.push(breed(select(ranked, pop.rng), select(ranked, pop.rng), pop));
+  }
+  pop.generation++;
+  spawn(pop, brains);
+}
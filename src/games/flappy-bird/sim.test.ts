@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { BIRD_RADIUS, GROUND_HEIGHT, PIPE_WIDTH, PRESETS, flappySim } from "./sim";
+import type { FlappyState } from "./sim";
+
+const WORLD = { width: 400, height: 600 };
+const PLAY_H = WORLD.height - GROUND_HEIGHT;
+
+// A started game where the bird hangs still in mid-air (no gravity) and
+// pipes only appear when a test places them.
+function setup(): FlappyState {
+  const settings = { ...PRESETS.medium, gravity: 0, spawnInterval: 1000 };
+  const state = flappySim.create(settings, 1, WORLD);
+  flappySim.input(state, "flap");
+  state.bird.velocity = 0;
+  return state;
+}
+
+describe("flappy bird scoring", () => {
+  it("scores once the bird has cleared a pipe", () => {
+    const state = setup();
+    const { bird } = state;
+    state.pipes = [{ x: bird.x - PIPE_WIDTH + 1, gapY: bird.y, scored: false }];
+
+    flappySim.update(state);
+    expect(state.over).toBe(false);
+    expect(state.score).toBe(1);
+    expect(state.pipes[0].scored).toBe(true);
+  });
+
+  it("scores each pipe only once", () => {
+    const state = setup();
+    const { bird } = state;
+    state.pipes = [{ x: bird.x - PIPE_WIDTH + 1, gapY: bird.y, scored: false }];
+    for (let i = 0; i < 60; i++) flappySim.update(state);
+    expect(state.score).toBe(1);
+  });
+
+  it("doesn't score a pipe the bird is still inside", () => {
+    const state = setup();
+    const { bird } = state;
+    state.pipes = [{ x: bird.x - PIPE_WIDTH / 2, gapY: bird.y, scored: false }];
+    flappySim.update(state);
+    expect(state.score).toBe(0);
+    expect(state.over).toBe(false);
+  });
+
+  it("doesn't move or score anything before the first flap", () => {
+    const state = flappySim.create(PRESETS.medium, 1, WORLD);
+    state.pipes = [{ x: 10, gapY: 100, scored: false }];
+    for (let i = 0; i < 60; i++) flappySim.update(state);
+    expect(state.pipes[0].x).toBe(10);
+    expect(state.score).toBe(0);
+    expect(state.over).toBe(false);
+  });
+});
+
+describe("flappy bird collision", () => {
+  it("hits a pipe when the bird is above the gap", () => {
+    const state = setup();
+    const { bird } = state;
+    const gap = state.settings.gap;
+    state.pipes = [
+      { x: bird.x, gapY: bird.y + gap / 2 + BIRD_RADIUS, scored: false },
+    ];
+    flappySim.update(state);
+    expect(state.over).toBe(true);
+  });
+
+  it("hits a pipe when the bird is below the gap", () => {
+    const state = setup();
+    const { bird } = state;
+    const gap = state.settings.gap;
+    state.pipes = [
+      { x: bird.x, gapY: bird.y - gap / 2 - BIRD_RADIUS, scored: false },
+    ];
+    flappySim.update(state);
+    expect(state.over).toBe(true);
+  });
+
+  it("flies through the middle of the gap", () => {
+    const state = setup();
+    const { bird } = state;
+    state.pipes = [{ x: bird.x, gapY: bird.y, scored: false }];
+    flappySim.update(state);
+    expect(state.over).toBe(false);
+  });
+
+  it("counts the pipe cap's overhang", () => {
+    const state = setup();
+    const { bird } = state;
+    const gap = state.settings.gap;
+    // body just clear of the pipe, but not of the 4px cap
+    state.pipes = [
+      {
+        x: bird.x + BIRD_RADIUS + 2 + state.settings.pipeSpeed / 120,
+        gapY: bird.y + gap,
+        scored: false,
+      },
+    ];
+    flappySim.update(state);
+    expect(state.over).toBe(true);
+  });
+
+  it("hits the ground", () => {
+    const state = setup();
+    state.bird.y = PLAY_H - BIRD_RADIUS + 1;
+    flappySim.update(state);
+    expect(state.over).toBe(true);
+  });
+
+  it("hits the ceiling", () => {
+    const state = setup();
+    state.bird.y = BIRD_RADIUS - 1;
+    flappySim.update(state);
+    expect(state.over).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+import { createRng } from "../../engine/rng";
+import type { Rng } from "../../engine/rng";
+import type { SettingRange, SimState, Simulation, World } from "../../engine/sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface GameSettings {
+  gap: number; // px between top and bottom pipe
+  pipeSpeed: number; // px/s
+  spawnInterval: number; // seconds between pipes
+  gravity: number; // px/s²
+}
+
+export type Difficulty = "easy" | "medium" | "hard" | "custom";
+
+export interface Bird {
+  x: number;
+  y: number;
+  velocity: number;
+  rotation: number;
+  wingPhase: number;
+}
+
+export interface Pipe {
+  x: number;
+  gapY: number; // centre of the gap
+  scored: boolean;
+}
+
+export type FlappyInput = "flap";
+
+export interface FlappyState extends SimState {
+  settings: GameSettings;
+  world: World;
+  rng: Rng;
+  started: boolean; // false until the first flap – the bird hovers
+  bird: Bird;
+  prevBirdY: number; // for interpolation between updates
+  pipes: Pipe[];
+  score: number;
+  spawnTimer: number;
+  readyTime: number;
+  groundOffset: number;
+}
+
+// ── Presets ────────────────────────────────────────────────
+// All motion is in units per second so the game plays the same at any
+// refresh rate; the loop integrates it in fixed steps of STEP seconds.
+export const PRESETS: Record<Exclude<Difficulty, "custom">, GameSettings> = {
+  easy: { gap: 190, pipeSpeed: 140, spawnInterval: 1.9, gravity: 1450 },
+  medium: { gap: 160, pipeSpeed: 168, spawnInterval: 100 / 60, gravity: 1620 },
+  hard: { gap: 135, pipeSpeed: 200, spawnInterval: 1.4, gravity: 1800 },
+};
+
+export const CUSTOM_LIMITS: Record<keyof GameSettings, SettingRange> = {
+  gap: { min: 110, max: 220, step: 5 },
+  pipeSpeed: { min: 100, max: 260, step: 10 },
+  spawnInterval: { min: 1, max: 2.5, step: 0.1 },
+  gravity: { min: 1000, max: 2400, step: 50 },
+};
+
+// ── Constants ──────────────────────────────────────────────
+export const FLAP_STRENGTH = -450; // px/s
+export const PIPE_WIDTH = 60;
+export const WING_SPEED = 18; // rad/s while flying
+export const STEP = 1 / 120; // seconds per physics step
+export const BIRD_RADIUS = 16;
+export const GROUND_HEIGHT = 60;
+
+// ── Simulation ─────────────────────────────────────────────
+function create(settings: GameSettings, seed: number, world: World): FlappyState {
+  const y = (world.height - GROUND_HEIGHT) / 2;
+  return {
+    tick: 0,
+    over: false,
+    settings,
+    world,
+    rng: createRng(seed),
+    started: false,
+    bird: { x: world.width * 0.25, y, velocity: 0, rotation: 0, wingPhase: 0 },
+    prevBirdY: y,
+    pipes: [],
+    score: 0,
+    spawnTimer: 0,
+    readyTime: 0,
+    groundOffset: 0,
+  };
+}
+
+function input(state: FlappyState, _input: FlappyInput) {
+  state.started = true;
+  state.bird.velocity = FLAP_STRENGTH;
+}
+
+function update(state: FlappyState) {
+  const dt = STEP;
+  const { gap, pipeSpeed, spawnInterval, gravity } = state.settings;
+  const w = state.world.width;
+  const playH = state.world.height - GROUND_HEIGHT;
+  const { bird, pipes } = state;
+
+  state.tick++;
+  state.prevBirdY = bird.y;
+
+  // get ready: hover until the first flap
+  if (!state.started) {
+    state.readyTime += dt;
+    bird.y = playH / 2 + Math.sin((state.readyTime * 1000) / 300) * 8;
+    bird.wingPhase += (WING_SPEED / 2) * dt;
+    bird.rotation = 0;
+    return;
+  }
+
+  // bird physics
+  bird.velocity += gravity * dt;
+  bird.y += bird.velocity * dt;
+  bird.rotation = Math.atan2(bird.velocity, 480);
+  bird.wingPhase += WING_SPEED * dt;
+  state.groundOffset += pipeSpeed * dt;
+
+  // spawn pipes
+  state.spawnTimer += dt;
+  if (state.spawnTimer >= spawnInterval) {
+    state.spawnTimer -= spawnInterval;
+    const minGapY = gap / 2 + 40;
+    const maxGapY = playH - gap / 2 - 40;
+    const gapY = state.rng.range(minGapY, maxGapY);
+    pipes.push({ x: w, gapY, scored: false });
+  }
+
+  // move pipes + score
+  for (let i = pipes.length - 1; i >= 0; i--) {
+    pipes[i].x -= pipeSpeed * dt;
+
+    // scoring
+    if (!pipes[i].scored && pipes[i].x + PIPE_WIDTH < bird.x) {
+      pipes[i].scored = true;
+      state.score++;
+    }
+
+    // remove off-screen
+    if (pipes[i].x + PIPE_WIDTH + 8 < 0) {
+      pipes.splice(i, 1);
+    }
+  }
+
+  // collision
+  // ground / ceiling
+  if (bird.y + BIRD_RADIUS > playH || bird.y - BIRD_RADIUS < 0) {
+    state.over = true;
+  }
+  // pipes
+  for (const p of pipes) {
+    const bLeft = bird.x - BIRD_RADIUS;
+    const bRight = bird.x + BIRD_RADIUS;
+    const bTop = bird.y - BIRD_RADIUS;
+    const bBottom = bird.y + BIRD_RADIUS;
+    const pLeft = p.x - 4; // account for cap overhang
+    const pRight = p.x + PIPE_WIDTH + 4;
+    const gapTop = p.gapY - gap / 2;
+    const gapBottom = p.gapY + gap / 2;
+
+    if (bRight > pLeft && bLeft < pRight) {
+      if (bTop < gapTop || bBottom > gapBottom) {
+        state.over = true;
+        break;
+      }
+    }
+  }
+}
+
+export const flappySim: Simulation<FlappyState, FlappyInput, GameSettings> = {
+  step: () => STEP,
+  create,
+  input,
+  update,
+  score: (state) => state.score,
+};
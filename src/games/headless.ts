@@ -0,0 +1,70 @@
+import { createRun } from "../engine/replay";
+import type { Run } from "../engine/replay";
+import type { SimState, Simulation, World } from "../engine/sim";
+import type { GameId } from "./registry";
+import { flappySim } from "./flappy-bird/sim";
+import { matchSim } from "./match-three/sim";
+import { runnerSim } from "./pixel-runner/sim";
+import { snakeSim } from "./snake/sim";
+import { invadersSim } from "./space-invaders/sim";
+
+// ── Simulations ────────────────────────────────────────────
+// Every game's rules by id, for code that plays games without a page:
+// bots, the replay verifier, tests. Nothing imported here touches the DOM,
+// so this module runs as-is under Node.
+export const SIMS = {
+  "flappy-bird": flappySim,
+  snake: snakeSim,
+  "match-three": matchSim,
+  "pixel-runner": runnerSim,
+  "space-invaders": invadersSim,
+} satisfies Record<GameId, unknown>;
+
+export type Sims = typeof SIMS;
+
+// Snake and Match Three play on their grid; the others on a canvas-sized
+// world, for which this is a typical desktop size.
+export const DEFAULT_WORLD: World = { width: 800, height: 600 };
+
+export function gridWorld(gridSize: number): World {
+  return { width: gridSize, height: gridSize };
+}
+
+// ── Driving ───────────────────────────────────────────────
+// Decides the inputs for the next update from the current state; return
+// nothing to leave the controls as they are.
+export type Policy<State, Input> = (state: State) => Input | Input[] | void;
+
+export interface SimulateOptions<State, Input> {
+  seed: number;
+  world: World;
+  variant?: string;
+  policy?: Policy<State, Input>;
+  maxTicks?: number; // stop here even if the game isn't over
+}
+
+const DEFAULT_MAX_TICKS = 120 * 60 * 10; // ten minutes at the fastest step
+
+// Plays a game from start to game over (or `maxTicks`) as fast as it will
+// go. The returned run holds the final state and records every input, so
+// `run.recording()` can be replayed, raced as a ghost or submitted.
+export function simulate<State extends SimState, Input, Settings>(
+  sim: Simulation<State, Input, Settings>,
+  game: GameId,
+  settings: Settings,
+  options: SimulateOptions<State, Input>,
+): Run<State, Input, Settings> {
+  const { seed, world, variant, policy } = options;
+  const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS;
+  const run = createRun(sim, game, settings, seed, world, variant);
+  while (!run.state.over && run.state.tick < maxTicks) {
+    const decided = policy?.(run.state);
+    if (decided !== undefined) {
+      for (const input of Array.isArray(decided) ? decided : [decided]) {
+        run.input(input);
+      }
+    }
+    run.update();
+  }
+  return run;
+}
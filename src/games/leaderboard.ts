@@ -0,0 +1,78 @@
+import {
+  loadInitials,
+  loadLeaderboard,
+  saveInitials,
+  saveLeaderboard,
+} from "../engine/storage";
+import type { GameId } from "./registry";
+
+// ── Types ──────────────────────────────────────────────────
+export interface LeaderboardEntry {
+  initials: string; // up to INITIALS_LENGTH letters/digits
+  score: number;
+  date: string; // ISO timestamp of the run, also identifies the entry
+}
+
+// ── Constants ─────────────────────────────────────────────
+export const LEADERBOARD_SIZE = 10;
+export const INITIALS_LENGTH = 3;
+
+export const DEFAULT_INITIALS = "???";
+
+// ── Helpers ───────────────────────────────────────────────
+export function normalizeInitials(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .slice(0, INITIALS_LENGTH);
+}
+
+// ── Leaderboard ───────────────────────────────────────────
+// Records a finished run under the last initials used. Returns the new
+// entry, or null if the score doesn't make the table. Equal scores keep
+// the order they were set in.
+export function addScore(
+  id: GameId,
+  variant: string,
+  score: number,
+): LeaderboardEntry | null {
+  if (score <= 0) return null;
+  const entries = loadLeaderboard(id, variant);
+  const rank = entries.findIndex((e) => score > e.score);
+  const index = rank === -1 ? entries.length : rank;
+  if (index >= LEADERBOARD_SIZE) return null;
+
+  const entry: LeaderboardEntry = {
+    initials: loadInitials() ?? DEFAULT_INITIALS,
+    score,
+    date: new Date().toISOString(),
+  };
+  entries.splice(index, 0, entry);
+  saveLeaderboard(id, variant, entries.slice(0, LEADERBOARD_SIZE));
+  return entry;
+}
+
+// Puts the player's initials on an entry from `addScore` and remembers them
+// for the next run.
+export function renameEntry(
+  id: GameId,
+  variant: string,
+  entry: LeaderboardEntry,
+  initials: string,
+) {
+  const entries = loadLeaderboard(id, variant);
+  const saved = entries.find((e) => e.date === entry.date);
+  if (!saved) return;
+  saved.initials = initials;
+  saveLeaderboard(id, variant, entries);
+  saveInitials(initials);
+}
+
+// 1-based position of an entry, or 0 once it has dropped off the table.
+export function rankOf(
+  id: GameId,
+  variant: string,
+  entry: LeaderboardEntry,
+): number {
+  return loadLeaderboard(id, variant).findIndex((e) => e.date === entry.date) + 1;
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "../../engine/rng";
+import { gridWorld } from "../headless";
+import {
+  applyGravity,
+  calcScore,
+  createBoard,
+  findMatches,
+  findValidMove,
+  matchSim,
+  PRESETS,
+} from "./sim";
+import type { MatchGroup } from "./sim";
+
+// Boards below are written row by row; -1 is an empty cell.
+function cells(group: MatchGroup): string[] {
+  return group.cells.map((c) => `${c.row},${c.col}`);
+}
+
+function group(length: number): MatchGroup {
+  return {
+    cells: Array.from({ length }, (_, col) => ({ row: 0, col })),
+  };
+}
+
+describe("findMatches", () => {
+  it("finds horizontal and vertical runs of three or more", () => {
+    const grid = [
+      [0, 0, 0, 1],
+      [1, 2, 3, 1],
+      [2, 3, 2, 1],
+      [3, 2, 3, 2],
+    ];
+    const matches = findMatches(grid);
+    expect(matches.map(cells)).toEqual([
+      ["0,0", "0,1", "0,2"],
+      ["0,3", "1,3", "2,3"],
+    ]);
+  });
+
+  it("keeps a run of five as one group", () => {
+    const grid = [
+      [4, 4, 4, 4, 4],
+      [0, 1, 2, 3, 0],
+      [1, 2, 3, 0, 1],
+      [2, 3, 0, 1, 2],
+      [3, 0, 1, 2, 3],
+    ];
+    const matches = findMatches(grid);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].cells).toHaveLength(5);
+  });
+
+  it("reports crossing runs separately", () => {
+    const grid = [
+      [1, 0, 2],
+      [0, 0, 0],
+      [2, 0, 1],
+    ];
+    expect(findMatches(grid).map(cells)).toEqual([
+      ["1,0", "1,1", "1,2"],
+      ["0,1", "1,1", "2,1"],
+    ]);
+  });
+
+  it("ignores pairs and empty cells", () => {
+    const grid = [
+      [-1, -1, -1],
+      [0, 0, 1],
+      [1, 1, 0],
+    ];
+    expect(findMatches(grid)).toEqual([]);
+  });
+
+  it("never finds matches on a fresh board", () => {
+    const rng = createRng(42);
+    for (let i = 0; i < 20; i++) {
+      expect(findMatches(createBoard(8, 6, rng))).toEqual([]);
+    }
+  });
+});
+
+describe("applyGravity", () => {
+  it("drops gems into the gaps below them", () => {
+    const grid = [
+      [0, 1, 2],
+      [-1, 3, -1],
+      [4, -1, -1],
+    ];
+    const { newGrid, fallData } = applyGravity(grid, 5, createRng(1));
+    // existing gems keep their order at the bottom of each column
+    expect(newGrid[2]).toEqual([4, 3, 2]);
+    expect(newGrid[1][0]).toBe(0);
+    expect(newGrid[1][1]).toBe(1);
+    expect(fallData).toContainEqual({ col: 0, toRow: 1, fromRow: 0, gemType: 0 });
+    expect(fallData).toContainEqual({ col: 2, toRow: 2, fromRow: 0, gemType: 2 });
+  });
+
+  it("fills every empty cell with a new gem from above", () => {
+    const grid = [
+      [-1, 1, -1],
+      [-1, 2, -1],
+      [-1, 3, 0],
+    ];
+    const { newGrid, fallData } = applyGravity(grid, 5, createRng(1));
+    for (const row of newGrid) {
+      for (const gem of row) {
+        expect(gem).toBeGreaterThanOrEqual(0);
+        expect(gem).toBeLessThan(5);
+      }
+    }
+    const spawned = fallData.filter((f) => f.fromRow < 0);
+    expect(spawned).toHaveLength(5);
+    // the lowest new gem in a column starts just above the board
+    expect(spawned.find((f) => f.col === 0 && f.toRow === 2)?.fromRow).toBe(-1);
+    expect(spawned.find((f) => f.col === 0 && f.toRow === 0)?.fromRow).toBe(-3);
+  });
+
+  it("leaves a full column alone", () => {
+    const grid = [
+      [0, 1],
+      [2, 3],
+    ];
+    const { newGrid, fallData } = applyGravity(grid, 5, createRng(1));
+    expect(newGrid).toEqual(grid);
+    expect(fallData).toEqual([]);
+  });
+});
+
+describe("findValidMove", () => {
+  it("finds a swap that makes a match", () => {
+    const grid = [
+      [0, 0, 1],
+      [1, 2, 0],
+      [2, 1, 2],
+    ];
+    const move = findValidMove(grid);
+    expect(move).toEqual([
+      { row: 0, col: 2 },
+      { row: 1, col: 2 },
+    ]);
+  });
+
+  it("returns null when no swap matches", () => {
+    const grid = [
+      [0, 1, 2],
+      [3, 0, 1],
+      [2, 3, 0],
+    ];
+    expect(findValidMove(grid)).toBeNull();
+  });
+
+  it("leaves the board as it found it", () => {
+    const grid = [
+      [0, 0, 1],
+      [1, 2, 0],
+      [2, 1, 2],
+    ];
+    const before = grid.map((row) => [...row]);
+    findValidMove(grid);
+    expect(grid).toEqual(before);
+  });
+});
+
+describe("calcScore", () => {
+  it("scores 50, 150 and 300 for matches of three, four and five", () => {
+    expect(calcScore([group(3)], 1)).toBe(50);
+    expect(calcScore([group(4)], 1)).toBe(150);
+    expect(calcScore([group(5)], 1)).toBe(300);
+  });
+
+  it("adds up simultaneous matches and multiplies by the cascade", () => {
+    expect(calcScore([group(3), group(4)], 1)).toBe(200);
+    expect(calcScore([group(3), group(4)], 3)).toBe(600);
+  });
+});
+
+describe("swaps", () => {
+  it("ignores a swap with either cell off the board", () => {
+    const state = matchSim.create(PRESETS.easy, 1, gridWorld(7));
+    matchSim.input(state, {
+      from: { row: -1, col: 0 },
+      to: { row: 0, col: 0 },
+    });
+    matchSim.input(state, { from: { row: 0, col: 6 }, to: { row: 0, col: 7 } });
+    expect(state.animState).toBe("idle");
+    matchSim.input(state, { from: { row: 0, col: 0 }, to: { row: 0, col: 1 } });
+    expect(state.animState).toBe("swapping");
+  });
+});
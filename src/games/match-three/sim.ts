@@ -0,0 +1,445 @@
+import { createRng } from "../../engine/rng";
+import type { Rng } from "../../engine/rng";
+import type { SimState, Simulation } from "../../engine/sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface GameSettings {
+  timeLimit: number; // seconds
+  gridSize: number; // cells per row/col
+  gemTypes: number; // number of distinct gem colors
+}
+
+export interface CellPos {
+  row: number;
+  col: number;
+}
+
+export interface FallInfo {
+  col: number;
+  toRow: number;
+  fromRow: number; // negative values = new gem entering from above
+  gemType: number;
+}
+
+export interface ScoreFloater {
+  x: number; // grid col
+  y: number; // grid row
+  text: string;
+  start: number;
+}
+
+export type Difficulty = "easy" | "medium" | "hard";
+export type AnimState =
+  | "idle"
+  | "swapping"
+  | "swapping-back"
+  | "clearing"
+  | "falling";
+
+// A swap between two neighbouring cells. Selection is page UI; only the
+// swap itself reaches the simulation.
+export interface MatchInput {
+  from: CellPos;
+  to: CellPos;
+}
+
+export interface MatchState extends SimState {
+  settings: GameSettings;
+  rng: Rng;
+  grid: number[][];
+  score: number;
+  timeRemaining: number; // seconds
+  cascadeLevel: number;
+  animState: AnimState;
+  animStart: number;
+  swapFrom: CellPos;
+  swapTo: CellPos;
+  matchedCells: Set<string>;
+  fallData: FallInfo[];
+  clock: number; // ms of game time, drives timer and animations
+  floaters: ScoreFloater[];
+}
+
+// ── Constants ─────────────────────────────────────────────
+export const PRESETS: Record<Difficulty, GameSettings> = {
+  easy: { timeLimit: 180, gridSize: 7, gemTypes: 5 },
+  medium: { timeLimit: 120, gridSize: 8, gemTypes: 6 },
+  hard: { timeLimit: 90, gridSize: 9, gemTypes: 7 },
+};
+
+export const SWAP_MS = 200;
+export const CLEAR_MS = 250;
+export const FALL_MS = 300;
+export const FLOATER_MS = 900;
+export const STEP = 1 / 60; // seconds per update step
+
+// ── Board algorithms ──────────────────────────────────────
+export function createBoard(size: number, types: number, rng: Rng): number[][] {
+  const g: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    g[r] = [];
+    for (let c = 0; c < size; c++) {
+      let gem: number;
+      do {
+        gem = rng.int(types);
+      } while (
+        (c >= 2 && g[r][c - 1] === gem && g[r][c - 2] === gem) ||
+        (r >= 2 && g[r - 1][c] === gem && g[r - 2][c] === gem)
+      );
+      g[r][c] = gem;
+    }
+  }
+  return g;
+}
+
+export interface MatchGroup {
+  cells: CellPos[];
+}
+
+export function findMatches(grid: number[][]): MatchGroup[] {
+  const n = grid.length;
+  const matches: MatchGroup[] = [];
+
+  // horizontal
+  for (let r = 0; r < n; r++) {
+    let c = 0;
+    while (c < n) {
+      const t = grid[r][c];
+      if (t < 0) {
+        c++;
+        continue;
+      }
+      let end = c + 1;
+      while (end < n && grid[r][end] === t) end++;
+      if (end - c >= 3) {
+        const cells: CellPos[] = [];
+        for (let i = c; i < end; i++) cells.push({ row: r, col: i });
+        matches.push({ cells });
+      }
+      c = end;
+    }
+  }
+
+  // vertical
+  for (let c = 0; c < n; c++) {
+    let r = 0;
+    while (r < n) {
+      const t = grid[r][c];
+      if (t < 0) {
+        r++;
+        continue;
+      }
+      let end = r + 1;
+      while (end < n && grid[end][c] === t) end++;
+      if (end - r >= 3) {
+        const cells: CellPos[] = [];
+        for (let i = r; i < end; i++) cells.push({ row: i, col: c });
+        matches.push({ cells });
+      }
+      r = end;
+    }
+  }
+
+  return matches;
+}
+
+export function getMatchedSet(matches: MatchGroup[]): Set<string> {
+  const s = new Set<string>();
+  for (const m of matches) for (const c of m.cells) s.add(`${c.row},${c.col}`);
+  return s;
+}
+
+export function applyGravity(
+  grid: number[][],
+  types: number,
+  rng: Rng,
+): { newGrid: number[][]; fallData: FallInfo[] } {
+  const n = grid.length;
+  const newGrid: number[][] = Array.from({ length: n }, () =>
+    Array(n).fill(-1),
+  );
+  const fallData: FallInfo[] = [];
+
+  for (let c = 0; c < n; c++) {
+    const existing: { row: number; type: number }[] = [];
+    for (let r = n - 1; r >= 0; r--) {
+      if (grid[r][c] >= 0) existing.push({ row: r, type: grid[r][c] });
+    }
+
+    let write = n - 1;
+    for (const { row: fromRow, type } of existing) {
+      newGrid[write][c] = type;
+      if (fromRow !== write) {
+        fallData.push({ col: c, toRow: write, fromRow, gemType: type });
+      }
+      write--;
+    }
+
+    const numNew = write + 1;
+    for (let i = write; i >= 0; i--) {
+      const type = rng.int(types);
+      newGrid[i][c] = type;
+      fallData.push({ col: c, toRow: i, fromRow: i - numNew, gemType: type });
+    }
+  }
+
+  return { newGrid, fallData };
+}
+
+function wouldMatch(
+  grid: number[][],
+  r1: number,
+  c1: number,
+  r2: number,
+  c2: number,
+): boolean {
+  const n = grid.length;
+  const t1 = grid[r1][c1];
+  const t2 = grid[r2][c2];
+  if (t1 === t2) return false;
+
+  // temporarily swap
+  grid[r1][c1] = t2;
+  grid[r2][c2] = t1;
+
+  let found = false;
+
+  // check around (r1,c1) which now holds t2
+  let left = c1,
+    right = c1;
+  while (left > 0 && grid[r1][left - 1] === t2) left--;
+  while (right < n - 1 && grid[r1][right + 1] === t2) right++;
+  if (right - left + 1 >= 3) found = true;
+
+  if (!found) {
+    let top = r1,
+      bot = r1;
+    while (top > 0 && grid[top - 1][c1] === t2) top--;
+    while (bot < n - 1 && grid[bot + 1][c1] === t2) bot++;
+    if (bot - top + 1 >= 3) found = true;
+  }
+
+  // check around (r2,c2) which now holds t1
+  if (!found) {
+    let left2 = c2,
+      right2 = c2;
+    while (left2 > 0 && grid[r2][left2 - 1] === t1) left2--;
+    while (right2 < n - 1 && grid[r2][right2 + 1] === t1) right2++;
+    if (right2 - left2 + 1 >= 3) found = true;
+  }
+
+  if (!found) {
+    let top2 = r2,
+      bot2 = r2;
+    while (top2 > 0 && grid[top2 - 1][c2] === t1) top2--;
+    while (bot2 < n - 1 && grid[bot2 + 1][c2] === t1) bot2++;
+    if (bot2 - top2 + 1 >= 3) found = true;
+  }
+
+  // swap back
+  grid[r1][c1] = t1;
+  grid[r2][c2] = t2;
+  return found;
+}
+
+export function findValidMove(grid: number[][]): CellPos[] | null {
+  const n = grid.length;
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) {
+      if (c < n - 1 && wouldMatch(grid, r, c, r, c + 1))
+        return [
+          { row: r, col: c },
+          { row: r, col: c + 1 },
+        ];
+      if (r < n - 1 && wouldMatch(grid, r, c, r + 1, c))
+        return [
+          { row: r, col: c },
+          { row: r + 1, col: c },
+        ];
+    }
+  }
+  return null;
+}
+
+export function shuffleBoard(grid: number[][], types: number, rng: Rng): number[][] {
+  const n = grid.length;
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const flat = grid.flat();
+    for (let i = flat.length - 1; i > 0; i--) {
+      const j = rng.int(i + 1);
+      [flat[i], flat[j]] = [flat[j], flat[i]];
+    }
+    const ng: number[][] = [];
+    for (let r = 0; r < n; r++) ng[r] = flat.slice(r * n, (r + 1) * n);
+    if (findMatches(ng).length === 0 && findValidMove(ng) !== null) return ng;
+  }
+  return createBoard(n, types, rng);
+}
+
+export function calcScore(matches: MatchGroup[], cascade: number): number {
+  let total = 0;
+  for (const m of matches) {
+    const len = m.cells.length;
+    if (len <= 3) total += 50;
+    else if (len === 4) total += 150;
+    else total += 300;
+  }
+  return total * cascade;
+}
+
+
+// One floater at the average position of all matched cells.
+function addFloaters(state: MatchState, matches: MatchGroup[], pts: number) {
+  let sumR = 0,
+    sumC = 0,
+    count = 0;
+  for (const m of matches)
+    for (const c of m.cells) {
+      sumR += c.row;
+      sumC += c.col;
+      count++;
+    }
+  if (count > 0) {
+    state.floaters.push({
+      x: sumC / count,
+      y: sumR / count,
+      text: `+${pts}`,
+      start: state.clock,
+    });
+  }
+}
+
+function startClearing(state: MatchState, matches: MatchGroup[]) {
+  state.matchedCells = getMatchedSet(matches);
+  const pts = calcScore(matches, state.cascadeLevel);
+  state.score += pts;
+  addFloaters(state, matches, pts);
+  state.animState = "clearing";
+  state.animStart = state.clock;
+}
+
+// ── Simulation ─────────────────────────────────────────────
+function create(settings: GameSettings, seed: number): MatchState {
+  const rng = createRng(seed);
+  let grid = createBoard(settings.gridSize, settings.gemTypes, rng);
+  if (!findValidMove(grid)) grid = shuffleBoard(grid, settings.gemTypes, rng);
+  return {
+    tick: 0,
+    over: false,
+    settings,
+    rng,
+    grid,
+    score: 0,
+    timeRemaining: settings.timeLimit,
+    cascadeLevel: 0,
+    animState: "idle",
+    animStart: 0,
+    swapFrom: { row: 0, col: 0 },
+    swapTo: { row: 0, col: 0 },
+    matchedCells: new Set(),
+    fallData: [],
+    clock: 0,
+    floaters: [],
+  };
+}
+
+// Swaps are only taken while the board is settled, and only between
+// neighbouring cells.
+function input(state: MatchState, { from, to }: MatchInput) {
+  if (state.animState !== "idle") return;
+  const n = state.settings.gridSize;
+  const inside = (c: CellPos) =>
+    c.row >= 0 && c.row < n && c.col >= 0 && c.col < n;
+  if (!inside(from) || !inside(to)) return;
+  if (Math.abs(from.row - to.row) + Math.abs(from.col - to.col) !== 1) return;
+  state.swapFrom = { ...from };
+  state.swapTo = { ...to };
+  state.animState = "swapping";
+  state.animStart = state.clock;
+}
+
+function update(state: MatchState) {
+  state.tick++;
+  state.clock += STEP * 1000;
+  const now = state.clock;
+
+  // ── Timer ──
+  state.timeRemaining -= STEP;
+  if (state.timeRemaining <= 0) {
+    state.timeRemaining = 0;
+    state.over = true;
+  }
+
+  state.floaters = state.floaters.filter((f) => now - f.start <= FLOATER_MS);
+
+  // ── Animation transitions ──
+  if (state.animState === "swapping" && now - state.animStart >= SWAP_MS) {
+    const { grid, swapFrom: sf, swapTo: st } = state;
+    [grid[sf.row][sf.col], grid[st.row][st.col]] = [
+      grid[st.row][st.col],
+      grid[sf.row][sf.col],
+    ];
+    const matches = findMatches(grid);
+    if (matches.length > 0) {
+      state.cascadeLevel = 1;
+      startClearing(state, matches);
+    } else {
+      [grid[sf.row][sf.col], grid[st.row][st.col]] = [
+        grid[st.row][st.col],
+        grid[sf.row][sf.col],
+      ];
+      state.animState = "swapping-back";
+      state.animStart = now;
+    }
+  }
+
+  if (
+    state.animState === "swapping-back" &&
+    now - state.animStart >= SWAP_MS
+  ) {
+    state.animState = "idle";
+  }
+
+  if (state.animState === "clearing" && now - state.animStart >= CLEAR_MS) {
+    for (const key of state.matchedCells) {
+      const [r, c] = key.split(",").map(Number);
+      state.grid[r][c] = -1;
+    }
+    const { newGrid, fallData } = applyGravity(
+      state.grid,
+      state.settings.gemTypes,
+      state.rng,
+    );
+    state.grid = newGrid;
+    state.fallData = fallData;
+    state.matchedCells = new Set();
+    state.animState = "falling";
+    state.animStart = now;
+  }
+
+  if (state.animState === "falling" && now - state.animStart >= FALL_MS) {
+    const matches = findMatches(state.grid);
+    if (matches.length > 0) {
+      state.cascadeLevel++;
+      startClearing(state, matches);
+    } else {
+      state.cascadeLevel = 0;
+      if (!findValidMove(state.grid)) {
+        state.grid = shuffleBoard(
+          state.grid,
+          state.settings.gemTypes,
+          state.rng,
+        );
+      }
+      state.animState = "idle";
+    }
+  }
+}
+
+export const matchSim: Simulation<MatchState, MatchInput, GameSettings> = {
+  step: () => STEP,
+  create,
+  input,
+  update,
+  score: (state) => state.score,
+};
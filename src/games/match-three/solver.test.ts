@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { gridWorld, simulate } from "../headless";
+import type { Policy } from "../headless";
+import { PRESETS, findValidMove, matchSim } from "./sim";
+import type { MatchInput, MatchState } from "./sim";
+import { bestMove, legalMoves, playOut, solverPolicy } from "./solver";
+
+// Boards below are written row by row; numbers of 20 and up are filler
+// gems that never match anything.
+describe("match three solver", () => {
+  it("prefers a line of four over the first match it finds", () => {
+    const grid = [
+      [1, 2, 1, 20, 21],
+      [22, 1, 23, 24, 25],
+      [26, 27, 28, 29, 30],
+      [3, 3, 4, 3, 31],
+      [32, 33, 3, 34, 35],
+    ];
+    expect(findValidMove(grid)).toEqual([
+      { row: 0, col: 1 },
+      { row: 1, col: 1 },
+    ]);
+    expect(legalMoves(grid)).toHaveLength(3);
+
+    const best = bestMove(grid)!;
+    expect(best.move).toEqual({
+      from: { row: 3, col: 2 },
+      to: { row: 4, col: 2 },
+    });
+    expect(best).toMatchObject({ score: 150, cleared: 4, longMatches: 1 });
+  });
+
+  it("follows cascades and leaves the refill unknown", () => {
+    const grid = [
+      [20, 21, 22, 23, 24],
+      [25, 26, 27, 28, 29],
+      [60, 7, 7, 30, 31],
+      [1, 1, 9, 7, 61],
+      [62, 63, 1, 64, 65],
+    ];
+    const move = { from: { row: 3, col: 2 }, to: { row: 4, col: 2 } };
+    const { grid: after, outcome } = playOut(grid, move);
+    expect(outcome).toEqual({
+      score: 50 + 50 * 2,
+      cleared: 6,
+      longMatches: 0,
+      cascades: 2,
+    });
+    expect(after[0]).toEqual([-1, -1, -1, -1, 24]);
+    expect(after[3]).toEqual([60, 26, 27, 30, 61]);
+    expect(grid[3]).toEqual([1, 1, 9, 7, 61]);
+  });
+
+  it("outscores taking the first valid move", () => {
+    const firstMove: Policy<MatchState, MatchInput> = (state) => {
+      if (state.animState !== "idle" || state.over) return;
+      const move = findValidMove(state.grid);
+      return move ? { from: move[0], to: move[1] } : undefined;
+    };
+    const play = (policy: Policy<MatchState, MatchInput>) =>
+      simulate(matchSim, "match-three", PRESETS.medium, {
+        seed: 5,
+        world: gridWorld(PRESETS.medium.gridSize),
+        policy,
+      }).state.score;
+    expect(play(solverPolicy(2))).toBeGreaterThan(play(firstMove) * 1.5);
+  });
+});
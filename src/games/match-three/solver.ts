@@ -0,0 +1,144 @@
+import type { Policy } from "../headless";
+import { calcScore, findMatches } from "./sim";
+import type { MatchInput, MatchState } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+// What one swap earns once every cascade it sets off has settled.
+export interface Outcome {
+  score: number;
+  cleared: number; // gems removed
+  longMatches: number; // lines of four or more
+  cascades: number; // waves of clearing, 1 when nothing chains
+}
+
+export interface Evaluation extends Outcome {
+  move: MatchInput;
+  value: number; // score plus the best follow-up within the lookahead
+}
+
+export const MAX_DEPTH = 3;
+
+// Gems that drop in from above are random, so the solver can't know them:
+// they are UNKNOWN and never match. CLEARED marks cells about to empty.
+const UNKNOWN = -1;
+const CLEARED = -2;
+
+// ── Moves ─────────────────────────────────────────────────
+function swapCells(grid: number[][], { from, to }: MatchInput) {
+  [grid[from.row][from.col], grid[to.row][to.col]] = [
+    grid[to.row][to.col],
+    grid[from.row][from.col],
+  ];
+}
+
+// Every swap of two known, different neighbours that makes a match, in
+// reading order.
+export function legalMoves(grid: number[][]): MatchInput[] {
+  const n = grid.length;
+  const moves: MatchInput[] = [];
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) {
+      for (const to of [
+        { row: r, col: c + 1 },
+        { row: r + 1, col: c },
+      ]) {
+        if (to.row >= n || to.col >= n) continue;
+        const a = grid[r][c];
+        const b = grid[to.row][to.col];
+        if (a < 0 || b < 0 || a === b) continue;
+        const move = { from: { row: r, col: c }, to };
+        swapCells(grid, move);
+        if (findMatches(grid).length > 0) moves.push(move);
+        swapCells(grid, move);
+      }
+    }
+  }
+  return moves;
+}
+
+// Cleared cells empty out; everything above them, known or not, falls into
+// place and unknown gems fill the top.
+function collapse(grid: number[][]) {
+  const n = grid.length;
+  for (let c = 0; c < n; c++) {
+    let write = n - 1;
+    for (let r = n - 1; r >= 0; r--) {
+      if (grid[r][c] !== CLEARED) grid[write--][c] = grid[r][c];
+    }
+    while (write >= 0) grid[write--][c] = UNKNOWN;
+  }
+}
+
+// Plays a swap and its cascades out the way the game scores them, on a copy
+// of the board. Returns the board as far as it can be known afterwards.
+export function playOut(
+  grid: number[][],
+  move: MatchInput,
+): { grid: number[][]; outcome: Outcome } {
+  const board = grid.map((row) => [...row]);
+  const outcome: Outcome = {
+    score: 0,
+    cleared: 0,
+    longMatches: 0,
+    cascades: 0,
+  };
+  swapCells(board, move);
+  for (;;) {
+    const matches = findMatches(board);
+    if (matches.length === 0) break;
+    outcome.cascades++;
+    outcome.score += calcScore(matches, outcome.cascades);
+    for (const { cells } of matches) {
+      if (cells.length >= 4) outcome.longMatches++;
+      for (const { row, col } of cells) {
+        if (board[row][col] !== CLEARED) outcome.cleared++;
+        board[row][col] = CLEARED;
+      }
+    }
+    collapse(board);
+  }
+  return { grid: board, outcome };
+}
+
+// ── Search ────────────────────────────────────────────────
+// The most points reachable in `depth` more moves on what is known.
+function bestValue(grid: number[][], depth: number): number {
+  if (depth <= 0) return 0;
+  let best = 0;
+  for (const move of legalMoves(grid)) {
+    const { grid: next, outcome } = playOut(grid, move);
+    best = Math.max(best, outcome.score + bestValue(next, depth - 1));
+  }
+  return best;
+}
+
+// Every legal swap, best first. With a lookahead of more than one, a swap
+// is also worth the best moves it leaves behind on the known part of the
+// board; ties go to more long matches, then more gems cleared.
+export function rankMoves(grid: number[][], depth = 1): Evaluation[] {
+  const lookahead = Math.min(Math.max(1, depth), MAX_DEPTH);
+  return legalMoves(grid)
+    .map((move) => {
+      const { grid: next, outcome } = playOut(grid, move);
+      const value = outcome.score + bestValue(next, lookahead - 1);
+      return { move, value, ...outcome };
+    })
+    .sort(
+      (a, b) =>
+        b.value - a.value ||
+        b.longMatches - a.longMatches ||
+        b.cleared - a.cleared,
+    );
+}
+
+export function bestMove(grid: number[][], depth = 1): Evaluation | null {
+  return rankMoves(grid, depth)[0] ?? null;
+}
+
+// Plays the best swap as soon as the board settles.
+export function solverPolicy(depth = 1): Policy<MatchState, MatchInput> {
+  return (state) => {
+    if (state.animState !== "idle" || state.over) return;
+    return bestMove(state.grid, depth)?.move;
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WORLD, simulate } from "../headless";
+import { botPolicy, createBot } from "./bot";
+import { BEAM_CLEARANCE, PLAYER_H, PRESETS, runnerSim } from "./sim";
+import type { RunnerInput, RunnerState } from "./sim";
+
+// A run on the given platforms only, starting on the first of them.
+function setup(platforms: RunnerState["platforms"]): RunnerState {
+  const state = runnerSim.create(PRESETS.medium, 1, DEFAULT_WORLD);
+  state.platforms = platforms;
+  state.obstacles = [];
+  state.coins = [];
+  state.player.y = platforms[0].y - PLAYER_H;
+  return state;
+}
+
+// Lets the bot play for `ticks` steps and returns the inputs it sent.
+function play(state: RunnerState, ticks: number): RunnerInput[] {
+  const bot = createBot();
+  const inputs: RunnerInput[] = [];
+  for (let i = 0; i < ticks && !state.over; i++) {
+    const { input } = bot.plan(state);
+    if (input) {
+      inputs.push(input);
+      runnerSim.input(state, input);
+    }
+    runnerSim.update(state);
+  }
+  return inputs;
+}
+
+describe("pixel runner bot", () => {
+  it("jumps a gap it can't run across", () => {
+    const state = setup([
+      { x: 0, y: 450, w: 300 },
+      { x: 420, y: 450, w: 3000 },
+    ]);
+    const inputs = play(state, 240);
+    expect(state.over).toBe(false);
+    expect(inputs).toContain("jump");
+    expect(state.player.onGround).toBe(true);
+  });
+
+  it("holds the jump to climb onto a high platform", () => {
+    const state = setup([
+      { x: 0, y: 450, w: 300 },
+      { x: 330, y: 345, w: 3000 },
+    ]);
+    const inputs = play(state, 240);
+    expect(state.over).toBe(false);
+    expect(inputs[0]).toBe("jump");
+    expect(state.player.y).toBe(345 - PLAYER_H);
+  });
+
+  it("double jumps a gap one jump can't clear", () => {
+    const state = setup([
+      { x: 0, y: 450, w: 300 },
+      { x: 580, y: 450, w: 3000 },
+    ]);
+    const inputs = play(state, 300);
+    expect(state.over).toBe(false);
+    expect(inputs.filter((i) => i === "jump").length).toBeGreaterThanOrEqual(2);
+  });
+
+  it("jumps for a coin it would otherwise run under", () => {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    state.coins = [{ x: 400, y: 450 - 90, collected: false }];
+    play(state, 240);
+    expect(state.over).toBe(false);
+    expect(state.coinCount).toBe(1);
+  });
+
+  it("slides under a beam it can't jump over", () => {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    state.obstacles = [
+      {
+        x: 400,
+        y: -100,
+        w: 60,
+        h: 450 - BEAM_CLEARANCE + 100,
+        kind: "beam",
+        baseY: 0,
+        phase: 0,
+        lane: 0,
+      },
+    ];
+    const inputs = play(state, 240);
+    expect(state.over).toBe(false);
+    expect(inputs).toContain("slide");
+    expect(inputs).not.toContain("jump");
+  });
+
+  it("keeps running through a generated medium level", () => {
+    const run = simulate(runnerSim, "pixel-runner", PRESETS.medium, {
+      seed: 1,
+      world: DEFAULT_WORLD,
+      policy: botPolicy(),
+      maxTicks: 120 * 60,
+    });
+    expect(run.state.over).toBe(false);
+    expect(run.state.coinCount).toBeGreaterThan(10);
+  });
+
+  for (const difficulty of ["easy", "medium", "hard"] as const) {
+    it(`keeps running through generated ${difficulty} levels`, () => {
+      for (let seed = 0; seed < 20; seed++) {
+        const run = simulate(runnerSim, "pixel-runner", PRESETS[difficulty], {
+          seed,
+          world: DEFAULT_WORLD,
+          policy: botPolicy(),
+          maxTicks: 120 * 60,
+        });
+        expect(run.state.over, `seed ${seed}`).toBe(false);
+      }
+    }, 120_000);
+  }
+});
@@ -0,0 +1,476 @@
+import type { Policy } from "../headless";
+import {
+  COIN_R,
+  FLYER_SWAY,
+  GRAVITY,
+  JUMP_HOLD_BOOST,
+  JUMP_HOLD_MAX,
+  JUMP_VELOCITY,
+  PLATFORM_H,
+  PLAYER_H,
+  PROJECTILE_SPEED,
+  SLIDE_H,
+  SLOW_MO_SCALE,
+  STEP,
+} from "./sim";
+import type { Coin, Obstacle, Platform, RunnerInput, RunnerState } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Plan {
+  input: RunnerInput | null; // what to send before the next update
+  path: Point[]; // where the runner's centre is headed, in world coordinates
+  safe: boolean; // false when every move it tried ends the run
+}
+
+export interface RunnerBot {
+  plan: (state: RunnerState) => Plan;
+}
+
+// How far ahead the bot looks, and how often it decides. Everything within
+// the horizon has long been generated, so it only ever reads terrain that
+// is already on its way. The horizon is game time, so slow motion makes
+// the bot look more steps ahead rather than less of the level. A line that
+// is still in the air at the horizon is followed on until it lands.
+const HORIZON = 1.5; // s
+const SETTLE = 0.75; // s past the horizon a line is followed to its landing
+const DECIDE = 4; // steps between decisions
+
+// What the bot can do at a decision: wait, slide until the next one, or
+// jump and let go of the button after this many steps. Holding for
+// JUMP_HOLD_MAX gets the whole boost, so the longest hold never needs a
+// release.
+const WAIT = 0;
+const SLIDE = -1;
+const FULL_HOLD = Math.ceil(JUMP_HOLD_MAX / STEP);
+const HOLDS = [FULL_HOLD, Math.round(FULL_HOLD / 2), 1];
+
+// The bot plays a little safer than the rules demand, so a rounding error
+// never costs a run: it won't count on landing near a platform's very edge
+// and gives obstacles an extra pixel or two. Running off the end is another
+// matter – the runner stays up exactly as long as the rules hold it, and
+// thinking it falls sooner could have the bot jump too early.
+const EDGE = 8; // the sim lets the runner land 4px from an edge
+const HOLD_EDGE = 4; // and holds it up until 4px from the end
+const SHRINK = 1; // the sim forgives 3px of obstacle overlap
+const REACH = COIN_R + 14; // px from the runner's centre a coin is picked up
+
+// ── Prediction ────────────────────────────────────────────
+// The runner as the bot imagines it, one possible future at a time.
+interface Body {
+  y: number;
+  h: number;
+  vy: number;
+  onGround: boolean;
+  jumpsLeft: number;
+  jumpHeld: boolean;
+  jumpHoldTime: number;
+  slideHeld: boolean;
+  sliding: boolean;
+  release: number; // steps until the button is let go, -1 once it is
+  coins: number; // bit mask of the course's coins picked up
+}
+
+// The level as it stands now and how far it will have scrolled after each
+// step – both only depend on time, not on what the runner does.
+interface Course {
+  x: number;
+  w: number;
+  platforms: Platform[];
+  obstacles: Obstacle[];
+  obstacleX: number[][]; // each obstacle's x by step, NaN once it is gone
+  horizon: number; // steps the bot decides in; the rest only see it land
+  low: boolean; // anything to slide under
+  coins: Coin[];
+  // Indexed by step. Slow motion and triple jump run out on their own
+  // schedule, so each step gets its own length and jump count.
+  dt: number[]; // s of game time the step covers
+  time: number[]; // s of game time by the end of the step
+  scrolled: number[]; // px by the end of the step
+  maxJumps: number[]; // what landing during the step gives back
+  floor: number[]; // by step: feet below this can't land anywhere
+  bottom: number; // falling past this ends the run
+}
+
+function readCourse(state: RunnerState): Course {
+  const { player, settings, world, powers } = state;
+  const normalJumps = settings.doubleJump ? 2 : 1;
+  const dt = [0];
+  const time = [0];
+  const scrolled = [0];
+  const maxJumps = [0];
+  let speed = state.scrollSpeed;
+  const stepTo = (until: number) => {
+    for (let k = dt.length; time[k - 1] < until - STEP / 2; k++) {
+      const step = k <= powers.slowMo ? STEP * SLOW_MO_SCALE : STEP;
+      dt.push(step);
+      time.push(time[k - 1] + step);
+      scrolled.push(scrolled[k - 1] + speed * step);
+      speed += settings.acceleration * step;
+    }
+  };
+  stepTo(HORIZON);
+  const horizon = dt.length;
+  stepTo(HORIZON + SETTLE);
+  for (let k = 1; k <= dt.length; k++) {
+    maxJumps.push(k <= powers.tripleJump ? 3 : normalJumps);
+  }
+  const ahead = state.platforms.filter((p) => p.x + p.w > player.x);
+  // the lowest platform the runner could still land on after each step,
+  // and no floor at all past the end of the level generated so far
+  const floor = scrolled.map((off) => {
+    const left = ahead.filter((p) => p.x + p.w - EDGE - off > player.x);
+    if (left.length === 0) return Infinity;
+    return Math.max(...left.map((p) => p.y)) + PLATFORM_H + 4;
+  });
+  // only what passes the runner before the last landing is seen
+  const far = scrolled[scrolled.length - 1];
+  const obstacles: Obstacle[] = [];
+  const obstacleX: number[][] = [];
+  for (const obs of state.obstacles) {
+    const xs = track(state, obs, dt, scrolled);
+    if (xs.some((x) => x < player.x + player.w && x + obs.w > player.x)) {
+      obstacles.push(obs);
+      obstacleX.push(xs);
+    }
+  }
+  return {
+    x: player.x,
+    w: player.w,
+    platforms: ahead.filter((p) => p.x - far < player.x + player.w),
+    obstacles,
+    obstacleX,
+    horizon,
+    low: obstacles.some((o) => o.kind === "beam" || o.kind === "projectile"),
+    coins: state.coins
+      .filter(
+        (c) =>
+          !c.collected &&
+          c.x + REACH > player.x &&
+          c.x - far < player.x + player.w + REACH,
+      )
+      .slice(0, 30),
+    dt,
+    time,
+    scrolled,
+    maxJumps,
+    floor,
+    bottom: world.height + 50,
+  };
+}
+
+// Where an obstacle will be after each step. Most just scroll by; a
+// projectile flies at the runner once on screen and drops away off the end
+// of its platform.
+function track(
+  state: RunnerState,
+  obs: Obstacle,
+  dt: number[],
+  scrolled: number[],
+): number[] {
+  const xs = [obs.x];
+  let x = obs.x;
+  let lane = obs.lane;
+  let gone = false;
+  for (let k = 1; k < dt.length; k++) {
+    const scroll = scrolled[k] - scrolled[k - 1];
+    x -= scroll;
+    lane -= scroll;
+    if (obs.kind === "projectile" && x < state.world.width) {
+      x -= PROJECTILE_SPEED * dt[k];
+    }
+    xs.push(gone ? NaN : x);
+    if (obs.kind === "projectile" && x + obs.w < lane) gone = true;
+  }
+  return xs;
+}
+
+// `release` is how many steps remain before a pending release is sent.
+function readBody(state: RunnerState, release: number): Body {
+  const { player } = state;
+  return {
+    y: player.y,
+    h: player.h,
+    vy: player.vy,
+    onGround: player.onGround,
+    jumpsLeft: player.jumpsLeft,
+    jumpHeld: player.jumpHeld,
+    jumpHoldTime: player.jumpHoldTime,
+    slideHeld: player.slideHeld,
+    sliding: player.sliding,
+    release,
+    coins: 0,
+  };
+}
+
+// Field by field: the search copies a body for every move it tries, and
+// this is a good deal quicker than spreading one.
+function copy(body: Body): Body {
+  return {
+    y: body.y,
+    h: body.h,
+    vy: body.vy,
+    onGround: body.onGround,
+    jumpsLeft: body.jumpsLeft,
+    jumpHeld: body.jumpHeld,
+    jumpHoldTime: body.jumpHoldTime,
+    slideHeld: body.slideHeld,
+    sliding: body.sliding,
+    release: body.release,
+    coins: body.coins,
+  };
+}
+
+function press(body: Body, hold: number) {
+  if (body.jumpsLeft <= 0) return;
+  body.vy = JUMP_VELOCITY;
+  body.jumpsLeft--;
+  body.jumpHeld = true;
+  body.jumpHoldTime = 0;
+  body.slideHeld = false;
+  body.release = hold < FULL_HOLD ? hold : -1;
+}
+
+// One physics step of the runner, mirroring the sim's update. Returns false
+// if the runner dies – or can no longer avoid dying.
+function advance(course: Course, body: Body, k: number): boolean {
+  if (body.release === 0) {
+    body.jumpHeld = false;
+    body.jumpHoldTime = 0;
+  }
+  if (body.release >= 0) body.release--;
+
+  const dt = course.dt[k];
+  if (body.jumpHeld) {
+    body.jumpHoldTime += dt;
+    if (body.jumpHoldTime < JUMP_HOLD_MAX) body.vy += JUMP_HOLD_BOOST * dt;
+    else body.jumpHeld = false;
+  }
+  body.vy += GRAVITY * dt;
+  body.y += body.vy * dt;
+  const edge = body.onGround ? HOLD_EDGE : EDGE;
+  body.onGround = false;
+
+  const { x, w } = course;
+  const off = course.scrolled[k];
+  for (const plat of course.platforms) {
+    const px = plat.x - off;
+    if (
+      body.vy >= 0 &&
+      x + w > px + edge &&
+      x < px + plat.w - edge &&
+      body.y + body.h >= plat.y &&
+      body.y + body.h <= plat.y + PLATFORM_H + body.vy * dt + 4
+    ) {
+      body.y = plat.y - body.h;
+      body.vy = 0;
+      body.onGround = true;
+      body.jumpsLeft = course.maxJumps[k];
+      body.jumpHeld = false;
+    }
+  }
+
+  const sliding = body.slideHeld && body.onGround;
+  if (sliding !== body.sliding) {
+    const h = sliding ? SLIDE_H : PLAYER_H;
+    body.y += body.h - h;
+    body.h = h;
+    body.sliding = sliding;
+  }
+
+  for (let i = 0; i < course.obstacles.length; i++) {
+    const obs = course.obstacles[i];
+    const ox = course.obstacleX[i][k];
+    const oy =
+      obs.kind === "flyer"
+        ? obs.baseY + Math.sin(obs.phase + course.time[k] * 3) * FLYER_SWAY
+        : obs.y;
+    if (
+      x + SHRINK < ox + obs.w - SHRINK &&
+      x + w - SHRINK > ox + SHRINK &&
+      body.y + SHRINK < oy + obs.h - SHRINK &&
+      body.y + body.h - SHRINK > oy + SHRINK
+    ) {
+      return false;
+    }
+  }
+
+  body.jumpsLeft = Math.min(body.jumpsLeft, course.maxJumps[k + 1]);
+
+  course.coins.forEach((coin, i) => {
+    const dx = coin.x - off - (x + w / 2);
+    const dy = coin.y - (body.y + body.h / 2);
+    if (Math.hypot(dx, dy) < REACH) body.coins |= 1 << i;
+  });
+
+  // Fallen past the top of every platform it could still land on: even if
+  // a jump is left, the bot won't count on rising back up through one.
+  if (body.vy > 0 && body.y + body.h > course.floor[k] + body.vy * dt)
+    return false;
+  return body.y <= course.bottom;
+}
+
+// Plays `choice` at step `k`, then the steps up to the next decision.
+function play(course: Course, body: Body, choice: number, k: number) {
+  const next = copy(body);
+  if (choice === WAIT) next.slideHeld = false;
+  else if (choice === SLIDE) next.slideHeld = true;
+  else press(next, choice);
+  for (let i = 1; i <= DECIDE; i++) {
+    if (!advance(course, next, k + i)) return null;
+  }
+  return next;
+}
+
+// ── Search ────────────────────────────────────────────────
+// Depth first, waiting before sliding and sliding before jumping, so the
+// first way through it finds jumps as late as it can – the most room to
+// clear a gap. Positions known
+// to be hopeless are remembered so they are only explored once.
+interface Search {
+  course: Course;
+  hopeless: Set<string>;
+}
+
+function positionKey(body: Body, k: number): string {
+  const hold = body.jumpHeld ? Math.round(body.jumpHoldTime / STEP) : -1;
+  const slide = `${+body.slideHeld}${+body.sliding}`;
+  return `${k}:${Math.round(body.y * 2)}:${Math.round(body.vy)}:${body.jumpsLeft}:${hold}:${body.release}:${slide}`;
+}
+
+// A slide starts on the ground, so it is only worth trying there or on the
+// way down, where a landing can go straight into one – and only with
+// something ahead to slide under.
+function choicesFor(course: Course, body: Body): number[] {
+  const slides = course.low && (body.onGround || body.vy > 0);
+  const choices = slides ? [WAIT, SLIDE] : [WAIT];
+  return body.jumpsLeft > 0 ? [...choices, ...HOLDS] : choices;
+}
+
+// Whether a runner still in the air at step `k` comes down on a platform,
+// waiting or with a full jump if it has one left.
+function settles(course: Course, body: Body, k: number): boolean {
+  if (body.onGround) return true;
+  const choices = body.jumpsLeft > 0 ? [WAIT, FULL_HOLD] : [WAIT];
+  return choices.some((choice) => {
+    const next = copy(body);
+    next.slideHeld = false;
+    if (choice !== WAIT) press(next, choice);
+    for (let i = k + 1; i < course.dt.length; i++) {
+      if (!advance(course, next, i)) return false;
+      if (next.onGround) return true;
+    }
+    return true;
+  });
+}
+
+function explore(search: Search, body: Body, k: number): number[] | null {
+  if (k + DECIDE >= search.course.horizon) {
+    return settles(search.course, body, k) ? [] : null;
+  }
+  const key = positionKey(body, k);
+  if (search.hopeless.has(key)) return null;
+  for (const choice of choicesFor(search.course, body)) {
+    const next = play(search.course, body, choice, k);
+    if (!next) continue;
+    const rest = explore(search, next, k + DECIDE);
+    if (rest) return [choice, ...rest];
+  }
+  search.hopeless.add(key);
+  return null;
+}
+
+// Follows a line of choices, returning the coins it picks up and the path.
+function trace(course: Course, start: Body, choices: number[]) {
+  let body = start;
+  const path: Point[] = [];
+  for (let d = 0; d < choices.length; d++) {
+    const next = play(course, body, choices[d], d * DECIDE);
+    if (!next) break;
+    body = next;
+    path.push({
+      x: course.x + course.w / 2 + course.scrolled[(d + 1) * DECIDE],
+      y: body.y + body.h / 2,
+    });
+  }
+  let coins = 0;
+  for (let mask = body.coins; mask; mask &= mask - 1) coins++;
+  return { coins, path };
+}
+
+// Every move the runner could make right now that still leaves a way
+// through, with the coins that way collects. Waiting comes first.
+function survivableMoves(state: RunnerState, release: number) {
+  const course = readCourse(state);
+  const start = readBody(state, release);
+  const search: Search = { course, hopeless: new Set() };
+  const moves: { choice: number; coins: number; path: Point[] }[] = [];
+  for (const choice of choicesFor(course, start)) {
+    const next = play(course, start, choice, 0);
+    if (!next) continue;
+    const rest = explore(search, next, DECIDE);
+    if (!rest) continue;
+    moves.push({ choice, ...trace(course, start, [choice, ...rest]) });
+  }
+  return moves;
+}
+
+// ── Bot ───────────────────────────────────────────────────
+// Every few steps the bot looks for the moves that get it through the next
+// second and a half – landing on platforms, clearing spikes, slipping past
+// flyers, sliding under beams and projectiles – and picks the one that
+// collects the most coins, preferring to keep running. A jump's hold is let
+// go of on schedule in between, and a slide is held until a decision stops
+// it. When nothing gets through, it jumps if it still can and hopes.
+export function createBot(): RunnerBot {
+  let decideAt = 0;
+  let releaseAt = -1;
+  let path: Point[] = [];
+  let safe = true;
+
+  return {
+    plan(state) {
+      const { tick, player } = state;
+      if (tick >= decideAt) {
+        decideAt = tick + DECIDE;
+        const moves = survivableMoves(
+          state,
+          releaseAt >= tick ? releaseAt - tick : -1,
+        );
+        let choice = WAIT;
+        if (moves.length > 0) {
+          const best = moves.reduce((a, b) => (b.coins > a.coins ? b : a));
+          choice = best.choice;
+          path = best.path;
+          safe = true;
+        } else {
+          choice = player.jumpsLeft > 0 ? FULL_HOLD : WAIT;
+          path = [];
+          safe = false;
+        }
+        if (choice === SLIDE) {
+          if (!player.slideHeld) return { input: "slide", path, safe };
+        } else if (choice === WAIT) {
+          if (player.slideHeld) return { input: "stand", path, safe };
+        } else {
+          releaseAt = choice < FULL_HOLD ? tick + choice : -1;
+          return { input: "jump", path, safe };
+        }
+      }
+      if (tick === releaseAt) {
+        releaseAt = -1;
+        return { input: "release", path, safe };
+      }
+      return { input: null, path, safe };
+    },
+  };
+}
+
+export function botPolicy(): Policy<RunnerState, RunnerInput> {
+  const bot = createBot();
+  return (state) => bot.plan(state).input ?? undefined;
+}
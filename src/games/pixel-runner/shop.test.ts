@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { emptyWallet } from "../../engine/storage";
+import {
+  DEFAULT_SKIN,
+  SKINS,
+  SUPPLIES,
+  buySkin,
+  buySupply,
+  skinFor,
+  takeLoadout,
+  wearSkin,
+} from "./shop";
+
+const ember = SKINS.find((s) => s.id === "ember")!;
+const shield = SUPPLIES.find((s) => s.id === "shield")!;
+const revive = SUPPLIES.find((s) => s.id === "revive")!;
+
+describe("pixel runner shop", () => {
+  it("sells a skin once and wears it", () => {
+    const wallet = { ...emptyWallet(), coins: ember.price + 5 };
+    const bought = buySkin(wallet, ember)!;
+    expect(bought.coins).toBe(5);
+    expect(skinFor(bought)).toBe(ember);
+    expect(buySkin({ ...bought, coins: 1000 }, ember)).toBeNull();
+
+    expect(skinFor(wearSkin(bought, DEFAULT_SKIN))).toBe(DEFAULT_SKIN);
+    expect(wearSkin(emptyWallet(), ember).skin).toBeNull();
+  });
+
+  it("won't sell what the wallet can't pay for", () => {
+    const wallet = { ...emptyWallet(), coins: ember.price - 1 };
+    expect(buySkin(wallet, ember)).toBeNull();
+    expect(buySupply({ ...emptyWallet(), coins: 0 }, shield)).toBeNull();
+  });
+
+  it("uses one of each supply in stock per run", () => {
+    let wallet = { ...emptyWallet(), coins: 1000 };
+    wallet = buySupply(wallet, shield)!;
+    wallet = buySupply(wallet, shield)!;
+    wallet = buySupply(wallet, revive)!;
+    expect(wallet.stock).toEqual({ shield: 2, revive: 1 });
+
+    const first = takeLoadout(wallet);
+    expect(first.loadout).toEqual(["shield", "revive"]);
+    const second = takeLoadout(first.wallet);
+    expect(second.loadout).toEqual(["shield"]);
+    expect(takeLoadout(second.wallet).loadout).toEqual([]);
+  });
+});
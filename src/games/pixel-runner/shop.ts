@@ -0,0 +1,152 @@
+import type { Wallet } from "../../engine/storage";
+import type { Loadout } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface Skin {
+  id: string;
+  name: string;
+  price: number; // coins
+  body: string; // body and arms
+  legs: string;
+  head: string;
+}
+
+// Bought into stock, then one of each in stock is used up by every run.
+export interface Supply {
+  id: Loadout;
+  name: string;
+  icon: string;
+  price: number; // coins
+  blurb: string;
+}
+
+// ── Constants ─────────────────────────────────────────────
+export const DEFAULT_SKIN: Skin = {
+  id: "runner",
+  name: "Runner",
+  price: 0,
+  body: "#4a9eff",
+  legs: "#3578c4",
+  head: "#ffd5a5",
+};
+
+export const SKINS: Skin[] = [
+  DEFAULT_SKIN,
+  {
+    id: "ember",
+    name: "Ember",
+    price: 150,
+    body: "#ff6b3d",
+    legs: "#c4452a",
+    head: "#ffd5a5",
+  },
+  {
+    id: "moss",
+    name: "Moss",
+    price: 250,
+    body: "#5ecf6a",
+    legs: "#3a9a46",
+    head: "#f1c79a",
+  },
+  {
+    id: "phantom",
+    name: "Phantom",
+    price: 400,
+    body: "#b7a6ff",
+    legs: "#7d6bd1",
+    head: "#e8e4ff",
+  },
+  {
+    id: "gold",
+    name: "Gold",
+    price: 800,
+    body: "#f5c842",
+    legs: "#c99a1c",
+    head: "#fff1c4",
+  },
+];
+
+export const SUPPLIES: Supply[] = [
+  {
+    id: "magnet",
+    name: "Magnet",
+    icon: "🧲",
+    price: 40,
+    blurb: "Start with coins flying to you",
+  },
+  {
+    id: "shield",
+    name: "Shield",
+    icon: "🛡️",
+    price: 60,
+    blurb: "Start shielded from one hit",
+  },
+  {
+    id: "tripleJump",
+    name: "Triple Jump",
+    icon: "⏫",
+    price: 50,
+    blurb: "Start with a third jump",
+  },
+  {
+    id: "revive",
+    name: "Revive",
+    icon: "💖",
+    price: 120,
+    blurb: "Come back once from a fall or a hit",
+  },
+];
+
+// ── Shop ──────────────────────────────────────────────────
+// Every function here returns a new wallet and leaves the one it is given
+// alone; null means the purchase can't be made.
+export function buySkin(wallet: Wallet, skin: Skin): Wallet | null {
+  if (skin.price === 0 || wallet.owned.includes(skin.id)) return null;
+  if (wallet.coins < skin.price) return null;
+  return {
+    ...wallet,
+    coins: wallet.coins - skin.price,
+    owned: [...wallet.owned, skin.id],
+    skin: skin.id,
+  };
+}
+
+export function buySupply(wallet: Wallet, supply: Supply): Wallet | null {
+  if (wallet.coins < supply.price) return null;
+  return {
+    ...wallet,
+    coins: wallet.coins - supply.price,
+    stock: { ...wallet.stock, [supply.id]: (wallet.stock[supply.id] ?? 0) + 1 },
+  };
+}
+
+// Wears an owned skin; the default is always owned.
+export function wearSkin(wallet: Wallet, skin: Skin): Wallet {
+  if (skin === DEFAULT_SKIN) return { ...wallet, skin: null };
+  return wallet.owned.includes(skin.id) ? { ...wallet, skin: skin.id } : wallet;
+}
+
+export function skinFor(wallet: Wallet): Skin {
+  return SKINS.find((s) => s.id === wallet.skin) ?? DEFAULT_SKIN;
+}
+
+export function bankCoins(wallet: Wallet, coins: number): Wallet {
+  return { ...wallet, coins: wallet.coins + coins };
+}
+
+// What the next run starts with – one of each supply in stock – and the
+// wallet once they're used up.
+export function takeLoadout(wallet: Wallet): {
+  loadout: Loadout[];
+  wallet: Wallet;
+} {
+  const stock = { ...wallet.stock };
+  const loadout: Loadout[] = [];
+  for (const { id } of SUPPLIES) {
+    if ((stock[id] ?? 0) > 0) {
+      stock[id]--;
+      loadout.push(id);
+    }
+  }
+  return { loadout, wallet: { ...wallet, stock } };
+}
@@ -0,0 +1,374 @@
+import { describe, expect, it } from "vitest";
+import {
+  BEAM_CLEARANCE,
+  PLAYER_H,
+  PLAYER_W,
+  POWER_UP_TIME,
+  PRESETS,
+  SLIDE_H,
+  SLOW_MO_SCALE,
+  STEP,
+  runnerSim,
+} from "./sim";
+import type { Obstacle, PowerUpKind, RunnerState } from "./sim";
+
+const WORLD = { width: 800, height: 600 };
+
+// A run with nothing but the given platforms: no obstacles, no coins or
+// power-ups and nothing generated until the last platform scrolls into range.
+function setup(platforms: RunnerState["platforms"]): RunnerState {
+  const state = runnerSim.create(PRESETS.medium, 1, WORLD);
+  state.platforms = platforms;
+  state.obstacles = [];
+  state.coins = [];
+  state.powerUps = [];
+  return state;
+}
+
+// A spike standing on ground at y 450.
+function spike(x: number): Obstacle {
+  return {
+    x,
+    y: 450 - 14,
+    w: 14,
+    h: 14,
+    kind: "spike",
+    baseY: 0,
+    phase: 0,
+    lane: 0,
+  };
+}
+
+function runUntil(state: RunnerState, done: () => boolean, maxTicks = 2000) {
+  for (let i = 0; i < maxTicks && !done() && !state.over; i++) {
+    runnerSim.update(state);
+  }
+}
+
+describe("pixel runner landing", () => {
+  it("lands on top of a platform and gets its jumps back", () => {
+    const state = setup([{ x: 0, y: 400, w: 3000 }]);
+    const player = state.player;
+    player.y = 200;
+    player.vy = 0;
+    player.onGround = false;
+    player.jumpsLeft = 0;
+
+    runUntil(state, () => player.onGround);
+    expect(state.over).toBe(false);
+    expect(player.onGround).toBe(true);
+    expect(player.y).toBe(400 - PLAYER_H);
+    expect(player.vy).toBe(0);
+    expect(player.jumpsLeft).toBe(2);
+  });
+
+  it("jumps up through a platform without landing on it", () => {
+    const state = setup([
+      { x: 0, y: 450, w: 3000 },
+      { x: 0, y: 380, w: 3000 },
+    ]);
+    const player = state.player;
+    player.y = 450 - PLAYER_H;
+    runnerSim.input(state, "jump");
+    runnerSim.update(state);
+    expect(player.vy).toBeLessThan(0);
+
+    // rising: the higher platform is only solid from above
+    runUntil(state, () => player.vy >= 0);
+    expect(player.y).toBeLessThan(380 - PLAYER_H);
+    runUntil(state, () => player.onGround);
+    expect(player.y).toBe(380 - PLAYER_H);
+  });
+
+  it("stays on the ground while running across a platform", () => {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    state.player.y = 450 - PLAYER_H;
+    for (let i = 0; i < 120; i++) runnerSim.update(state);
+    expect(state.over).toBe(false);
+    expect(state.player.onGround).toBe(true);
+  });
+});
+
+describe("pixel runner fall death", () => {
+  it("ends the run once the player falls below the world", () => {
+    // the only platform is far ahead, so the player drops straight down
+    const state = setup([{ x: 5000, y: 450, w: 100 }]);
+    const player = state.player;
+    runnerSim.update(state);
+    expect(state.over).toBe(false);
+
+    runUntil(state, () => false);
+    expect(state.over).toBe(true);
+    expect(player.y).toBeGreaterThan(WORLD.height + 50);
+  });
+
+  it("isn't over while still above the bottom of the world", () => {
+    const state = setup([{ x: 5000, y: 450, w: 100 }]);
+    runUntil(state, () => state.player.y > WORLD.height);
+    expect(state.player.y).toBeLessThanOrEqual(WORLD.height + 50);
+    expect(state.over).toBe(false);
+  });
+});
+
+describe("pixel runner level generation", () => {
+  // How far above its platform a fully held jump takes the runner's feet.
+  function jumpHeight(): number {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    const player = state.player;
+    player.y = 450 - PLAYER_H;
+    runnerSim.input(state, "jump");
+    let top = player.y;
+    runUntil(state, () => {
+      top = Math.min(top, player.y);
+      return player.vy > 0;
+    });
+    return 450 - PLAYER_H - top;
+  }
+
+  it("never builds a platform higher than a jump reaches", () => {
+    const height = jumpHeight();
+    for (const seed of [1, 2, 3, 4]) {
+      const state = runnerSim.create(PRESETS.hard, seed, WORLD);
+      const seen = new Set(state.platforms);
+      // keep the runner clear of everything, beams included, while the
+      // level scrolls past, checking each new platform against the one
+      // before it
+      for (let i = 0; i < 60 * 120; i++) {
+        state.player.y = -200;
+        state.player.vy = 0;
+        runnerSim.update(state);
+        state.platforms.forEach((plat, j) => {
+          if (seen.has(plat)) return;
+          seen.add(plat);
+          const prev = state.platforms[j - 1];
+          expect(prev.y - plat.y).toBeLessThan(height);
+          expect(plat.x).toBeGreaterThan(prev.x + prev.w);
+        });
+      }
+      expect(state.over).toBe(false);
+      expect(seen.size).toBeGreaterThan(50);
+    }
+  });
+});
+
+describe("pixel runner power-ups", () => {
+  // A runner on flat ground with the power-up right where it stands.
+  function pickUp(kind: PowerUpKind): RunnerState {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    state.player.y = 450 - PLAYER_H;
+    state.powerUps = [
+      {
+        x: state.player.x + PLAYER_W / 2,
+        y: state.player.y + PLAYER_H / 2,
+        kind,
+        collected: false,
+      },
+    ];
+    runnerSim.update(state);
+    return state;
+  }
+
+  it("runs each power-up for its time", () => {
+    const state = pickUp("magnet");
+    expect(state.powerUps[0].collected).toBe(true);
+    const steps = Math.round(POWER_UP_TIME.magnet / STEP);
+    expect(state.powers.magnet).toBe(steps - 1);
+    runUntil(state, () => state.powers.magnet === 0, 10000);
+    expect(state.tick).toBe(steps);
+  });
+
+  it("pulls nearby coins in with the magnet", () => {
+    const state = pickUp("magnet");
+    const { player } = state;
+    state.coins = [
+      { x: player.x + 100, y: player.y - 60, collected: false },
+      { x: player.x + 600, y: player.y - 60, collected: false },
+    ];
+    runUntil(state, () => state.coinCount > 0, 30);
+    expect(state.coins[0].collected).toBe(true);
+    expect(state.coins[1].collected).toBe(false);
+  });
+
+  it("takes one hit with the shield", () => {
+    const state = pickUp("shield");
+    state.obstacles = [spike(state.player.x + 40), spike(state.player.x + 140)];
+
+    runUntil(state, () => state.obstacles.length < 2, 200);
+    expect(state.over).toBe(false);
+    expect(state.powers.shield).toBe(0);
+    runUntil(state, () => false, 200);
+    expect(state.over).toBe(true);
+  });
+
+  it("gives a third jump while triple jump lasts", () => {
+    const state = pickUp("tripleJump");
+    expect(state.player.jumpsLeft).toBe(3);
+    state.powers.tripleJump = 1;
+    runnerSim.update(state);
+    expect(state.player.jumpsLeft).toBe(2);
+  });
+
+  it("slows the scrolling but not the power-up clock", () => {
+    const state = pickUp("slowMo");
+    const { distance, scrollSpeed } = state;
+    runnerSim.update(state);
+    expect(state.distance - distance).toBeCloseTo(
+      scrollSpeed * STEP * SLOW_MO_SCALE,
+    );
+    runUntil(state, () => state.powers.slowMo === 0, 10000);
+    expect(state.tick).toBe(Math.round(POWER_UP_TIME.slowMo / STEP));
+  });
+});
+
+describe("pixel runner loadout", () => {
+  it("only starts a run with supplies given before the first update", () => {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    runnerSim.input(state, { start: "magnet" });
+    runnerSim.update(state);
+    runnerSim.input(state, { start: "shield" });
+    runnerSim.input(state, { start: "revive" });
+    expect(state.powers.magnet).toBeGreaterThan(0);
+    expect(state.powers.shield).toBe(0);
+    expect(state.revives).toBe(0);
+  });
+
+  it("revives a fallen runner onto a bridge to the next platform", () => {
+    const state = setup([
+      { x: 0, y: 450, w: 100 },
+      { x: 600, y: 420, w: 300 },
+    ]);
+    state.player.y = 450 - PLAYER_H;
+    runnerSim.input(state, { start: "revive" });
+    runUntil(state, () => state.revives === 0);
+    expect(state.over).toBe(false);
+    expect(state.player.y).toBe(420 - PLAYER_H);
+    expect(state.powers.shield).toBeGreaterThan(0);
+
+    runUntil(state, () => state.platforms[1].x < state.player.x, 500);
+    expect(state.over).toBe(false);
+    expect(state.player.onGround).toBe(true);
+  });
+
+  it("revives a runner hit by an obstacle only once", () => {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    state.player.y = 450 - PLAYER_H;
+    runnerSim.input(state, { start: "revive" });
+    state.obstacles = [spike(state.player.x + 40), spike(state.player.x + 900)];
+
+    runUntil(state, () => state.revives === 0, 200);
+    expect(state.over).toBe(false);
+    expect(state.obstacles).toHaveLength(1);
+    runUntil(state, () => false, 1000);
+    expect(state.over).toBe(true);
+  });
+});
+
+describe("pixel runner slide", () => {
+  // A runner on the ground at y 450, the obstacle not yet passed.
+  function onGround(obstacle?: Obstacle): RunnerState {
+    const state = setup([{ x: 0, y: 450, w: 3000 }]);
+    state.player.y = 450 - PLAYER_H;
+    if (obstacle) state.obstacles = [obstacle];
+    runnerSim.update(state);
+    return state;
+  }
+
+  function passed(state: RunnerState) {
+    return () => state.obstacles.every((o) => o.x + o.w < state.player.x);
+  }
+
+  function beam(x: number): Obstacle {
+    return {
+      x,
+      y: -100,
+      w: 60,
+      h: 450 - BEAM_CLEARANCE + 100,
+      kind: "beam",
+      baseY: 0,
+      phase: 0,
+      lane: 0,
+    };
+  }
+
+  function projectile(x: number): Obstacle {
+    return {
+      x,
+      y: 450 - 30,
+      w: 18,
+      h: 7,
+      kind: "projectile",
+      baseY: 0,
+      phase: 0,
+      lane: 0,
+    };
+  }
+
+  it("ducks and stands back up with its feet where they were", () => {
+    const state = onGround();
+    const player = state.player;
+    runnerSim.input(state, "slide");
+    runnerSim.update(state);
+    expect(player.sliding).toBe(true);
+    expect(player.h).toBe(SLIDE_H);
+    expect(player.y + player.h).toBe(450);
+
+    runnerSim.input(state, "stand");
+    runnerSim.update(state);
+    expect(player.sliding).toBe(false);
+    expect(player.h).toBe(PLAYER_H);
+    expect(player.y + player.h).toBe(450);
+  });
+
+  it("slides under a beam a standing runner runs into", () => {
+    const standing = onGround(beam(300));
+    runUntil(standing, passed(standing));
+    expect(standing.over).toBe(true);
+
+    const sliding = onGround(beam(300));
+    runnerSim.input(sliding, "slide");
+    runUntil(sliding, passed(sliding));
+    expect(sliding.over).toBe(false);
+  });
+
+  it("slides under a projectile flying along the platform", () => {
+    const standing = onGround(projectile(500));
+    runUntil(standing, passed(standing));
+    expect(standing.over).toBe(true);
+
+    const sliding = onGround(projectile(500));
+    const start = sliding.obstacles[0].x;
+    runnerSim.update(sliding);
+    // faster than the scrolling alone
+    expect(start - sliding.obstacles[0].x).toBeGreaterThan(
+      sliding.scrollSpeed * STEP,
+    );
+    runnerSim.input(sliding, "slide");
+    runUntil(sliding, passed(sliding));
+    expect(sliding.over).toBe(false);
+  });
+
+  it("stops sliding on a jump and doesn't slide again on landing", () => {
+    const state = onGround();
+    const player = state.player;
+    runnerSim.input(state, "slide");
+    runnerSim.update(state);
+    runnerSim.input(state, "jump");
+    runnerSim.update(state);
+    expect(player.sliding).toBe(false);
+    expect(player.h).toBe(PLAYER_H);
+
+    runUntil(state, () => player.onGround);
+    expect(player.sliding).toBe(false);
+  });
+
+  it("only slides on the ground", () => {
+    const state = onGround();
+    const player = state.player;
+    runnerSim.input(state, "jump");
+    runnerSim.update(state);
+    runnerSim.input(state, "slide");
+    runnerSim.update(state);
+    expect(player.sliding).toBe(false);
+    expect(player.h).toBe(PLAYER_H);
+  });
+});
@@ -0,0 +1,1078 @@
+import { createRng } from "../../engine/rng";
+import type { Rng } from "../../engine/rng";
+import type { SimState, Simulation, World } from "../../engine/sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface GameSettings {
+  baseSpeed: number; // px/s
+  acceleration: number; // px/s²
+  gapMin: number; // min gap between platforms (px)
+  gapMax: number; // max gap
+  platWidthMin: number;
+  platWidthMax: number;
+  obstacleChance: number; // 0-1
+  coinChance: number; // 0-1
+  magnetChance: number; // 0-1 per platform, like the other power-ups
+  shieldChance: number;
+  tripleJumpChance: number;
+  slowMoChance: number;
+  doubleJump: boolean;
+}
+
+export interface Platform {
+  x: number;
+  y: number;
+  w: number;
+}
+
+// Spikes and flyers are jumped; beams hang down too low to run under and
+// projectiles fly along their platform at head height, so both are slid
+// under.
+export type ObstacleKind = "spike" | "flyer" | "beam" | "projectile";
+
+export interface Obstacle {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  kind: ObstacleKind;
+  baseY: number; // for flyer sine wave
+  phase: number;
+  lane: number; // projectiles: left edge of their platform, where they drop away
+}
+
+// Where the runner can be standing on a platform, as offsets of its left
+// edge from the platform's.
+export interface Span {
+  from: number;
+  to: number;
+}
+
+export interface Footing {
+  platform: Platform; // the newest platform
+  spans: Span[];
+}
+
+export interface Coin {
+  x: number;
+  y: number;
+  collected: boolean;
+}
+
+export type PowerUpKind = "magnet" | "shield" | "tripleJump" | "slowMo";
+
+export interface PowerUp {
+  x: number;
+  y: number;
+  kind: PowerUpKind;
+  collected: boolean;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  vy: number;
+  w: number;
+  h: number;
+  onGround: boolean;
+  jumpsLeft: number;
+  jumpHeld: boolean;
+  jumpHoldTime: number;
+  slideHeld: boolean;
+  sliding: boolean; // only on the ground, with h down to SLIDE_H
+  runFrame: number;
+  runTimer: number;
+}
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+// What the runner can bring from the shop into a run.
+export type Loadout = PowerUpKind | "revive";
+
+// Press starts a jump on the next update, release ends the hold boost.
+// Slide is held until stand, and a jump ends it too. Loadout only counts
+// before the first update, so a recording carries whatever the run started
+// with.
+export type RunnerInput =
+  "jump" | "release" | "slide" | "stand" | { start: Loadout };
+
+export interface RunnerState extends SimState {
+  settings: GameSettings;
+  world: World;
+  rng: Rng;
+  player: Player;
+  platforms: Platform[];
+  obstacles: Obstacle[];
+  coins: Coin[];
+  powerUps: PowerUp[];
+  powers: Record<PowerUpKind, number>; // steps each has left, 0 when off
+  revives: number; // deaths the runner will come back from
+  scrollSpeed: number;
+  distance: number;
+  coinCount: number;
+  groundY: number;
+  jumpPressed: boolean;
+  footing: Footing; // what the level generator builds on next
+}
+
+// ── Constants ─────────────────────────────────────────────
+export const PRESETS: Record<Difficulty, GameSettings> = {
+  easy: {
+    baseSpeed: 180,
+    acceleration: 1.5,
+    gapMin: 40,
+    gapMax: 90,
+    platWidthMin: 120,
+    platWidthMax: 260,
+    obstacleChance: 0.15,
+    coinChance: 0.5,
+    magnetChance: 0.05,
+    shieldChance: 0.04,
+    tripleJumpChance: 0.04,
+    slowMoChance: 0.04,
+    doubleJump: true,
+  },
+  medium: {
+    baseSpeed: 230,
+    acceleration: 2.5,
+    gapMin: 55,
+    gapMax: 120,
+    platWidthMin: 90,
+    platWidthMax: 200,
+    obstacleChance: 0.25,
+    coinChance: 0.4,
+    magnetChance: 0.04,
+    shieldChance: 0.03,
+    tripleJumpChance: 0.03,
+    slowMoChance: 0.03,
+    doubleJump: true,
+  },
+  hard: {
+    baseSpeed: 280,
+    acceleration: 3.5,
+    gapMin: 70,
+    gapMax: 150,
+    platWidthMin: 60,
+    platWidthMax: 150,
+    obstacleChance: 0.4,
+    coinChance: 0.35,
+    magnetChance: 0.03,
+    shieldChance: 0.03,
+    tripleJumpChance: 0.02,
+    slowMoChance: 0.03,
+    doubleJump: false,
+  },
+};
+
+export const GRAVITY = 1400; // px/s²
+export const JUMP_VELOCITY = -520; // px/s (initial)
+export const JUMP_HOLD_BOOST = -200; // extra upward while holding
+export const JUMP_HOLD_MAX = 0.18; // seconds you can hold for boost
+export const PLAYER_W = 28;
+export const PLAYER_H = 34;
+export const SLIDE_H = 18;
+export const PLATFORM_H = 16;
+export const COIN_R = 8;
+export const COIN_SCORE = 100;
+export const GROUND_Y_FRAC = 0.75; // ground sits at 75% of world height
+export const SPAWN_AHEAD = 400; // generate platforms this far ahead of screen right
+export const FLYER_SWAY = 20; // px a flyer bobs above and below its baseY
+export const BEAM_CLEARANCE = 22; // px between a beam and its platform
+export const PROJECTILE_SPEED = 260; // px/s on top of the scrolling, once on screen
+export const STEP = 1 / 120; // seconds per physics step
+
+// Power-ups last this many seconds from pickup; the shield also ends the
+// first time it saves the runner.
+export const POWER_UP_TIME: Record<PowerUpKind, number> = {
+  magnet: 8,
+  shield: 15,
+  tripleJump: 10,
+  slowMo: 5,
+};
+export const POWER_UP_R = 10;
+export const MAGNET_RANGE = 170; // px from the runner's centre it reaches
+export const MAGNET_PULL = 650; // px/s
+export const SLOW_MO_SCALE = 0.6; // game time per real second while slowed
+export const REVIVE_SHIELD = 3; // s of shield a revived runner gets
+
+// ── Helpers ───────────────────────────────────────────────
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, v));
+}
+
+export function rectsOverlap(
+  ax: number,
+  ay: number,
+  aw: number,
+  ah: number,
+  bx: number,
+  by: number,
+  bw: number,
+  bh: number,
+): boolean {
+  return ax < bx + bw && ax + aw > bx && ay < by + bh && ay + ah > by;
+}
+
+// Every power-up, switched off.
+function noPowers(): Record<PowerUpKind, number> {
+  return { magnet: 0, shield: 0, tripleJump: 0, slowMo: 0 };
+}
+
+function maxJumps(state: RunnerState): number {
+  if (state.powers.tripleJump > 0) return 3;
+  return state.settings.doubleJump ? 2 : 1;
+}
+
+// Seconds of game time one update covers – less while slow motion lasts.
+// Everything moves by it alike, so a jump covers the same ground.
+function stepTime(state: RunnerState): number {
+  return state.powers.slowMo > 0 ? STEP * SLOW_MO_SCALE : STEP;
+}
+
+export function runnerScore(state: RunnerState): number {
+  return Math.floor(state.distance / 10) + state.coinCount * COIN_SCORE;
+}
+
+// ── Level generation ──────────────────────────────────────
+// Platforms, spikes and flyers only go where the runner can still get
+// through. Every way of leaving the ground – running off the end, a tapped,
+// half or fully held jump and, with double jump, a second one on the way
+// down – is worked out as an arc at the speed the level will be scrolling
+// by the time the runner gets there. Those arcs bound how high and how far
+// the next platform may be, and each candidate is then checked by flying
+// them from everywhere the runner could be standing on the last platform.
+// Landings and obstacles get more margin than the rules need and flyers
+// count as the whole height they bob through, so a way found here holds up
+// to rounding and a frame's worth of timing.
+const SAFE_EDGE = 8; // px a landing must be from a platform's end (the rules: 4)
+const SAFE_SHRINK = 1; // px of obstacle overlap forgiven (the rules: 3)
+const RISE_MARGIN = 6; // px the highest jump must clear a platform by
+const GAP_MARGIN = 4; // px short of the furthest jump a gap may be
+const TAKEOFF_STEPS = 3; // steps of running between the take-offs tried
+const PLACE_TRIES = 8; // platforms tried before settling for an easy one
+const OBSTACLE_TRIES = 3; // obstacles tried before leaving a platform clear
+const PROJECTILE_MARGIN = 12; // px either side of where a projectile meets the runner
+const BEAM_ABOVE = 100; // px beams reach up past the top of the world
+const SLIDE_RUNUP = 40; // px of ground a landing needs before anything to slide under
+const EASY_DROPS = [30, -30, 0]; // px below the last platform easy steps are tried at
+
+// One step of a flight, relative to where it took off.
+interface ArcPoint {
+  dx: number;
+  dy: number; // feet below take-off height, negative above
+  vy: number;
+}
+
+// A way of leaving the ground: how many steps the first jump is held for
+// (0 runs off the end instead) and, with double jump, how many steps after
+// the top of the first a fully held second one is pressed (-1 for none).
+interface Leap {
+  hold: number;
+  second: number;
+}
+
+// What a flight can land on or run into.
+interface Stage {
+  platforms: Platform[];
+  obstacles: Obstacle[];
+  floor: number; // feet below this have missed every platform
+  stride: number; // px between the take-offs tried
+}
+
+const FULL_HOLD = Math.ceil(JUMP_HOLD_MAX / STEP);
+
+function leapsFor(settings: GameSettings): Leap[] {
+  const leaps = [
+    { hold: 0, second: -1 },
+    { hold: 1, second: -1 },
+    { hold: Math.round(FULL_HOLD / 2), second: -1 },
+    { hold: FULL_HOLD, second: -1 },
+  ];
+  if (settings.doubleJump) {
+    leaps.push(
+      { hold: FULL_HOLD, second: 0 },
+      { hold: FULL_HOLD, second: Math.round(0.2 / STEP) },
+    );
+  }
+  return leaps;
+}
+
+// The leap's arc, stepped exactly as update does, until the feet are
+// `depth` below take-off.
+function flight(leap: Leap, speed: number, depth: number): ArcPoint[] {
+  const arc: ArcPoint[] = [];
+  let dy = 0;
+  let vy = 0;
+  let held = false;
+  let holdTime = 0;
+  let apex = -1;
+  const press = () => {
+    vy = JUMP_VELOCITY;
+    held = true;
+    holdTime = 0;
+  };
+  for (let k = 1; dy <= depth; k++) {
+    if (leap.hold > 0 && k === 1) press();
+    if (leap.hold < FULL_HOLD && k === leap.hold + 1) {
+      held = false;
+      holdTime = 0;
+    }
+    if (leap.second >= 0 && apex >= 0 && k === apex + 1 + leap.second) {
+      press();
+    }
+    if (held) {
+      holdTime += STEP;
+      if (holdTime < JUMP_HOLD_MAX) vy += JUMP_HOLD_BOOST * STEP;
+      else held = false;
+    }
+    vy += GRAVITY * STEP;
+    dy += vy * STEP;
+    if (apex < 0 && leap.hold > 0 && vy >= 0) apex = k;
+    arc.push({ dx: speed * STEP * k, dy, vy });
+  }
+  return arc;
+}
+
+// How fast the level will be scrolling once the runner reaches `x`.
+function speedAt(state: RunnerState, x: number): number {
+  const ahead = Math.max(0, x - state.player.x);
+  return Math.sqrt(
+    state.scrollSpeed ** 2 + 2 * state.settings.acceleration * ahead,
+  );
+}
+
+// How high above take-off the highest arc lifts the runner's feet.
+function peak(arcs: ArcPoint[][]): number {
+  let top = 0;
+  for (const arc of arcs) for (const p of arc) top = Math.min(top, p.dy);
+  return -top;
+}
+
+// The furthest any arc carries the runner before its feet come down
+// through `dy` below take-off, or 0 if none does.
+function reach(arcs: ArcPoint[][], dy: number): number {
+  let furthest = 0;
+  for (const arc of arcs) {
+    for (let k = 1; k < arc.length; k++) {
+      if (arc[k].vy >= 0 && arc[k - 1].dy < dy && arc[k].dy >= dy) {
+        furthest = Math.max(furthest, arc[k].dx);
+      }
+    }
+  }
+  return furthest;
+}
+
+// The obstacle's box as the generator sees it, against a runner `height`
+// tall: a flyer could be anywhere it bobs through.
+function hits(
+  obs: Obstacle,
+  x: number,
+  feet: number,
+  height = PLAYER_H,
+): boolean {
+  const flyer = obs.kind === "flyer";
+  const top = flyer ? obs.baseY - FLYER_SWAY : obs.y;
+  const h = flyer ? obs.h + FLYER_SWAY * 2 : obs.h;
+  return rectsOverlap(
+    x + SAFE_SHRINK,
+    feet - height + SAFE_SHRINK,
+    PLAYER_W - SAFE_SHRINK * 2,
+    height - SAFE_SHRINK * 2,
+    obs.x + SAFE_SHRINK,
+    top + SAFE_SHRINK,
+    obs.w - SAFE_SHRINK * 2,
+    h - SAFE_SHRINK * 2,
+  );
+}
+
+// Where a flight taking off from `x` on ground at `y` first lands, or null
+// if it hits something, falls or only lands too near an end to count on.
+function land(stage: Stage, arc: ArcPoint[], x: number, y: number) {
+  for (const p of arc) {
+    const px = x + p.dx;
+    const feet = y + p.dy;
+    for (const plat of stage.platforms) {
+      if (
+        p.vy >= 0 &&
+        px + PLAYER_W > plat.x + 4 &&
+        px < plat.x + plat.w - 4 &&
+        feet >= plat.y &&
+        feet <= plat.y + PLATFORM_H + p.vy * STEP + 4
+      ) {
+        const safe =
+          px + PLAYER_W > plat.x + SAFE_EDGE &&
+          px < plat.x + plat.w - SAFE_EDGE;
+        return safe ? { platform: plat, x: px } : null;
+      }
+    }
+    if (stage.obstacles.some((obs) => hits(obs, px, feet))) return null;
+    if (feet > stage.floor) return null;
+  }
+  return null;
+}
+
+// Take-off points a stride apart along the span, its end included.
+function along(span: Span, stride: number): number[] {
+  const xs: number[] = [];
+  for (let x = span.from; x < span.to; x += stride) xs.push(x);
+  xs.push(span.to);
+  return xs;
+}
+
+// Where the runner lands taking off from `xs`, in order along ground at
+// `y`, and running off its end at `edge` if given. Running off takes no
+// timing; a jump only counts if taking off a point earlier or later lands
+// on the same stretch of the same platform too – and so does everything
+// in between – so no way through needs split-second timing. Neither
+// counts landing too close in front of anything to slide under.
+function landings(
+  stage: Stage,
+  arcs: ArcPoint[][],
+  xs: number[],
+  y: number,
+  edge?: number,
+) {
+  const found: { platform: Platform; x: number }[] = [];
+  const slides = new Map(stage.platforms.map((p) => [p, slidesOn(stage, p)]));
+  const zones = new Map(
+    stage.platforms.map((p) => [p, [...zonesOn(stage, p), ...slides.get(p)!]]),
+  );
+  if (edge !== undefined) {
+    const runOff = land(stage, arcs[0], edge, y);
+    if (
+      runOff &&
+      !slides
+        .get(runOff.platform)!
+        .some((z) => runOff.x > z.from && runOff.x < z.to)
+    ) {
+      found.push(runOff);
+    }
+  }
+  for (const arc of arcs.slice(1)) {
+    const hits = xs.map((x) => land(stage, arc, x, y));
+    for (let i = 1; i < hits.length - 1; i++) {
+      const [before, hit, after] = hits.slice(i - 1, i + 2);
+      if (
+        hit &&
+        before?.platform === hit.platform &&
+        after?.platform === hit.platform &&
+        !zones
+          .get(hit.platform)!
+          .some((z) => z.to > before.x && z.from < after.x)
+      ) {
+        found.push(hit);
+      }
+    }
+  }
+  return found;
+}
+
+// The last take-offs before the end of a span – every runner on it passes
+// them – or null if the span is too short to have any.
+function exits(span: Span, stride: number): number[] | null {
+  if (span.to - span.from < stride * 2) return null;
+  return [span.to - stride * 2, span.to - stride, span.to];
+}
+
+// Where on `plat` a runner on the ground runs into an obstacle even
+// sliding; whatever it can slide under is no obstacle to it there.
+function zonesOn(stage: Stage, plat: Platform): Span[] {
+  return stage.obstacles
+    .filter((obs) =>
+      hits(obs, obs.x + obs.w / 2 - PLAYER_W / 2, plat.y, SLIDE_H),
+    )
+    .map((obs) => ({
+      from: obs.x + SAFE_SHRINK * 2 - PLAYER_W,
+      to: obs.x + obs.w - SAFE_SHRINK * 2,
+    }));
+}
+
+// Where on `plat` a runner landing would have to slide before it has had
+// time to: from a run-up short of whatever it slides under to its far side.
+function slidesOn(stage: Stage, plat: Platform): Span[] {
+  return stage.obstacles
+    .filter((obs) => {
+      const x = obs.x + obs.w / 2 - PLAYER_W / 2;
+      return hits(obs, x, plat.y) && !hits(obs, x, plat.y, SLIDE_H);
+    })
+    .map((obs) => ({
+      from: obs.x + SAFE_SHRINK * 2 - PLAYER_W - SLIDE_RUNUP,
+      to: obs.x + obs.w - SAFE_SHRINK * 2,
+    }));
+}
+
+// Everywhere on `plat` the runner can be standing after landing at
+// `entries` (world x): running on from each until an obstacle or the end,
+// and hopping over obstacles onto the rest of it. Null if any of it is a
+// dead end – a stretch the runner can't get off again further along.
+function standable(
+  stage: Stage,
+  arcs: ArcPoint[][],
+  plat: Platform,
+  entries: number[],
+): Span[] | null {
+  const zones = zonesOn(stage, plat);
+  const inZone = (x: number) => zones.some((z) => x > z.from && x < z.to);
+  const end = plat.x + plat.w - 5; // the last px the runner is held up at
+  const spans: Span[] = [];
+  const queue = [...entries];
+  while (queue.length > 0) {
+    // leftmost first, so each stretch is only run along once
+    queue.sort((a, b) => b - a);
+    const from = queue.pop()!;
+    if (inZone(from) || spans.some((s) => from >= s.from && from <= s.to)) {
+      continue;
+    }
+    let to = end;
+    for (const z of zones) if (z.from >= from) to = Math.min(to, z.from);
+    for (const s of spans) if (s.from > from) to = Math.min(to, s.from);
+    const span = { from, to };
+    spans.push(span);
+    const xs = along(span, stage.stride);
+    for (const hit of landings(stage, arcs, xs, plat.y)) {
+      if (hit.platform === plat) queue.push(hit.x);
+    }
+  }
+
+  for (const span of spans) {
+    if (span.to >= end) continue;
+    if (spans.some((s) => s.from === span.to)) continue; // runs straight on
+    const xs = exits(span, stage.stride);
+    const onward =
+      xs !== null &&
+      landings(stage, arcs, xs, plat.y).some(
+        (hit) => hit.platform === plat && hit.x > span.to && !inZone(hit.x),
+      );
+    if (!onward) return null;
+  }
+  return spans;
+}
+
+// Where the runner can stand on `next` coming from `footing`, or null if
+// it can't get there from the end of the last platform, or `next` has a
+// dead end or no way on to its own end.
+function footingOn(
+  state: RunnerState,
+  arcs: ArcPoint[][],
+  footing: Footing,
+  next: Platform,
+  obstacles: Obstacle[],
+): Span[] | null {
+  const prev = footing.platform;
+  const speed = arcs[0][0].dx / STEP;
+  const stage: Stage = {
+    platforms: [prev, next],
+    obstacles: [...state.obstacles, ...obstacles]
+      .map((obs) => standIn(state, obs))
+      .filter((obs) => obs.x + obs.w > prev.x - PLAYER_W),
+    floor: Math.max(prev.y, next.y) + PLATFORM_H + 40,
+    stride: speed * STEP * TAKEOFF_STEPS,
+  };
+  const from = footing.spans.map((s) => ({
+    from: prev.x + s.from,
+    to: prev.x + s.to,
+  }));
+  const last = from.reduce((a, b) => (b.to > a.to ? b : a));
+  const xs = exits(last, stage.stride);
+  const across =
+    xs !== null &&
+    landings(stage, arcs, xs, prev.y, last.to).some(
+      (hit) => hit.platform === next,
+    );
+  if (!across) return null;
+
+  const entries = from
+    .flatMap((span) =>
+      landings(stage, arcs, along(span, stage.stride), prev.y, span.to),
+    )
+    .filter((hit) => hit.platform === next)
+    .map((hit) => hit.x);
+  const spans = standable(stage, arcs, next, entries);
+  const end = next.x + next.w - 5;
+  if (!spans || !spans.some((s) => s.to >= end)) return null;
+  return spans.map((s) => ({ from: s.from - next.x, to: s.to - next.x }));
+}
+
+// At most one power-up per platform: each is tried in turn.
+function powerUpChances(s: GameSettings): [PowerUpKind, number][] {
+  return [
+    ["magnet", s.magnetChance],
+    ["shield", s.shieldChance],
+    ["tripleJump", s.tripleJumpChance],
+    ["slowMo", s.slowMoChance],
+  ];
+}
+
+// A projectile only stays still until it comes on screen, so the generator
+// checks the level against where it will meet the runner instead: a beam
+// over everywhere the runner could be while they pass each other, as if
+// the runner went on running on the ground. That holds up whether the
+// runner stays on the ground or not – it can always slide under the beam
+// and never gets over it.
+function standIn(state: RunnerState, obs: Obstacle): Obstacle {
+  if (obs.kind !== "projectile") return obs;
+  const { player, world } = state;
+  const launch = player.x + Math.max(0, obs.x - world.width); // runner's x then
+  const closing = obs.x - (launch + PLAYER_W);
+  const speed = speedAt(state, obs.x);
+  const share = speed / (speed + PROJECTILE_SPEED); // of the closing the runner does
+  // the runner's x from first touching the projectile to leaving it behind
+  const from = launch + closing * share - PROJECTILE_MARGIN;
+  const to = from + (PLAYER_W + obs.w) * share + PROJECTILE_MARGIN * 2;
+  return {
+    ...obs,
+    kind: "beam",
+    x: from + PLAYER_W,
+    y: -BEAM_ABOVE,
+    w: to - from - PLAYER_W,
+    h: obs.y + obs.h + BEAM_ABOVE,
+  };
+}
+
+// Spikes sit on the platform, flyers bob above it, beams hang over it and
+// projectiles wait at its far end.
+function randomObstacle(rng: Rng, plat: Platform): Obstacle {
+  const roll = rng.next();
+  const still = { baseY: 0, phase: 0, lane: 0 };
+  if (roll < 0.45) {
+    return {
+      ...still,
+      x: plat.x + plat.w * rng.range(0.3, 0.7),
+      y: plat.y - 14,
+      w: 14,
+      h: 14,
+      kind: "spike",
+    };
+  }
+  if (roll < 0.75) {
+    const oy = plat.y - rng.range(50, 90);
+    return {
+      ...still,
+      x: plat.x + plat.w * rng.range(0.2, 0.8),
+      y: oy,
+      w: 20,
+      h: 16,
+      kind: "flyer",
+      baseY: oy,
+      phase: rng.range(0, Math.PI * 2),
+    };
+  }
+  if (roll < 0.9) {
+    const w = plat.w * rng.range(0.2, 0.4);
+    const bottom = plat.y - BEAM_CLEARANCE;
+    return {
+      ...still,
+      x: plat.x + rng.range(0.2, 0.8) * (plat.w - w),
+      y: -BEAM_ABOVE,
+      w,
+      h: bottom + BEAM_ABOVE,
+      kind: "beam",
+    };
+  }
+  return {
+    ...still,
+    x: plat.x + plat.w - 18,
+    y: plat.y - 30,
+    w: 18,
+    h: 7,
+    kind: "projectile",
+    lane: plat.x,
+  };
+}
+
+// Steps after `prev` for when no random platform can be got to, easiest
+// last: ever shorter gaps, each a little below, a little above and then
+// level with it.
+function easySteps(state: RunnerState, prev: Platform): Platform[] {
+  const { settings: s, world } = state;
+  const steps: Platform[] = [];
+  for (const gap of [s.gapMin, s.gapMin / 2, s.gapMin / 4]) {
+    for (const dy of EASY_DROPS) {
+      const y = clamp(prev.y + dy, world.height * 0.35, world.height * 0.88);
+      steps.push({ x: prev.x + prev.w + gap, y, w: s.platWidthMax });
+    }
+  }
+  return steps;
+}
+
+// `footing` on a platform that has just been made longer: the stretch that
+// ran to its old end now runs to the new one, which nothing stands on yet.
+function widened(footing: Footing, plat: Platform): Span[] {
+  const end = Math.max(...footing.spans.map((sp) => sp.to));
+  return footing.spans.map((sp) =>
+    sp.to === end ? { from: sp.from, to: plat.w - 5 } : sp,
+  );
+}
+
+// The platform after the newest one, with its coin and obstacle, always
+// leaving a way on to it and across it.
+function placeNext(state: RunnerState, prev: Platform) {
+  const { settings: s, world, rng } = state;
+  const arcs = leapsFor(s).map((leap) =>
+    flight(leap, speedAt(state, prev.x + prev.w), world.height),
+  );
+  const footing: Footing =
+    state.footing.platform === prev
+      ? state.footing
+      : { platform: prev, spans: [{ from: 0, to: prev.w - 5 }] };
+  const lastTakeoff = prev.x + Math.max(...footing.spans.map((sp) => sp.to));
+  const highest = prev.y - peak(arcs) + RISE_MARGIN;
+
+  let plat: Platform | null = null;
+  let spans: Span[] | null = null;
+  for (let i = 0; i < PLACE_TRIES && !spans; i++) {
+    const py = clamp(
+      state.groundY + rng.range(-60, 40),
+      Math.max(world.height * 0.35, highest),
+      world.height * 0.88,
+    );
+    const furthest =
+      lastTakeoff +
+      reach(arcs, py - prev.y) +
+      PLAYER_W -
+      SAFE_EDGE -
+      GAP_MARGIN -
+      (prev.x + prev.w);
+    const gap = Math.min(
+      rng.range(s.gapMin, clamp(furthest, s.gapMin, s.gapMax)),
+      furthest,
+    );
+    const pw = rng.range(s.platWidthMin, s.platWidthMax);
+    plat = { x: prev.x + prev.w + gap, y: py, w: pw };
+    spans = footingOn(state, arcs, footing, plat, []);
+  }
+  // nothing random worked out: easier and easier steps, down to a short
+  // hop at the same height
+  const steps = spans ? [] : easySteps(state, prev);
+  for (let i = 0; i < steps.length && !spans; i++) {
+    plat = steps[i];
+    spans = footingOn(state, arcs, footing, plat, []);
+    if (spans) ((globalThis as any).__fb ??= []).push(i);
+  }
+  if (!plat || !spans) {
+    ((globalThis as any).__fb ??= []).push("W");
+    // not even that: the last platform runs on instead, and the next one
+    // is tried from its new end
+    prev.w += s.platWidthMin;
+    state.footing = { platform: prev, spans: widened(footing, prev) };
+    return;
+  }
+  state.platforms.push(plat);
+
+  // Maybe add coin
+  if (rng.chance(s.coinChance)) {
+    state.coins.push({
+      x: plat.x + plat.w * rng.range(0.2, 0.8),
+      y: plat.y - rng.range(25, 45),
+      collected: false,
+    });
+  }
+  // Maybe add a power-up, out of reach without a jump
+  const kind = powerUpChances(s).find(([, chance]) => rng.chance(chance));
+  if (kind) {
+    state.powerUps.push({
+      x: plat.x + plat.w * rng.range(0.3, 0.7),
+      y: plat.y - rng.range(55, 80),
+      kind: kind[0],
+      collected: false,
+    });
+  }
+  // Maybe add obstacle
+  if (rng.chance(s.obstacleChance)) {
+    for (let i = 0; i < OBSTACLE_TRIES; i++) {
+      const obs = randomObstacle(rng, plat);
+      const around = footingOn(state, arcs, footing, plat, [obs]);
+      if (around) {
+        state.obstacles.push(obs);
+        spans = around;
+        break;
+      }
+    }
+  }
+
+  state.footing = { platform: plat, spans };
+}
+
+// Appends platforms (with their coins and obstacles) until the level
+// reaches SPAWN_AHEAD past the right edge of the world.
+function generateAhead(state: RunnerState) {
+  for (;;) {
+    const newest = state.platforms.reduce((a, b) =>
+      b.x + b.w > a.x + a.w ? b : a,
+    );
+    if (newest.x + newest.w >= state.world.width + SPAWN_AHEAD) return;
+    placeNext(state, newest);
+  }
+}
+
+// ── Simulation ─────────────────────────────────────────────
+function create(settings: GameSettings, seed: number, world: World): RunnerState {
+  const groundY = Math.floor(world.height * GROUND_Y_FRAC);
+  // a solid starting platform under the player
+  const start: Platform = { x: 0, y: groundY, w: 300 };
+  const state: RunnerState = {
+    tick: 0,
+    over: false,
+    settings,
+    world,
+    rng: createRng(seed),
+    player: {
+      x: 80,
+      y: groundY - PLAYER_H,
+      vy: 0,
+      w: PLAYER_W,
+      h: PLAYER_H,
+      onGround: true,
+      jumpsLeft: settings.doubleJump ? 2 : 1,
+      jumpHeld: false,
+      jumpHoldTime: 0,
+      slideHeld: false,
+      sliding: false,
+      runFrame: 0,
+      runTimer: 0,
+    },
+    platforms: [start],
+    obstacles: [],
+    coins: [],
+    powerUps: [],
+    powers: noPowers(),
+    revives: 0,
+    scrollSpeed: settings.baseSpeed,
+    distance: 0,
+    coinCount: 0,
+    groundY,
+    jumpPressed: false,
+    footing: { platform: start, spans: [{ from: 80, to: start.w - 5 }] },
+  };
+  generateAhead(state);
+  return state;
+}
+
+function input(state: RunnerState, input: RunnerInput) {
+  if (input === "jump") {
+    state.jumpPressed = true;
+  } else if (input === "release") {
+    state.player.jumpHeld = false;
+    state.player.jumpHoldTime = 0;
+  } else if (input === "slide" || input === "stand") {
+    state.player.slideHeld = input === "slide";
+  } else if (state.tick === 0) {
+    if (input.start === "revive") state.revives = 1;
+    else power(state, input.start);
+  }
+}
+
+// Starts a power-up's time over.
+function power(state: RunnerState, kind: PowerUpKind) {
+  state.powers[kind] = Math.round(POWER_UP_TIME[kind] / STEP);
+  if (kind === "tripleJump") state.player.jumpsLeft++;
+}
+
+// Brings the runner back from a death it has a revive for, shielded for a
+// moment: off the obstacle that hit it, or – after a fall – onto a bridge
+// running straight onto the next platform. False if it has none left.
+function revive(state: RunnerState, hit: Obstacle | null): boolean {
+  if (state.revives <= 0) return false;
+  state.revives--;
+  const { player } = state;
+  if (hit) {
+    state.obstacles = state.obstacles.filter((o) => o !== hit);
+  } else {
+    const next = state.platforms
+      .filter((p) => p.x > player.x)
+      .reduce((a, b) => (b.x < a.x ? b : a));
+    const x = player.x - 40;
+    state.platforms.push({ x, y: next.y, w: next.x - x });
+    player.y = next.y - player.h;
+    player.vy = 0;
+    player.onGround = true;
+    player.jumpsLeft = maxJumps(state);
+    player.jumpHeld = false;
+  }
+  state.powers.shield = Math.max(
+    state.powers.shield,
+    Math.round(REVIVE_SHIELD / STEP),
+  );
+  return true;
+}
+
+function update(state: RunnerState) {
+  const dt = stepTime(state);
+  const s = state.settings;
+  const player = state.player;
+  const jumps = maxJumps(state);
+  state.tick++;
+
+  // Process jump input
+  if (state.jumpPressed) {
+    state.jumpPressed = false;
+    if (player.jumpsLeft > 0) {
+      player.vy = JUMP_VELOCITY;
+      player.onGround = false;
+      player.jumpsLeft--;
+      player.jumpHeld = true;
+      player.jumpHoldTime = 0;
+      player.slideHeld = false;
+    }
+  }
+
+  // Hold for higher jump
+  if (player.jumpHeld) {
+    player.jumpHoldTime += dt;
+    if (player.jumpHoldTime < JUMP_HOLD_MAX) {
+      player.vy += JUMP_HOLD_BOOST * dt;
+    } else {
+      player.jumpHeld = false;
+    }
+  }
+
+  // Gravity
+  player.vy += GRAVITY * dt;
+  player.y += player.vy * dt;
+  player.onGround = false;
+
+  // Scroll
+  const scrollDist = state.scrollSpeed * dt;
+  state.distance += scrollDist;
+  state.scrollSpeed += s.acceleration * dt;
+
+  // Move world left
+  for (const p of state.platforms) p.x -= scrollDist;
+  for (const o of state.obstacles) {
+    o.x -= scrollDist;
+    o.lane -= scrollDist;
+    if (o.kind === "flyer") {
+      o.phase += dt * 3;
+      o.y = o.baseY + Math.sin(o.phase) * FLYER_SWAY;
+    } else if (o.kind === "projectile" && o.x < state.world.width) {
+      o.x -= PROJECTILE_SPEED * dt;
+    }
+  }
+  for (const c of state.coins) c.x -= scrollDist;
+  for (const u of state.powerUps) u.x -= scrollDist;
+
+  // Platform collision (land on top only)
+  for (const plat of state.platforms) {
+    if (
+      player.vy >= 0 &&
+      player.x + player.w > plat.x + 4 &&
+      player.x < plat.x + plat.w - 4 &&
+      player.y + player.h >= plat.y &&
+      player.y + player.h <= plat.y + PLATFORM_H + player.vy * dt + 4
+    ) {
+      player.y = plat.y - player.h;
+      player.vy = 0;
+      player.onGround = true;
+      player.jumpsLeft = jumps;
+      player.jumpHeld = false;
+    }
+  }
+
+  // Slide – on the ground only, keeping the runner's feet where they are
+  const sliding = player.slideHeld && player.onGround;
+  if (sliding !== player.sliding) {
+    const h = sliding ? SLIDE_H : PLAYER_H;
+    player.y += player.h - h;
+    player.h = h;
+    player.sliding = sliding;
+  }
+
+  // Obstacle collision – a shield takes the hit and the obstacle with it
+  for (const obs of state.obstacles) {
+    const shrink = 3; // collision forgiveness
+    if (
+      rectsOverlap(
+        player.x + shrink,
+        player.y + shrink,
+        player.w - shrink * 2,
+        player.h - shrink * 2,
+        obs.x + shrink,
+        obs.y + shrink,
+        obs.w - shrink * 2,
+        obs.h - shrink * 2,
+      )
+    ) {
+      if (state.powers.shield > 0) {
+        state.powers.shield = 0;
+        state.obstacles = state.obstacles.filter((o) => o !== obs);
+        break;
+      }
+      if (revive(state, obs)) break;
+      state.over = true;
+      return;
+    }
+  }
+
+  const px = player.x + player.w / 2;
+  const py = player.y + player.h / 2;
+
+  // Magnet pull
+  if (state.powers.magnet > 0) {
+    for (const coin of state.coins) {
+      if (coin.collected) continue;
+      const dist = Math.hypot(coin.x - px, coin.y - py);
+      if (dist > MAGNET_RANGE || dist === 0) continue;
+      const pull = Math.min(1, (MAGNET_PULL * dt) / dist);
+      coin.x += (px - coin.x) * pull;
+      coin.y += (py - coin.y) * pull;
+    }
+  }
+
+  // Coin collection
+  for (const coin of state.coins) {
+    if (coin.collected) continue;
+    if (Math.hypot(coin.x - px, coin.y - py) < COIN_R + 14) {
+      coin.collected = true;
+      state.coinCount++;
+    }
+  }
+
+  // Power-up collection; picking one up again starts its time over
+  for (const up of state.powerUps) {
+    if (up.collected) continue;
+    if (Math.hypot(up.x - px, up.y - py) < POWER_UP_R + 14) {
+      up.collected = true;
+      power(state, up.kind);
+    }
+  }
+
+  // Power-ups run out in real time, slow motion included
+  for (const kind of Object.keys(state.powers) as PowerUpKind[]) {
+    if (state.powers[kind] > 0) state.powers[kind]--;
+  }
+  player.jumpsLeft = Math.min(player.jumpsLeft, maxJumps(state));
+
+  // Remove off-screen objects
+  state.platforms = state.platforms.filter((p) => p.x + p.w > -50);
+  // projectiles drop away off the end of their platform
+  state.obstacles = state.obstacles.filter(
+    (o) => o.x + o.w > -50 && !(o.kind === "projectile" && o.x + o.w < o.lane),
+  );
+  state.coins = state.coins.filter((c) => c.x > -50);
+  state.powerUps = state.powerUps.filter((u) => u.x > -50);
+
+  // Generate new platforms ahead of the rightmost platform edge
+  generateAhead(state);
+
+  // Run animation
+  if (player.onGround) {
+    player.runTimer += dt;
+    if (player.runTimer > 0.1) {
+      player.runTimer = 0;
+      player.runFrame = (player.runFrame + 1) % 4;
+    }
+  }
+
+  // Fall death
+  if (player.y > state.world.height + 50 && !revive(state, null)) {
+    state.over = true;
+  }
+}
+
+export const runnerSim: Simulation<RunnerState, RunnerInput, GameSettings> = {
+  step: () => STEP,
+  create,
+  input,
+  update,
+  score: runnerScore,
+};
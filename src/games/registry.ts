@@ -0,0 +1,123 @@
+import { lazy } from "react";
+import type { ComponentType, LazyExoticComponent } from "react";
+import type { Demo } from "../engine/demo";
+
+// ── Types ──────────────────────────────────────────────────
+export type GameId =
+  | "flappy-bird"
+  | "snake"
+  | "match-three"
+  | "pixel-runner"
+  | "space-invaders";
+
+export type GameInput = "keyboard" | "mouse" | "touch";
+
+export interface GameManifest {
+  id: GameId;
+  title: string;
+  description: string;
+  path: string; // route path, also used as the Home card link
+  emoji: string;
+  // localStorage keys used before the storage module; only read to migrate
+  storageKeys: {
+    best: string; // best score, `${best}-${variant}` per variant
+    bestRun?: string; // best run's recording, `${bestRun}-${variant}`
+    leaderboard: string; // top scores, `${leaderboard}-${variant}`
+  };
+  variants: string[]; // difficulties with their own best, ghost and leaderboard
+  inputs: GameInput[];
+  component: LazyExoticComponent<ComponentType>;
+  // the game playing itself on Home, loaded along with the page's code
+  demo: () => Promise<() => Demo | null>;
+}
+
+// ── Manifest ───────────────────────────────────────────────
+// Order here is the order of the cards on Home.
+export const GAMES: GameManifest[] = [
+  {
+    id: "flappy-bird",
+    title: "Flappy Bird",
+    description:
+      "Tap to fly through the pipes! A classic arcade game that tests your timing and reflexes.",
+    path: "/flappy-bird",
+    emoji: "🐦",
+    storageKeys: {
+      best: "flappy-best",
+      bestRun: "flappy-best-run",
+      leaderboard: "flappy-leaderboard",
+    },
+    variants: ["easy", "medium", "hard", "custom"],
+    inputs: ["keyboard", "mouse", "touch"],
+    component: lazy(() => import("../pages/FlappyBird")),
+    demo: () => import("../pages/FlappyBird").then((m) => m.demo),
+  },
+  {
+    id: "snake",
+    title: "Snake",
+    description:
+      "Guide the snake, eat food, and grow longer. How long can you survive?",
+    path: "/snake",
+    emoji: "🐍",
+    storageKeys: {
+      best: "snake-best",
+      bestRun: "snake-best-run",
+      leaderboard: "snake-leaderboard",
+    },
+    variants: ["easy", "medium", "hard", "custom"],
+    inputs: ["keyboard", "touch"],
+    component: lazy(() => import("../pages/Snake")),
+    demo: () => import("../pages/Snake").then((m) => m.demo),
+  },
+  {
+    id: "match-three",
+    title: "Match Three",
+    description:
+      "Swap and match colorful gems in this addictive puzzle game. Race against the clock!",
+    path: "/match-three",
+    emoji: "💎",
+    storageKeys: { best: "match3-best", leaderboard: "match3-leaderboard" },
+    variants: ["easy", "medium", "hard"],
+    inputs: ["mouse", "touch"],
+    component: lazy(() => import("../pages/MatchThree")),
+    demo: () => import("../pages/MatchThree").then((m) => m.demo),
+  },
+  {
+    id: "pixel-runner",
+    title: "Pixel Runner",
+    description:
+      "Jump across platforms, slide under obstacles, and collect coins in this endless runner!",
+    path: "/pixel-runner",
+    emoji: "🏃",
+    storageKeys: {
+      best: "pixel-runner-best",
+      bestRun: "pixel-runner-best-run",
+      leaderboard: "pixel-runner-leaderboard",
+    },
+    variants: ["easy", "medium", "hard"],
+    inputs: ["keyboard", "mouse", "touch"],
+    component: lazy(() => import("../pages/PixelRunner")),
+    demo: () => import("../pages/PixelRunner").then((m) => m.demo),
+  },
+  {
+    id: "space-invaders",
+    title: "Space Invaders",
+    description:
+      "Defend Earth from waves of descending aliens! Dodge enemy fire and destroy them all.",
+    path: "/space-invaders",
+    emoji: "👾",
+    storageKeys: {
+      best: "space-invaders-best",
+      leaderboard: "space-invaders-leaderboard",
+    },
+    variants: ["easy", "medium", "hard"],
+    inputs: ["keyboard", "touch"],
+    component: lazy(() => import("../pages/SpaceInvaders")),
+    demo: () => import("../pages/SpaceInvaders").then((m) => m.demo),
+  },
+];
+
+const GAMES_BY_ID = new Map(GAMES.map((g) => [g.id, g]));
+
+export function getGame(id: GameId): GameManifest {
+  return GAMES_BY_ID.get(id)!;
+}
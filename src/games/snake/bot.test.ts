@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { gridWorld, simulate } from "../headless";
+import { createBot } from "./bot";
+import type { Strategy } from "./bot";
+import { PRESETS, snakeSim } from "./sim";
+import type { GameSettings } from "./sim";
+
+function play(strategy: Strategy, settings: GameSettings, maxTicks = 20000) {
+  const bot = createBot(strategy);
+  return simulate(snakeSim, "snake", settings, {
+    seed: 7,
+    world: gridWorld(settings.gridSize),
+    policy: (state) => bot.plan(state).dir,
+    maxTicks,
+  }).state;
+}
+
+describe("snake autopilot", () => {
+  it("heads for the food along the shortest path", () => {
+    const state = snakeSim.create(PRESETS.medium, 1, gridWorld(20));
+    state.food = { x: 10, y: 4 };
+    const plan = createBot("greedy").plan(state);
+    expect(plan.dir).toBe("up");
+    expect(plan.path).toHaveLength(6);
+    expect(plan.path.at(-1)).toEqual(state.food);
+  });
+
+  it("goes around its own body rather than through it", () => {
+    const state = snakeSim.create(PRESETS.medium, 1, gridWorld(20));
+    state.food = { x: 5, y: 10 };
+    const plan = createBot("safe").plan(state);
+    expect(plan.dir).not.toBe("left");
+    expect(plan.path.at(-1)).toEqual(state.food);
+  });
+
+  it("fills a grid with deadly walls on the Hamiltonian cycle", () => {
+    const settings = { speed: 10, gridSize: 10, wallTeleport: false };
+    const state = play("hamiltonian", settings);
+    expect(state.snake).toHaveLength(100);
+    expect(state.score).toBe(97);
+    expect(state.won).toBe(true);
+  });
+
+  it("fills an odd grid with deadly walls, trading the cell left out", () => {
+    const settings = { speed: 10, gridSize: 11, wallTeleport: false };
+    const state = play("hamiltonian", settings);
+    expect(state.snake).toHaveLength(121);
+    expect(state.won).toBe(true);
+  });
+
+  it("fills an odd grid when the walls wrap", () => {
+    const settings = { speed: 10, gridSize: 11, wallTeleport: true };
+    const state = play("hamiltonian", settings);
+    expect(state.snake).toHaveLength(121);
+  });
+
+  it("keeps eating on the safe path", () => {
+    const state = play("safe", PRESETS.medium, 3000);
+    expect(state.score).toBeGreaterThan(20);
+  });
+});
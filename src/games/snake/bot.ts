@@ -0,0 +1,348 @@
+import { DIRECTION_VECTORS } from "./sim";
+import type { Direction, GameSettings, Point, SnakeState } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+export type Strategy = "greedy" | "safe" | "hamiltonian";
+
+export interface Plan {
+  dir: Direction; // the move to make this tick
+  path: Point[]; // cells the bot means to visit, next cell first
+}
+
+export interface SnakeBot {
+  strategy: Strategy;
+  plan: (state: SnakeState) => Plan;
+}
+
+export const STRATEGIES: Record<Strategy, { label: string; hint: string }> = {
+  greedy: { label: "Greedy", hint: "Shortest path to the food" },
+  safe: { label: "Safe", hint: "Only eats if it can still reach its tail" },
+  hamiltonian: { label: "Hamiltonian", hint: "Follows a cycle over every cell" },
+};
+
+const DIRECTIONS: Direction[] = ["up", "right", "down", "left"];
+
+// ── Grid helpers ───────────────────────────────────────────
+// Cells are addressed by index (y * size + x) so the searches can use flat
+// arrays instead of string-keyed sets.
+function index(p: Point, size: number): number {
+  return p.y * size + p.x;
+}
+
+function pointAt(i: number, size: number): Point {
+  return { x: i % size, y: Math.floor(i / size) };
+}
+
+// The cell one move away, or -1 when that move runs into a deadly wall.
+function neighbour(
+  i: number,
+  dir: Direction,
+  { gridSize, wallTeleport }: GameSettings,
+): number {
+  const vec = DIRECTION_VECTORS[dir];
+  let x = (i % gridSize) + vec.x;
+  let y = Math.floor(i / gridSize) + vec.y;
+  if (wallTeleport) {
+    x = (x + gridSize) % gridSize;
+    y = (y + gridSize) % gridSize;
+  } else if (x < 0 || x >= gridSize || y < 0 || y >= gridSize) {
+    return -1;
+  }
+  return y * gridSize + x;
+}
+
+function directionTo(from: number, to: number, settings: GameSettings) {
+  return DIRECTIONS.find((d) => neighbour(from, d, settings) === to);
+}
+
+// The snake's body as blocked cells. The tail moves out of the way on the
+// next tick, so it stays free unless the snake is about to grow.
+function blockedBy(body: number[], size: number): Uint8Array {
+  const blocked = new Uint8Array(size * size);
+  for (let i = 1; i < body.length - 1; i++) blocked[body[i]] = 1;
+  return blocked;
+}
+
+// Breadth-first search from `from` to `to`; returns the cells after `from`
+// up to and including `to`, or null when `to` can't be reached.
+function shortestPath(
+  from: number,
+  to: number,
+  blocked: Uint8Array,
+  settings: GameSettings,
+): number[] | null {
+  const cells = settings.gridSize * settings.gridSize;
+  const parent = new Int32Array(cells).fill(-1);
+  parent[from] = from;
+  const queue = [from];
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    if (cell === to) break;
+    for (const dir of DIRECTIONS) {
+      const next = neighbour(cell, dir, settings);
+      if (next < 0 || parent[next] >= 0 || blocked[next]) continue;
+      parent[next] = cell;
+      queue.push(next);
+    }
+  }
+  if (parent[to] < 0 || from === to) return null;
+  const path: number[] = [];
+  for (let cell = to; cell !== from; cell = parent[cell]) path.push(cell);
+  return path.reverse();
+}
+
+// How many cells can be reached from `from` – a rough measure of how much
+// room a move leaves.
+function floodSize(
+  from: number,
+  blocked: Uint8Array,
+  settings: GameSettings,
+): number {
+  const seen = new Uint8Array(blocked.length);
+  seen[from] = 1;
+  const queue = [from];
+  for (let head = 0; head < queue.length; head++) {
+    for (const dir of DIRECTIONS) {
+      const next = neighbour(queue[head], dir, settings);
+      if (next < 0 || seen[next] || blocked[next]) continue;
+      seen[next] = 1;
+      queue.push(next);
+    }
+  }
+  return queue.length;
+}
+
+// ── Strategies ─────────────────────────────────────────────
+interface Board {
+  settings: GameSettings;
+  body: number[]; // head first
+  food: number;
+  dir: Direction;
+}
+
+function toBoard(state: SnakeState): Board {
+  const size = state.settings.gridSize;
+  return {
+    settings: state.settings,
+    body: state.snake.map((p) => index(p, size)),
+    food: index(state.food, size),
+    dir: state.dir,
+  };
+}
+
+function toPlan(board: Board, path: number[]): Plan {
+  const { settings, body } = board;
+  return {
+    dir: directionTo(body[0], path[0], settings) ?? board.dir,
+    path: path.map((i) => pointAt(i, settings.gridSize)),
+  };
+}
+
+function pathToFood(board: Board): number[] | null {
+  const { settings, body, food } = board;
+  return shortestPath(
+    body[0],
+    food,
+    blockedBy(body, settings.gridSize),
+    settings,
+  );
+}
+
+// Last resort: the move that leaves the most room, nearest the food on ties.
+function survive(board: Board): Plan {
+  const { settings, body, food } = board;
+  const size = settings.gridSize;
+  const blocked = blockedBy(body, size);
+  let best: { next: number; room: number; distance: number } | null = null;
+  for (const dir of DIRECTIONS) {
+    const next = neighbour(body[0], dir, settings);
+    const tail = body[body.length - 1];
+    if (next < 0 || blocked[next] || (next === tail && next === food)) continue;
+    blocked[next] = 1;
+    const room = floodSize(next, blocked, settings);
+    blocked[next] = 0;
+    const distance = shortestPath(next, food, blocked, settings)?.length ?? 0;
+    if (
+      !best ||
+      room > best.room ||
+      (room === best.room && distance < best.distance)
+    ) {
+      best = { next, room, distance };
+    }
+  }
+  return best ? toPlan(board, [best.next]) : { dir: board.dir, path: [] };
+}
+
+function greedy(board: Board): Plan {
+  const path = pathToFood(board);
+  return path ? toPlan(board, path) : survive(board);
+}
+
+// Where the snake would be after following `path`, eating at its end.
+function followPath(body: number[], path: number[]): number[] {
+  return [...path].reverse().concat(body).slice(0, body.length + 1);
+}
+
+// Only takes the food if the snake could still reach its own tail after
+// eating it; otherwise it chases its tail until a safe path opens up.
+function safe(board: Board): Plan {
+  const { settings, body } = board;
+  const size = settings.gridSize;
+  const path = pathToFood(board);
+  if (path) {
+    const after = followPath(body, path);
+    const tail = after[after.length - 1];
+    if (
+      after.length >= size * size ||
+      shortestPath(after[0], tail, blockedBy(after, size), settings)
+    ) {
+      return toPlan(board, path);
+    }
+  }
+  const tail = body[body.length - 1];
+  const toTail =
+    tail !== board.food && body.length > 2
+      ? shortestPath(body[0], tail, blockedBy(body, size), settings)
+      : null;
+  return toTail ? toPlan(board, toTail) : survive(board);
+}
+
+// ── Hamiltonian cycle ──────────────────────────────────────
+// A closed walk through every cell. With deadly walls one only exists when
+// the cell count is even, so an odd grid gets one through every cell but a
+// corner instead, and the snake trades the cell it leaves out whenever the
+// food lands there. Wrapping walls make any grid work.
+
+// `order[cell]` is the cell's position along the cycle, -1 for a cell it
+// leaves out.
+function buildCycle(settings: GameSettings): Int32Array {
+  const size = settings.gridSize;
+  const cycle: Point[] = [];
+  if (size % 2 === 0) {
+    // Snake through columns 1.. row by row, then return up column 0.
+    for (let y = 0; y < size; y++) {
+      for (let i = 1; i < size; i++) cycle.push({ x: y % 2 ? size - i : i, y });
+    }
+    for (let y = size - 1; y >= 0; y--) cycle.push({ x: 0, y });
+  } else if (settings.wallTeleport) {
+    // Each row starts one column further left, wrapping around the edges,
+    // so the last row ends directly above the first cell.
+    for (let y = 0; y < size; y++) {
+      for (let i = 0; i < size; i++) {
+        cycle.push({ x: (((i - y) % size) + size) % size, y });
+      }
+    }
+  } else {
+    // As for even grids down to the last two rows, which are zigzagged
+    // column by column back to column 0, leaving its bottom cell out.
+    for (let y = 0; y < size - 2; y++) {
+      for (let i = 1; i < size; i++) cycle.push({ x: y % 2 ? size - i : i, y });
+    }
+    for (let x = size - 1; x >= 1; x--) {
+      const down = (size - 1 - x) % 2 === 0;
+      cycle.push({ x, y: down ? size - 2 : size - 1 });
+      cycle.push({ x, y: down ? size - 1 : size - 2 });
+    }
+    for (let y = size - 2; y >= 0; y--) cycle.push({ x: 0, y });
+  }
+  const order = new Int32Array(size * size).fill(-1);
+  cycle.forEach((p, i) => (order[index(p, size)] = i));
+  return order;
+}
+
+interface Cycle {
+  key: string;
+  next: Int32Array; // -1 for the cell left out
+  prev: Int32Array;
+  out: number; // the cell left out, or -1
+}
+
+// The way round a 2x2 square the cycle takes through three of its cells,
+// skipping `out` in the fourth: `a` -> `b` -> `c` along `step`.
+function around(out: number, step: Int32Array, settings: GameSettings) {
+  for (const dir of DIRECTIONS) {
+    const a = neighbour(out, dir, settings);
+    if (a < 0) continue;
+    const b = step[a];
+    const c = b < 0 ? -1 : step[b];
+    if (c >= 0 && DIRECTIONS.some((d) => neighbour(out, d, settings) === c)) {
+      return { a, b, c };
+    }
+  }
+  return null;
+}
+
+function createHamiltonian(): (board: Board) => Plan {
+  let cycle: Cycle | null = null;
+
+  function cycleFor(settings: GameSettings): Cycle {
+    const key = `${settings.gridSize},${settings.wallTeleport}`;
+    if (cycle?.key === key) return cycle;
+    const order = buildCycle(settings);
+    const byOrder: number[] = [];
+    let out = -1;
+    order.forEach((o, cell) => {
+      if (o < 0) out = cell;
+      else byOrder[o] = cell;
+    });
+    const cells = byOrder.length;
+    const next = new Int32Array(order.length).fill(-1);
+    const prev = new Int32Array(order.length).fill(-1);
+    for (let o = 0; o < cells; o++) {
+      next[byOrder[o]] = byOrder[(o + 1) % cells];
+      prev[byOrder[o]] = byOrder[(o + cells - 1) % cells];
+    }
+    cycle = { key, next, prev, out };
+    return cycle;
+  }
+
+  return (board) => {
+    const cycle = cycleFor(board.settings);
+    const { next, prev } = cycle;
+    const { settings, body, food } = board;
+    // The snake starts in a straight line, so its body lies along the cycle
+    // one way or the other; follow whichever way keeps the body behind.
+    const forward = body[1] === prev[body[0]];
+    const step = forward ? next : prev;
+    const behind = forward ? prev : next;
+    if (!body.every((cell, i) => i === 0 || cell === behind[body[i - 1]])) {
+      return safe(board);
+    }
+    // Food in the cell left out: go round the square it shares with the
+    // cycle through it instead of the far corner, which is left out next.
+    const square = food === cycle.out && around(food, step, settings);
+    const target = square ? square.a : food;
+    const path: number[] = [];
+    let cell = body[0];
+    while (cell !== target && path.length < step.length) {
+      cell = step[cell];
+      path.push(cell);
+    }
+    if (square) {
+      path.push(food);
+      if (body[0] === square.a) {
+        step[square.a] = food;
+        step[food] = square.c;
+        behind[food] = square.a;
+        behind[square.c] = food;
+        step[square.b] = behind[square.b] = -1;
+        cycle.out = square.b;
+      }
+    }
+    return toPlan(board, path);
+  };
+}
+
+// ── Bot ────────────────────────────────────────────────────
+// Deterministic, so a page can feed its moves through the normal input path
+// (and record them) and headless runs can use it as a policy. The
+// Hamiltonian bot reshapes its cycle as it goes: use one bot per run.
+export function createBot(strategy: Strategy): SnakeBot {
+  const choose =
+    strategy === "greedy"
+      ? greedy
+      : strategy === "safe"
+        ? safe
+        : createHamiltonian();
+  return { strategy, plan: (state) => choose(toBoard(state)) };
+}
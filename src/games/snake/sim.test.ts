@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { PRESETS, snakeSim } from "./sim";
+import type { GameSettings, Point, SnakeState } from "./sim";
+
+// A snake laid out by hand, with the food parked out of the way.
+function setup(
+  settings: Partial<GameSettings>,
+  snake: Point[],
+  food: Point = { x: 0, y: 0 },
+): SnakeState {
+  const state = snakeSim.create({ ...PRESETS.medium, ...settings }, 1, {
+    width: 10,
+    height: 10,
+  });
+  state.snake = snake.map((p) => ({ ...p }));
+  state.food = { ...food };
+  return state;
+}
+
+describe("snake walls", () => {
+  const atRightEdge = [
+    { x: 9, y: 5 },
+    { x: 8, y: 5 },
+    { x: 7, y: 5 },
+  ];
+
+  it("wraps to the other side when walls teleport", () => {
+    const state = setup({ gridSize: 10, wallTeleport: true }, atRightEdge);
+    snakeSim.update(state);
+    expect(state.over).toBe(false);
+    expect(state.snake[0]).toEqual({ x: 0, y: 5 });
+    expect(state.snake).toHaveLength(3);
+  });
+
+  it("wraps across the top edge too", () => {
+    const state = setup({ gridSize: 10, wallTeleport: true }, [
+      { x: 4, y: 0 },
+      { x: 4, y: 1 },
+      { x: 4, y: 2 },
+    ]);
+    state.dir = state.nextDir = "up";
+    snakeSim.update(state);
+    expect(state.snake[0]).toEqual({ x: 4, y: 9 });
+  });
+
+  it("ends the game at the wall when walls are deadly", () => {
+    const state = setup({ gridSize: 10, wallTeleport: false }, atRightEdge);
+    snakeSim.update(state);
+    expect(state.over).toBe(true);
+    expect(state.snake[0]).toEqual({ x: 9, y: 5 });
+  });
+});
+
+describe("snake self-collision", () => {
+  // A 2x2 loop: the head at (5,5) moving up reaches (5,4), where the tail is.
+  const loop = [
+    { x: 5, y: 5 },
+    { x: 6, y: 5 },
+    { x: 6, y: 4 },
+    { x: 5, y: 4 },
+  ];
+
+  it("can follow its own tail, which moves out of the way", () => {
+    const state = setup({ gridSize: 10 }, loop);
+    state.dir = state.nextDir = "up";
+    snakeSim.update(state);
+    expect(state.over).toBe(false);
+    expect(state.snake[0]).toEqual({ x: 5, y: 4 });
+    expect(state.snake).toHaveLength(4);
+  });
+
+  it("hits its tail when eating keeps the tail in place", () => {
+    const state = setup({ gridSize: 10 }, loop, { x: 5, y: 4 });
+    state.dir = state.nextDir = "up";
+    snakeSim.update(state);
+    expect(state.over).toBe(true);
+    expect(state.score).toBe(0);
+  });
+
+  it("dies running into its body", () => {
+    const state = setup({ gridSize: 10 }, [
+      { x: 5, y: 5 },
+      { x: 6, y: 5 },
+      { x: 6, y: 4 },
+      { x: 5, y: 4 },
+      { x: 4, y: 4 },
+    ]);
+    state.dir = state.nextDir = "up";
+    snakeSim.update(state);
+    expect(state.over).toBe(true);
+  });
+
+  it("ignores turning straight back onto itself", () => {
+    const state = setup({ gridSize: 10 }, [
+      { x: 5, y: 5 },
+      { x: 4, y: 5 },
+      { x: 3, y: 5 },
+    ]);
+    snakeSim.input(state, "left");
+    snakeSim.update(state);
+    expect(state.over).toBe(false);
+    expect(state.snake[0]).toEqual({ x: 6, y: 5 });
+  });
+});
+
+describe("snake board full", () => {
+  it("wins once the snake fills every cell", () => {
+    const state = setup(
+      { gridSize: 2 },
+      [
+        { x: 1, y: 1 },
+        { x: 1, y: 0 },
+        { x: 0, y: 0 },
+      ],
+      { x: 0, y: 1 },
+    );
+    state.dir = "down";
+    snakeSim.input(state, "left");
+    snakeSim.update(state);
+    expect(state.snake).toHaveLength(4);
+    expect(state.score).toBe(1);
+    expect(state.won).toBe(true);
+    expect(state.over).toBe(true);
+  });
+});
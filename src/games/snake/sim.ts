@@ -0,0 +1,159 @@
+import { createRng } from "../../engine/rng";
+import type { Rng } from "../../engine/rng";
+import type { SettingRange, SimState, Simulation } from "../../engine/sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface GameSettings {
+  speed: number; // ticks per second
+  gridSize: number; // cells per row/col
+  wallTeleport: boolean;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Direction = "up" | "down" | "left" | "right";
+export type Difficulty = "easy" | "medium" | "hard" | "custom";
+
+export type SnakeInput = Direction;
+
+export interface SnakeState extends SimState {
+  settings: GameSettings;
+  rng: Rng;
+  snake: Point[]; // head first
+  prevSnake: Point[]; // positions before the last tick, for interpolation
+  food: Point;
+  dir: Direction; // direction of the last move
+  nextDir: Direction; // direction of the next move
+  score: number;
+  won: boolean; // the snake filled the board, which ends the game
+}
+
+// ── Presets ────────────────────────────────────────────────
+export const PRESETS: Record<Exclude<Difficulty, "custom">, GameSettings> = {
+  easy: { speed: 8, gridSize: 15, wallTeleport: true },
+  medium: { speed: 12, gridSize: 20, wallTeleport: false },
+  hard: { speed: 18, gridSize: 25, wallTeleport: false },
+};
+
+export const CUSTOM_LIMITS: Record<"speed" | "gridSize", SettingRange> = {
+  speed: { min: 4, max: 25, step: 1 },
+  gridSize: { min: 10, max: 35, step: 1 },
+};
+
+export const DIRECTION_VECTORS: Record<Direction, Point> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const OPPOSITE: Record<Direction, Direction> = {
+  up: "down",
+  down: "up",
+  left: "right",
+  right: "left",
+};
+
+// ── Helpers ────────────────────────────────────────────────
+export function spawnFood(gridSize: number, snake: Point[], rng: Rng): Point {
+  const occupied = new Set(snake.map((p) => `${p.x},${p.y}`));
+  const free: Point[] = [];
+  for (let x = 0; x < gridSize; x++) {
+    for (let y = 0; y < gridSize; y++) {
+      if (!occupied.has(`${x},${y}`)) free.push({ x, y });
+    }
+  }
+  return free.length > 0 ? rng.pick(free) : { x: 0, y: 0 };
+}
+
+// ── Simulation ─────────────────────────────────────────────
+function create(settings: GameSettings, seed: number): SnakeState {
+  const rng = createRng(seed);
+  const mid = Math.floor(settings.gridSize / 2);
+  const snake = [
+    { x: mid, y: mid },
+    { x: mid - 1, y: mid },
+    { x: mid - 2, y: mid },
+  ];
+  return {
+    tick: 0,
+    over: false,
+    settings,
+    rng,
+    snake,
+    prevSnake: snake.map((p) => ({ ...p })),
+    food: spawnFood(settings.gridSize, snake, rng),
+    dir: "right",
+    nextDir: "right",
+    score: 0,
+    won: false,
+  };
+}
+
+// Turning back onto yourself is ignored, checked against the last move so
+// two quick presses between ticks can't reverse the snake.
+function input(state: SnakeState, dir: SnakeInput) {
+  if (dir !== OPPOSITE[state.dir]) state.nextDir = dir;
+}
+
+function update(state: SnakeState) {
+  const { gridSize, wallTeleport } = state.settings;
+  const snake = state.snake;
+  state.tick++;
+  state.prevSnake = snake.map((p) => ({ ...p }));
+  state.dir = state.nextDir;
+  const vec = DIRECTION_VECTORS[state.dir];
+  const head = snake[0];
+
+  const newHead: Point = { x: head.x + vec.x, y: head.y + vec.y };
+
+  // wall handling
+  if (wallTeleport) {
+    newHead.x = ((newHead.x % gridSize) + gridSize) % gridSize;
+    newHead.y = ((newHead.y % gridSize) + gridSize) % gridSize;
+  } else if (
+    newHead.x < 0 ||
+    newHead.x >= gridSize ||
+    newHead.y < 0 ||
+    newHead.y >= gridSize
+  ) {
+    state.over = true;
+    return;
+  }
+
+  // self collision (check against all but the tail which will be removed — unless eating)
+  const willEat = newHead.x === state.food.x && newHead.y === state.food.y;
+  const bodyToCheck = willEat ? snake : snake.slice(0, -1);
+  for (const seg of bodyToCheck) {
+    if (seg.x === newHead.x && seg.y === newHead.y) {
+      state.over = true;
+      return;
+    }
+  }
+
+  // move
+  snake.unshift(newHead);
+  if (willEat) {
+    state.score++;
+    // no cell left for food: the board is full and the game is won
+    if (snake.length === gridSize * gridSize) {
+      state.won = true;
+      state.over = true;
+      return;
+    }
+    state.food = spawnFood(gridSize, snake, state.rng);
+  } else {
+    snake.pop();
+  }
+}
+
+export const snakeSim: Simulation<SnakeState, SnakeInput, GameSettings> = {
+  step: (settings) => 1 / settings.speed,
+  create,
+  input,
+  update,
+  score: (state) => state.score,
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WORLD, simulate } from "../headless";
+import { autopilotPolicy, decide } from "./bot";
+import { BULLET_W, PLAYER_W, PRESETS, UFO_POINTS, invadersSim } from "./sim";
+import type { InvadersState } from "./sim";
+
+// A game where the aliens hold still and never fire, so only what each
+// test sets up moves.
+function setup(): InvadersState {
+  const state = invadersSim.create(PRESETS.medium, 1, DEFAULT_WORLD);
+  state.stepTimer = -Infinity;
+  state.enemyFireTimer = -Infinity;
+  state.ufoTimer = -Infinity;
+  return state;
+}
+
+function play(state: InvadersState, ticks: number) {
+  const policy = autopilotPolicy();
+  for (let i = 0; i < ticks && !state.over; i++) {
+    const input = policy(state);
+    if (input && !Array.isArray(input)) invadersSim.input(state, input);
+    invadersSim.update(state);
+  }
+}
+
+describe("space invaders autopilot", () => {
+  it("steps out from under an enemy bullet", () => {
+    const state = setup();
+    state.bullets = [
+      {
+        x: state.playerX + PLAYER_W / 2,
+        y: state.playerY - 60,
+        dy: 300,
+        owner: "enemy",
+      },
+    ];
+    expect(decide(state).move).not.toBe(0);
+    play(state, 60);
+    expect(state.lives).toBe(PRESETS.medium.lives);
+  });
+
+  it("holds fire while its only bullet is in flight", () => {
+    const state = setup();
+    const target = state.aliens.at(-1)!;
+    state.playerX = target.x + target.w / 2 - PLAYER_W / 2;
+    expect(decide(state)).toEqual({ move: 0, fire: true });
+    state.bullets = [
+      {
+        x: state.playerX + PLAYER_W / 2 - BULLET_W / 2,
+        y: 400,
+        dy: -PRESETS.medium.bulletSpeed,
+        owner: "player",
+      },
+    ];
+    expect(decide(state).fire).toBe(false);
+  });
+
+  it("shoots down the UFO when it has a clear shot", () => {
+    const state = setup();
+    for (const a of state.aliens) a.alive = a.col === 0;
+    state.alienCount = PRESETS.medium.rows;
+    state.ufo = {
+      ...state.ufo,
+      active: true,
+      x: DEFAULT_WORLD.width,
+      y: 28,
+      dx: -120,
+    };
+    play(state, 120 * 5);
+    expect(state.score).toBeGreaterThanOrEqual(UFO_POINTS);
+  });
+
+  it("clears a wave on hard without being hit", () => {
+    const run = simulate(invadersSim, "space-invaders", PRESETS.hard, {
+      seed: 1,
+      world: DEFAULT_WORLD,
+      policy: autopilotPolicy(),
+      maxTicks: 120 * 90,
+    });
+    expect(run.state.over).toBe(false);
+    expect(run.state.wave).toBeGreaterThan(1);
+    expect(run.state.lives).toBe(PRESETS.hard.lives);
+  });
+});
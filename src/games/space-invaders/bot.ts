@@ -0,0 +1,200 @@
+import type { Policy } from "../headless";
+import { BULLET_H, BULLET_W, PLAYER_H, PLAYER_W, STEP } from "./sim";
+import type { Controls, InvadersInput, InvadersState } from "./sim";
+
+// ── Types ──────────────────────────────────────────────────
+// Something worth shooting, where it will be when a shot fired now (or as
+// soon as the ship gets under it) arrives.
+interface Target {
+  x: number; // left edge of the ship that lines up the shot
+  slack: number; // how far off that the ship can be and still hit
+  ufo: boolean;
+}
+
+// A way of moving over the next moments: hold `move` for `hold` seconds,
+// then stand still.
+interface Manoeuvre {
+  move: -1 | 0 | 1;
+  hold: number;
+}
+
+// How far ahead the pilot looks for enemy fire.
+const HORIZON = 0.8; // s
+const HOLDS = [0.05, 0.1, 0.2, 0.35, HORIZON];
+
+// ── Prediction ────────────────────────────────────────────
+// Where the formation will have moved `ms` from now, stepping it the way the
+// sim does: sideways each step until an edge, then down and back.
+function formationShift(state: InvadersState, ms: number) {
+  const { settings: s, world } = state;
+  let left = Infinity;
+  let right = -Infinity;
+  for (const a of state.aliens) {
+    if (!a.alive) continue;
+    left = Math.min(left, a.x);
+    right = Math.max(right, a.x + a.w);
+  }
+  let dx = 0;
+  let dy = 0;
+  let dir = state.alienDir;
+  const steps = Math.floor((state.stepTimer + ms) / state.stepInterval);
+  for (let i = 0; i < steps; i++) {
+    const move = dir * s.alienSpeed;
+    if (left + dx + move < 4 || right + dx + move > world.width - 4) {
+      dir = -dir as 1 | -1;
+      dy += s.alienDropPx;
+    } else {
+      dx += move;
+    }
+  }
+  return { dx, dy };
+}
+
+// Seconds until a shot fired now reaches the bottom of something at `y`.
+function flightTime(state: InvadersState, bottom: number): number {
+  const muzzle = state.playerY - BULLET_H;
+  return Math.max(0, muzzle - bottom) / state.settings.bulletSpeed;
+}
+
+// Seconds the ship needs to slide to `x`.
+function travelTime(state: InvadersState, x: number): number {
+  return Math.abs(x - state.playerX) / state.settings.playerSpeed;
+}
+
+function clampX(state: InvadersState, x: number): number {
+  return Math.max(4, Math.min(state.world.width - PLAYER_W - 4, x));
+}
+
+// ── Targets ───────────────────────────────────────────────
+// The UFO, if the ship can get under it in time and no alien would stop
+// the shot on its way up.
+function ufoTarget(state: InvadersState): Target | null {
+  const { ufo, world } = state;
+  if (!ufo.active) return null;
+  const fly = flightTime(state, ufo.y + ufo.h);
+  // Lead it: where it will be once the ship is there and the shot arrives.
+  // Two rounds settle the estimate well enough.
+  let x = state.playerX;
+  for (let i = 0; i < 2; i++) {
+    const t = travelTime(state, x) + fly;
+    x = clampX(state, ufo.x + ufo.dx * t + ufo.w / 2 - PLAYER_W / 2);
+  }
+  const t = travelTime(state, x) + fly;
+  const ufoX = ufo.x + ufo.dx * t;
+  if (ufoX + ufo.w < 0 || ufoX > world.width) return null;
+  if (Math.abs(ufoX + ufo.w / 2 - (x + PLAYER_W / 2)) > ufo.w / 2) return null;
+
+  const shot = x + PLAYER_W / 2 - BULLET_W / 2;
+  const shift = formationShift(state, t * 1000);
+  const blocked = state.aliens.some(
+    (a) =>
+      a.alive &&
+      a.x + shift.dx < shot + BULLET_W &&
+      a.x + shift.dx + a.w > shot &&
+      a.y + shift.dy > ufo.y,
+  );
+  if (blocked) return null;
+  return { x, slack: (ufo.w - BULLET_W) / 2 - 4, ufo: true };
+}
+
+// The lowest alien – the one closest to landing and the likeliest to be
+// shooting – breaking ties by whichever the ship reaches first.
+function alienTarget(state: InvadersState): Target | null {
+  let lowest = -Infinity;
+  for (const a of state.aliens) if (a.alive) lowest = Math.max(lowest, a.y);
+  let best: Target | null = null;
+  let bestTime = Infinity;
+  for (const a of state.aliens) {
+    if (!a.alive || a.y !== lowest) continue;
+    const fly = flightTime(state, a.y + a.h);
+    let x = state.playerX;
+    for (let i = 0; i < 2; i++) {
+      const shift = formationShift(state, (travelTime(state, x) + fly) * 1000);
+      x = clampX(state, a.x + shift.dx + a.w / 2 - PLAYER_W / 2);
+    }
+    const time = travelTime(state, x);
+    if (time < bestTime) {
+      bestTime = time;
+      best = { x, slack: (a.w - BULLET_W) / 2 - 3, ufo: false };
+    }
+  }
+  return best;
+}
+
+// ── Dodging ───────────────────────────────────────────────
+function shipX(state: InvadersState, { move, hold }: Manoeuvre, t: number) {
+  const moved = Math.min(t, hold) * move * state.settings.playerSpeed;
+  return clampX(state, state.playerX + moved);
+}
+
+// Seconds until the first enemy bullet would hit the ship flying this
+// manoeuvre, or Infinity if none does within the horizon. Shields are
+// ignored: trusting one that may already be shot through costs a life.
+function timeToHit(state: InvadersState, manoeuvre: Manoeuvre): number {
+  const { playerY } = state;
+  const bullets = state.bullets.filter(
+    (b) => b.owner === "enemy" && b.y < playerY + PLAYER_H,
+  );
+  if (bullets.length === 0) return Infinity;
+  // Checked every physics step, as the sim does: the ship moves before the
+  // bullets, so even the very next step can graze one.
+  for (let t = STEP; t <= HORIZON; t += STEP) {
+    const x = shipX(state, manoeuvre, t);
+    for (const b of bullets) {
+      const y = b.y + b.dy * t;
+      if (
+        b.x < x + PLAYER_W &&
+        b.x + BULLET_W > x &&
+        y < playerY + PLAYER_H &&
+        y + BULLET_H > playerY
+      ) {
+        return t;
+      }
+    }
+  }
+  return Infinity;
+}
+
+// ── Piloting ──────────────────────────────────────────────
+// The controls to hold this step. The pilot heads for the best target it
+// can find – the UFO when there is a clear shot at it, otherwise the lowest
+// alien – but only along a path no enemy bullet crosses; when every path
+// is hit, it takes the one hit last. It fires once lined up and only while
+// it has a bullet to spare, so it never wastes the trigger.
+export function decide(state: InvadersState): Controls {
+  const target = ufoTarget(state) ?? alienTarget(state);
+  const goal = target ? target.x : state.playerX;
+
+  const options: Manoeuvre[] = [{ move: 0, hold: 0 }];
+  for (const move of [-1, 1] as const) {
+    for (const hold of HOLDS) options.push({ move, hold });
+  }
+  let best = options[0];
+  let bestHit = -1;
+  let bestMiss = Infinity;
+  for (const option of options) {
+    const hit = timeToHit(state, option);
+    const miss = Math.abs(shipX(state, option, option.hold) - goal);
+    if (hit > bestHit || (hit === bestHit && miss < bestMiss)) {
+      best = option;
+      bestHit = hit;
+      bestMiss = miss;
+    }
+  }
+
+  const inFlight = state.bullets.filter((b) => b.owner === "player").length;
+  const lined =
+    target !== null && Math.abs(state.playerX - target.x) <= target.slack;
+  const fire = lined && inFlight < state.settings.maxPlayerBullets;
+  return { move: best.move, fire };
+}
+
+// Sends the pilot's controls whenever they change, the way the keyboard
+// handler does.
+export function autopilotPolicy(): Policy<InvadersState, InvadersInput> {
+  return (state) => {
+    const controls = decide(state);
+    const { move, fire } = state.controls;
+    if (controls.move !== move || controls.fire !== fire) return controls;
+  };
+}
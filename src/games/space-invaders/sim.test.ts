@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALIEN_POINTS,
+  BULLET_H,
+  BULLET_W,
+  PRESETS,
+  SHIELD_BLOCK,
+  SHIELD_COLS,
+  SHIELD_ROWS,
+  invadersSim,
+} from "./sim";
+import type { InvadersState } from "./sim";
+
+const WORLD = { width: 800, height: 600 };
+
+// A game where the aliens hold still and never fire, so only the bullets
+// placed by each test move.
+function setup(): InvadersState {
+  const state = invadersSim.create(PRESETS.medium, 1, WORLD);
+  state.stepTimer = -Infinity;
+  state.enemyFireTimer = -Infinity;
+  state.ufoTimer = -Infinity;
+  return state;
+}
+
+function remaining(state: InvadersState, shield = 0): number {
+  return state.shields[shield].blocks.flat().filter(Boolean).length;
+}
+
+describe("space invaders shields", () => {
+  it("loses blocks where an enemy bullet lands on top", () => {
+    const state = setup();
+    const shield = state.shields[0];
+    const before = remaining(state);
+    const col = 3;
+    state.bullets = [
+      {
+        x: shield.x + col * SHIELD_BLOCK + SHIELD_BLOCK / 2 - BULLET_W / 2,
+        y: shield.y - BULLET_H + 2,
+        dy: 100,
+        owner: "enemy",
+      },
+    ];
+
+    invadersSim.update(state);
+    expect(shield.blocks[0][col]).toBe(false);
+    expect(state.bullets).toHaveLength(0);
+    // a neighbour may go too, for more visible erosion
+    const lost = before - remaining(state);
+    expect(lost).toBeGreaterThanOrEqual(1);
+    expect(lost).toBeLessThanOrEqual(2);
+  });
+
+  it("is eaten from below by the player's bullets", () => {
+    const state = setup();
+    const shield = state.shields[1];
+    const bottom = SHIELD_ROWS - 1;
+    state.bullets = [
+      {
+        x: shield.x + SHIELD_BLOCK / 2 - BULLET_W / 2,
+        y: shield.y + SHIELD_ROWS * SHIELD_BLOCK - 2,
+        dy: -100,
+        owner: "player",
+      },
+    ];
+
+    invadersSim.update(state);
+    expect(shield.blocks[bottom][0]).toBe(false);
+    expect(shield.blocks[0][0]).toBe(true);
+    expect(state.bullets).toHaveLength(0);
+  });
+
+  it("lets bullets through the arch where blocks are gone", () => {
+    const state = setup();
+    const shield = state.shields[0];
+    const col = Math.floor(SHIELD_COLS / 2);
+    const before = remaining(state);
+    state.bullets = [
+      {
+        x: shield.x + col * SHIELD_BLOCK + SHIELD_BLOCK / 2 - BULLET_W / 2,
+        y: shield.y + SHIELD_ROWS * SHIELD_BLOCK - 2,
+        dy: -1,
+        owner: "player",
+      },
+    ];
+
+    invadersSim.update(state);
+    expect(remaining(state)).toBe(before);
+    expect(state.bullets).toHaveLength(1);
+  });
+});
+
+describe("space invaders waves", () => {
+  it("starts the next wave once the last alien is shot", () => {
+    const state = setup();
+    const shields = state.shields;
+    const [last, ...rest] = state.aliens;
+    for (const a of rest) a.alive = false;
+    state.alienCount = 1;
+    state.bullets = [
+      {
+        x: last.x + last.w / 2,
+        y: last.y + last.h - 2,
+        dy: -1,
+        owner: "player",
+      },
+    ];
+
+    invadersSim.update(state);
+    expect(state.wave).toBe(2);
+    expect(state.score).toBe(ALIEN_POINTS[last.type]);
+    const { rows, cols } = PRESETS.medium;
+    expect(state.aliens).toHaveLength(rows * cols);
+    expect(state.aliens.every((a) => a.alive)).toBe(true);
+    expect(state.alienCount).toBe(rows * cols);
+    // shields carry over between waves
+    expect(state.shields).toBe(shields);
+  });
+
+  it("starts later waves lower, faster and worth more", () => {
+    const state = setup();
+    const firstY = state.aliens[0].y;
+    const firstInterval = state.stepInterval;
+    for (const a of state.aliens) a.alive = false;
+    state.alienCount = 0;
+
+    invadersSim.update(state);
+    expect(state.wave).toBe(2);
+    expect(state.aliens[0].y).toBe(firstY + 8);
+    expect(state.stepInterval).toBeLessThan(firstInterval);
+
+    const target = state.aliens[0];
+    state.stepTimer = -Infinity;
+    state.enemyFireTimer = -Infinity;
+    state.bullets = [
+      { x: target.x + 4, y: target.y + 4, dy: -1, owner: "player" },
+    ];
+    invadersSim.update(state);
+    expect(state.score).toBe(ALIEN_POINTS[target.type] * 2);
+  });
+});
@@ -0,0 +1,486 @@
+import { createRng } from "../../engine/rng";
+import type { Rng } from "../../engine/rng";
+import type { SimState, Simulation, World } from "../../engine/sim";
+
+// ── Types ──────────────────────────────────────────────────
+export interface GameSettings {
+  rows: number;
+  cols: number;
+  alienSpeed: number; // base px/step
+  alienDropPx: number;
+  enemyFireInterval: number; // ms between enemy shots
+  playerSpeed: number; // px/s
+  bulletSpeed: number; // px/s
+  lives: number;
+  maxPlayerBullets: number;
+}
+
+export interface Alien {
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  alive: boolean;
+  type: number; // 0=top(squid), 1=mid(crab), 2=bot(octopus)
+  animFrame: number;
+}
+
+export interface Bullet {
+  x: number;
+  y: number;
+  dy: number; // negative = up (player), positive = down (enemy)
+  owner: "player" | "enemy";
+}
+
+export interface Shield {
+  x: number;
+  y: number;
+  blocks: boolean[][]; // 4-row x 8-col grid of alive blocks
+}
+
+export interface UFO {
+  active: boolean;
+  x: number;
+  y: number;
+  dx: number;
+  w: number;
+  h: number;
+}
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export interface Controls {
+  move: -1 | 0 | 1; // horizontal direction currently held
+  fire: boolean; // fire held – shoots whenever the cooldown allows
+}
+
+// Held controls are sent whenever they change; "shoot" fires a single
+// shot on the next update (touch taps).
+export type InvadersInput = Controls | "shoot";
+
+export interface InvadersState extends SimState {
+  settings: GameSettings;
+  world: World;
+  rng: Rng;
+  controls: Controls;
+  shootQueued: boolean;
+  aliens: Alien[];
+  bullets: Bullet[];
+  shields: Shield[];
+  ufo: UFO;
+  playerX: number;
+  playerY: number;
+  score: number;
+  lives: number;
+  wave: number;
+  alienDir: 1 | -1;
+  stepTimer: number;
+  stepInterval: number;
+  enemyFireTimer: number;
+  ufoTimer: number;
+  alienCount: number;
+  alienAnimFrame: number;
+  invincibleUntil: number; // brief invincibility after hit (game clock ms)
+  clock: number; // ms of game time this wave
+  shootCooldown: number;
+}
+
+// ── Constants ─────────────────────────────────────────────
+export const PRESETS: Record<Difficulty, GameSettings> = {
+  easy: {
+    rows: 4,
+    cols: 6,
+    alienSpeed: 12,
+    alienDropPx: 18,
+    enemyFireInterval: 1800,
+    playerSpeed: 280,
+    bulletSpeed: 450,
+    lives: 4,
+    maxPlayerBullets: 2,
+  },
+  medium: {
+    rows: 5,
+    cols: 8,
+    alienSpeed: 14,
+    alienDropPx: 20,
+    enemyFireInterval: 1200,
+    playerSpeed: 300,
+    bulletSpeed: 480,
+    lives: 3,
+    maxPlayerBullets: 1,
+  },
+  hard: {
+    rows: 5,
+    cols: 10,
+    alienSpeed: 18,
+    alienDropPx: 22,
+    enemyFireInterval: 800,
+    playerSpeed: 320,
+    bulletSpeed: 520,
+    lives: 2,
+    maxPlayerBullets: 1,
+  },
+};
+
+export const ALIEN_W = 28;
+export const ALIEN_H = 22;
+export const ALIEN_PAD_X = 10;
+export const ALIEN_PAD_Y = 10;
+export const PLAYER_W = 36;
+export const PLAYER_H = 22;
+export const BULLET_W = 3;
+export const BULLET_H = 10;
+export const SHIELD_BLOCK = 6;
+export const SHIELD_ROWS = 4;
+export const SHIELD_COLS = 8;
+export const UFO_W = 36;
+export const UFO_H = 16;
+export const ALIEN_POINTS = [40, 20, 10]; // type 0, 1, 2
+export const UFO_POINTS = 200;
+export const STEP_INTERVAL_BASE = 600; // ms per formation step at full count
+export const STEP_INTERVAL_MIN = 80;
+export const STEP = 1 / 120; // seconds per physics step
+
+// ── Pure helpers ──────────────────────────────────────────
+export function rectsOverlap(
+  ax: number, ay: number, aw: number, ah: number,
+  bx: number, by: number, bw: number, bh: number,
+): boolean {
+  return ax < bx + bw && ax + aw > bx && ay < by + bh && ay + ah > by;
+}
+
+function buildShields(world: World): Shield[] {
+  const shields: Shield[] = [];
+  const shieldCount = world.width < 400 ? 3 : 4;
+  const shieldW = SHIELD_COLS * SHIELD_BLOCK;
+  const totalShieldW = shieldCount * shieldW;
+  const shieldGap = (world.width - totalShieldW) / (shieldCount + 1);
+  const shieldY = world.height - 100;
+  for (let i = 0; i < shieldCount; i++) {
+    const blocks: boolean[][] = [];
+    for (let r = 0; r < SHIELD_ROWS; r++) {
+      blocks[r] = [];
+      for (let cc = 0; cc < SHIELD_COLS; cc++) {
+        // Arch shape: remove bottom-center blocks
+        blocks[r][cc] = !(r >= SHIELD_ROWS - 1 && cc >= 2 && cc <= SHIELD_COLS - 3);
+      }
+    }
+    shields.push({
+      x: shieldGap + i * (shieldW + shieldGap),
+      y: shieldY,
+      blocks,
+    });
+  }
+  return shields;
+}
+
+// Lays out the formation for `wave` and resets everything that doesn't
+// carry over. Score, lives and shields survive between waves.
+export function startWave(state: InvadersState, wave: number) {
+  const { settings: s, world } = state;
+
+  // Alien grid
+  const gridW = s.cols * (ALIEN_W + ALIEN_PAD_X) - ALIEN_PAD_X;
+  const startX = (world.width - gridW) / 2;
+  const startY = 60 + (wave - 1) * 8; // aliens start lower on later waves
+
+  const aliens: Alien[] = [];
+  for (let r = 0; r < s.rows; r++) {
+    const type = r === 0 ? 0 : r <= Math.floor(s.rows / 2) ? 1 : 2;
+    for (let c = 0; c < s.cols; c++) {
+      aliens.push({
+        row: r,
+        col: c,
+        x: startX + c * (ALIEN_W + ALIEN_PAD_X),
+        y: startY + r * (ALIEN_H + ALIEN_PAD_Y),
+        w: ALIEN_W,
+        h: ALIEN_H,
+        alive: true,
+        type,
+        animFrame: 0,
+      });
+    }
+  }
+
+  const speedFactor = 1 + (wave - 1) * 0.12;
+
+  state.aliens = aliens;
+  state.bullets = [];
+  state.ufo = { active: false, x: 0, y: 0, dx: 0, w: UFO_W, h: UFO_H };
+  state.playerX = world.width / 2 - PLAYER_W / 2;
+  state.playerY = world.height - 45;
+  state.wave = wave;
+  state.alienDir = 1;
+  state.stepTimer = 0;
+  state.stepInterval = Math.max(STEP_INTERVAL_MIN, STEP_INTERVAL_BASE / speedFactor);
+  state.enemyFireTimer = 0;
+  state.ufoTimer = 0;
+  state.alienCount = aliens.length;
+  state.alienAnimFrame = 0;
+  state.invincibleUntil = 0;
+  state.clock = 0;
+  state.shootCooldown = 0;
+  state.shootQueued = false;
+}
+
+// ── Simulation ─────────────────────────────────────────────
+function create(settings: GameSettings, seed: number, world: World): InvadersState {
+  const state: InvadersState = {
+    tick: 0,
+    over: false,
+    settings,
+    world,
+    rng: createRng(seed),
+    controls: { move: 0, fire: false },
+    shootQueued: false,
+    aliens: [],
+    bullets: [],
+    // Shields – only built on wave 1
+    shields: buildShields(world),
+    ufo: { active: false, x: 0, y: 0, dx: 0, w: UFO_W, h: UFO_H },
+    playerX: 0,
+    playerY: 0,
+    score: 0,
+    lives: settings.lives,
+    wave: 1,
+    alienDir: 1,
+    stepTimer: 0,
+    stepInterval: STEP_INTERVAL_BASE,
+    enemyFireTimer: 0,
+    ufoTimer: 0,
+    alienCount: 0,
+    alienAnimFrame: 0,
+    invincibleUntil: 0,
+    clock: 0,
+    shootCooldown: 0,
+  };
+  startWave(state, 1);
+  return state;
+}
+
+function input(state: InvadersState, input: InvadersInput) {
+  if (input === "shoot") state.shootQueued = true;
+  else state.controls = { ...input };
+}
+
+function update(state: InvadersState) {
+  const dt = STEP;
+  const { width: w, height: h } = state.world;
+  const s = state.settings;
+  const game = state;
+  state.tick++;
+
+  // Player movement
+  game.playerX += game.controls.move * s.playerSpeed * dt;
+  game.playerX = Math.max(4, Math.min(w - PLAYER_W - 4, game.playerX));
+
+  // Player shooting
+  game.clock += dt * 1000;
+  game.shootCooldown -= dt;
+  const wantsShoot = game.controls.fire || game.shootQueued;
+  if (wantsShoot && game.shootCooldown <= 0) {
+    const playerBullets = game.bullets.filter((b) => b.owner === "player");
+    if (playerBullets.length < s.maxPlayerBullets) {
+      game.bullets.push({
+        x: game.playerX + PLAYER_W / 2 - BULLET_W / 2,
+        y: game.playerY - BULLET_H,
+        dy: -s.bulletSpeed,
+        owner: "player",
+      });
+      game.shootCooldown = 0.18;
+    }
+  }
+  game.shootQueued = false; // consume tap
+
+  // Move bullets
+  for (const b of game.bullets) {
+    b.y += b.dy * dt;
+  }
+  // Remove off-screen bullets
+  game.bullets = game.bullets.filter((b) => b.y > -20 && b.y < h + 20);
+
+  // Alien formation step
+  game.stepTimer += dt * 1000;
+  if (game.stepTimer >= game.stepInterval) {
+    game.stepTimer = 0;
+    game.alienAnimFrame = (game.alienAnimFrame + 1) % 2;
+
+    // Check if any alive alien would go off-screen
+    let needDrop = false;
+    for (const a of game.aliens) {
+      if (!a.alive) continue;
+      const nx = a.x + game.alienDir * s.alienSpeed;
+      if (nx < 4 || nx + a.w > w - 4) {
+        needDrop = true;
+        break;
+      }
+    }
+
+    if (needDrop) {
+      game.alienDir = (game.alienDir * -1) as 1 | -1;
+      for (const a of game.aliens) {
+        if (!a.alive) continue;
+        a.y += s.alienDropPx;
+        a.animFrame = game.alienAnimFrame;
+      }
+    } else {
+      for (const a of game.aliens) {
+        if (!a.alive) continue;
+        a.x += game.alienDir * s.alienSpeed;
+        a.animFrame = game.alienAnimFrame;
+      }
+    }
+  }
+
+  // Enemy fire
+  game.enemyFireTimer += dt * 1000;
+  const fireInterval = Math.max(300, s.enemyFireInterval - (game.wave - 1) * 80);
+  if (game.enemyFireTimer >= fireInterval) {
+    game.enemyFireTimer = 0;
+    // Find bottom-most alive alien per column, pick one at random
+    const bottomAliens: Alien[] = [];
+    const colBottom = new Map<number, Alien>();
+    for (const a of game.aliens) {
+      if (!a.alive) continue;
+      const existing = colBottom.get(a.col);
+      if (!existing || a.row > existing.row) colBottom.set(a.col, a);
+    }
+    colBottom.forEach((a) => bottomAliens.push(a));
+    if (bottomAliens.length > 0) {
+      const shooter = game.rng.pick(bottomAliens);
+      game.bullets.push({
+        x: shooter.x + shooter.w / 2 - BULLET_W / 2,
+        y: shooter.y + shooter.h,
+        dy: s.bulletSpeed * 0.65,
+        owner: "enemy",
+      });
+    }
+  }
+
+  // UFO
+  game.ufoTimer += dt * 1000;
+  if (!game.ufo.active && game.ufoTimer > 12000 + game.rng.next() * 8000) {
+    game.ufoTimer = 0;
+    const fromLeft = game.rng.chance(0.5);
+    game.ufo = {
+      active: true,
+      x: fromLeft ? -UFO_W : w,
+      y: 28,
+      dx: fromLeft ? 120 : -120,
+      w: UFO_W,
+      h: UFO_H,
+    };
+  }
+  if (game.ufo.active) {
+    game.ufo.x += game.ufo.dx * dt;
+    if (game.ufo.x < -UFO_W - 10 || game.ufo.x > w + 10) {
+      game.ufo.active = false;
+    }
+  }
+
+  // ── Collisions ──
+
+  // Player bullets vs aliens
+  for (let bi = game.bullets.length - 1; bi >= 0; bi--) {
+    const b = game.bullets[bi];
+    if (b.owner !== "player") continue;
+    for (const a of game.aliens) {
+      if (!a.alive) continue;
+      if (rectsOverlap(b.x, b.y, BULLET_W, BULLET_H, a.x, a.y, a.w, a.h)) {
+        a.alive = false;
+        game.bullets.splice(bi, 1);
+        game.alienCount--;
+        game.score += ALIEN_POINTS[a.type] * game.wave;
+        // Speed up formation
+        const total = s.rows * s.cols;
+        const ratio = game.alienCount / total;
+        const speedFactor = (1 + (game.wave - 1) * 0.12) * (1 + (1 - ratio) * 2.5);
+        game.stepInterval = Math.max(
+          STEP_INTERVAL_MIN,
+          STEP_INTERVAL_BASE / speedFactor,
+        );
+        break;
+      }
+    }
+  }
+
+  // Player bullets vs UFO
+  if (game.ufo.active) {
+    for (let bi = game.bullets.length - 1; bi >= 0; bi--) {
+      const b = game.bullets[bi];
+      if (b.owner !== "player") continue;
+      if (rectsOverlap(b.x, b.y, BULLET_W, BULLET_H, game.ufo.x, game.ufo.y, game.ufo.w, game.ufo.h)) {
+        game.ufo.active = false;
+        game.bullets.splice(bi, 1);
+        game.score += UFO_POINTS * game.wave;
+        break;
+      }
+    }
+  }
+
+  // Bullets vs shields
+  for (let bi = game.bullets.length - 1; bi >= 0; bi--) {
+    const b = game.bullets[bi];
+    for (const sh of game.shields) {
+      const shW = SHIELD_COLS * SHIELD_BLOCK;
+      const shH = SHIELD_ROWS * SHIELD_BLOCK;
+      if (!rectsOverlap(b.x, b.y, BULLET_W, BULLET_H, sh.x, sh.y, shW, shH)) continue;
+      // Check individual blocks
+      const localX = b.x + BULLET_W / 2 - sh.x;
+      const localY = b.y + (b.dy < 0 ? 0 : BULLET_H) - sh.y;
+      const bc = Math.floor(localX / SHIELD_BLOCK);
+      const br = Math.floor(localY / SHIELD_BLOCK);
+      if (br >= 0 && br < SHIELD_ROWS && bc >= 0 && bc < SHIELD_COLS && sh.blocks[br][bc]) {
+        sh.blocks[br][bc] = false;
+        // Also damage a neighbor for more visible erosion
+        const nbc = bc + (game.rng.chance(0.5) ? 1 : -1);
+        if (nbc >= 0 && nbc < SHIELD_COLS && sh.blocks[br][nbc]) {
+          sh.blocks[br][nbc] = false;
+        }
+        game.bullets.splice(bi, 1);
+        break;
+      }
+    }
+  }
+
+  // Enemy bullets vs player
+  if (game.clock > game.invincibleUntil) {
+    for (let bi = game.bullets.length - 1; bi >= 0; bi--) {
+      const b = game.bullets[bi];
+      if (b.owner !== "enemy") continue;
+      if (rectsOverlap(b.x, b.y, BULLET_W, BULLET_H, game.playerX, game.playerY, PLAYER_W, PLAYER_H)) {
+        game.bullets.splice(bi, 1);
+        game.lives--;
+        game.invincibleUntil = game.clock + 1500;
+        if (game.lives <= 0) {
+          game.over = true;
+          return;
+        }
+        break;
+      }
+    }
+  }
+
+  // Aliens reached player row
+  for (const a of game.aliens) {
+    if (a.alive && a.y + a.h >= game.playerY) {
+      game.over = true;
+      return;
+    }
+  }
+
+  // All aliens dead → next wave
+  if (game.alienCount <= 0) {
+    startWave(game, game.wave + 1);
+  }
+}
+
+export const invadersSim: Simulation<InvadersState, InvadersInput, GameSettings> = {
+  step: () => STEP,
+  create,
+  input,
+  update,
+  score: (state) => state.score,
+};
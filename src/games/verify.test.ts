@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { Recording } from "../engine/replay";
+import { DEFAULT_WORLD, gridWorld, simulate } from "./headless";
+import { PRESETS as MATCH_PRESETS, matchSim } from "./match-three/sim";
+import { PRESETS as RUNNER_PRESETS, runnerSim } from "./pixel-runner/sim";
+import type { RunnerInput } from "./pixel-runner/sim";
+import { createBot } from "./snake/bot";
+import { PRESETS as SNAKE_PRESETS, snakeSim } from "./snake/sim";
+import { verifyRecording } from "./verify";
+
+function snakeRun(): Recording {
+  const settings = SNAKE_PRESETS.easy;
+  const bot = createBot("greedy");
+  return simulate(snakeSim, "snake", settings, {
+    seed: 7,
+    world: gridWorld(settings.gridSize),
+    variant: "easy",
+    policy: (state) => bot.plan(state).dir,
+    maxTicks: 5000,
+  }).recording();
+}
+
+// A runner that never jumps, starting with `loadout`.
+function runnerRun(loadout: RunnerInput[]): Recording {
+  return simulate(runnerSim, "pixel-runner", RUNNER_PRESETS.easy, {
+    seed: 7,
+    world: DEFAULT_WORLD,
+    variant: "easy",
+    policy: (state) => (state.tick === 0 ? loadout : undefined),
+  }).recording();
+}
+
+describe("recording verifier", () => {
+  it("accepts a run as it was played", () => {
+    const run = snakeRun();
+    expect(verifyRecording("snake", "easy", run)).toEqual({
+      ok: true,
+      score: run.score,
+      ticks: run.ticks,
+    });
+  });
+
+  it("refuses inputs named after object built-ins", () => {
+    const run = snakeRun();
+    const inputs = [{ tick: 0, input: "toString" }, ...run.inputs];
+    expect(verifyRecording("snake", "easy", { ...run, inputs })).toEqual({
+      ok: false,
+      reason: "invalid input",
+    });
+  });
+
+  it("refuses swaps off the board", () => {
+    const settings = MATCH_PRESETS.easy;
+    const run = simulate(matchSim, "match-three", settings, {
+      seed: 7,
+      world: gridWorld(settings.gridSize),
+      variant: "easy",
+    }).recording();
+    const swap = { from: { row: 0, col: 6 }, to: { row: 0, col: 7 } };
+    const inputs = [{ tick: 0, input: swap }];
+    expect(verifyRecording("match-three", "easy", { ...run, inputs })).toEqual({
+      ok: false,
+      reason: "invalid input",
+    });
+  });
+
+  it("accepts one of each loadout at the start", () => {
+    const run = runnerRun([{ start: "magnet" }, { start: "revive" }]);
+    expect(verifyRecording("pixel-runner", "easy", run).ok).toBe(true);
+  });
+
+  it("refuses a loadout bought twice or after the start", () => {
+    const twice = runnerRun([{ start: "tripleJump" }, { start: "tripleJump" }]);
+    const late = {
+      ...runnerRun([]),
+      inputs: [{ tick: 5, input: { start: "shield" } }],
+    };
+    const invalid = { ok: false, reason: "invalid loadout" };
+    expect(verifyRecording("pixel-runner", "easy", twice)).toEqual(invalid);
+    expect(verifyRecording("pixel-runner", "easy", late)).toEqual(invalid);
+  });
+});
@@ -0,0 +1,237 @@
+import { createPlayback, RECORDING_VERSION } from "../engine/replay";
+import type { Recording } from "../engine/replay";
+import type { SettingRange, SimState, Simulation, World } from "../engine/sim";
+import type { GameId } from "./registry";
+import { SIMS, gridWorld } from "./headless";
+import * as flappy from "./flappy-bird/sim";
+import * as match from "./match-three/sim";
+import * as runner from "./pixel-runner/sim";
+import * as snake from "./snake/sim";
+import * as invaders from "./space-invaders/sim";
+
+// ── Types ──────────────────────────────────────────────────
+// A submitted score is only as good as the run behind it: the recording is
+// played back with the game's own simulation and must end, on the tick it
+// claims, with the score it claims.
+export type Verdict =
+  | { ok: true; score: number; ticks: number }
+  | { ok: false; reason: string };
+
+interface Rules {
+  sim: Simulation<SimState, unknown, unknown>;
+  presets: Record<string, object>;
+  custom?: Record<string, SettingRange>; // bounds of the "custom" variant
+  world?: (settings: Record<string, unknown>) => World; // fixed by the settings
+  validInput: (input: unknown, settings: Record<string, unknown>) => boolean;
+  // Names the loadout an input starts the run with, if it is one. Loadouts
+  // are bought outside the run, so each may come once, before the first
+  // update.
+  loadout?: (input: unknown) => string | undefined;
+}
+
+// ── Constants ─────────────────────────────────────────────
+const MAX_TICKS = 120 * 60 * 60; // an hour at the fastest step
+const WORLD_MIN = 200; // px, canvas-sized worlds
+const WORLD_MAX = 4096;
+
+// ── Rules ─────────────────────────────────────────────────
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A cell on a `size` by `size` board.
+function isCell(value: unknown, size: number): boolean {
+  const inside = (n: unknown) =>
+    typeof n === "number" && Number.isInteger(n) && n >= 0 && n < size;
+  return isObject(value) && inside(value.row) && inside(value.col);
+}
+
+// The verifier only hands a simulation checked recordings, so its own
+// state, input and settings types can be dropped.
+function erase<State extends SimState, Input, Settings>(
+  sim: Simulation<State, Input, Settings>,
+): Rules["sim"] {
+  return sim as unknown as Rules["sim"];
+}
+
+function settingsWorld(settings: Record<string, unknown>): World {
+  return gridWorld(settings.gridSize as number);
+}
+
+const RULES: Record<GameId, Rules> = {
+  "flappy-bird": {
+    sim: erase(SIMS["flappy-bird"]),
+    presets: flappy.PRESETS,
+    custom: flappy.CUSTOM_LIMITS,
+    validInput: (input) => input === "flap",
+  },
+  snake: {
+    sim: erase(SIMS.snake),
+    presets: snake.PRESETS,
+    custom: snake.CUSTOM_LIMITS,
+    world: settingsWorld,
+    validInput: (input) =>
+      typeof input === "string" &&
+      Object.hasOwn(snake.DIRECTION_VECTORS, input),
+  },
+  "match-three": {
+    sim: erase(SIMS["match-three"]),
+    presets: match.PRESETS,
+    world: settingsWorld,
+    validInput: (input, settings) => {
+      const size = settings.gridSize as number;
+      return (
+        isObject(input) && isCell(input.from, size) && isCell(input.to, size)
+      );
+    },
+  },
+  "pixel-runner": {
+    sim: erase(SIMS["pixel-runner"]),
+    presets: runner.PRESETS,
+    validInput: (input) =>
+      input === "jump" ||
+      input === "release" ||
+      input === "slide" ||
+      input === "stand" ||
+      (isObject(input) &&
+        (input.start === "revive" ||
+          (typeof input.start === "string" &&
+            Object.hasOwn(runner.POWER_UP_TIME, input.start)))),
+    loadout: (input) => (isObject(input) ? (input.start as string) : undefined),
+  },
+  "space-invaders": {
+    sim: erase(SIMS["space-invaders"]),
+    presets: invaders.PRESETS,
+    validInput: (input) =>
+      input === "shoot" ||
+      (isObject(input) &&
+        (input.move === -1 || input.move === 0 || input.move === 1) &&
+        typeof input.fire === "boolean"),
+  },
+};
+
+// ── Checks ────────────────────────────────────────────────
+// Preset variants must use the preset exactly; custom runs may use any
+// values the menu sliders allow.
+function checkSettings(
+  rules: Rules,
+  variant: string,
+  settings: unknown,
+): string | null {
+  if (!isObject(settings)) return "missing settings";
+  const preset = rules.presets[variant];
+  if (preset) {
+    return JSON.stringify(settings) === JSON.stringify(preset)
+      ? null
+      : `settings don't match the ${variant} preset`;
+  }
+  if (variant !== "custom" || !rules.custom) return "unknown variant";
+
+  const base = rules.presets.medium as Record<string, unknown>;
+  const keys = Object.keys(base);
+  if (Object.keys(settings).length !== keys.length) return "unknown settings";
+  for (const key of keys) {
+    const value = settings[key];
+    if (typeof value !== typeof base[key]) return `invalid ${key}`;
+    const range = rules.custom[key];
+    const n = value as number;
+    if (range && (n < range.min || n > range.max)) return `${key} out of range`;
+  }
+  return null;
+}
+
+function checkWorld(
+  rules: Rules,
+  world: unknown,
+  settings: object,
+): string | null {
+  if (!isObject(world)) return "missing world";
+  const { width, height } = world;
+  if (rules.world) {
+    const expected = rules.world(settings as Record<string, unknown>);
+    return width === expected.width && height === expected.height
+      ? null
+      : "world doesn't match the settings";
+  }
+  const inRange = (v: unknown) =>
+    typeof v === "number" && v >= WORLD_MIN && v <= WORLD_MAX;
+  return inRange(width) && inRange(height) ? null : "world size out of range";
+}
+
+function checkInputs(
+  rules: Rules,
+  inputs: unknown,
+  ticks: number,
+  settings: Record<string, unknown>,
+): string | null {
+  if (!Array.isArray(inputs)) return "missing inputs";
+  let last = 0;
+  const loadouts = new Set<string>();
+  for (const entry of inputs) {
+    if (!isObject(entry) || !Number.isInteger(entry.tick)) {
+      return "invalid input";
+    }
+    const tick = entry.tick as number;
+    if (tick < last || tick >= ticks) return "inputs out of order";
+    if (!rules.validInput(entry.input, settings)) return "invalid input";
+    const loadout = rules.loadout?.(entry.input);
+    if (loadout !== undefined) {
+      if (tick !== 0 || loadouts.has(loadout)) return "invalid loadout";
+      loadouts.add(loadout);
+    }
+    last = tick;
+  }
+  return null;
+}
+
+// ── Verify ────────────────────────────────────────────────
+// Checks an untrusted recording for `game`/`variant` and replays it.
+// Nothing here touches the DOM, so it runs the same in Node.
+export function verifyRecording(
+  game: GameId,
+  variant: string,
+  recording: unknown,
+): Verdict {
+  const fail = (reason: string): Verdict => ({ ok: false, reason });
+  const rules = RULES[game];
+  if (!rules) return fail("unknown game");
+  if (!isObject(recording)) return fail("missing recording");
+
+  const { version, seed, ticks, score, settings, world, inputs } = recording;
+  if (version !== RECORDING_VERSION) {
+    return fail("unsupported recording version");
+  }
+  if (recording.game !== game || (recording.variant ?? "") !== variant) {
+    return fail("recording is for another board");
+  }
+  if (!Number.isInteger(seed)) return fail("invalid seed");
+  const length = ticks as number;
+  if (!Number.isInteger(length) || length < 1 || length > MAX_TICKS) {
+    return fail("invalid length");
+  }
+  if (!Number.isInteger(score)) return fail("invalid score");
+
+  const problem =
+    checkSettings(rules, variant, settings) ??
+    checkWorld(rules, world, settings as object) ??
+    checkInputs(rules, inputs, length, settings as Record<string, unknown>);
+  if (problem) return fail(problem);
+
+  const run = recording as unknown as Recording;
+  let state: SimState;
+  try {
+    const playback = createPlayback(rules.sim, run);
+    playback.seek(run.ticks);
+    state = playback.state;
+  } catch {
+    return fail("run crashed on replay");
+  }
+  if (!state.over || state.tick !== run.ticks) {
+    return fail("run doesn't end where it claims");
+  }
+  const replayed = rules.sim.score(state);
+  if (replayed !== run.score) {
+    return fail(`replay scores ${replayed}, not ${run.score}`);
+  }
+  return { ok: true, score: replayed, ticks: run.ticks };
+}
@@ -2,8 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { HashRouter } from 'react-router'
 import App from './App'
+import { startScoreSync } from './engine/scoreSync'
 import './index.css'
 
+startScoreSync()
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <HashRouter>
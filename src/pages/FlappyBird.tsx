@@ -1,33 +1,39 @@
 import { useRef, useEffect, useCallback, useState } from 'react'
+import { Link } from 'react-router'
+import { loadBest, loadBrains, loadSettings, recordPlay, saveBest, saveBrains, saveSettings } from '../engine/storage'
+import { addScore } from '../games/leaderboard'
+import type { LeaderboardEntry } from '../games/leaderboard'
+import { submitScore } from '../engine/scoreSync'
+import type { Submission } from '../engine/scoreSync'
+import { useGameLoop } from '../engine/useGameLoop'
+import { useRunSeed } from '../engine/useRunSeed'
+import { createRun } from '../engine/replay'
+import type { Recording, Run } from '../engine/replay'
+import { keepBestRun, loadGhost } from '../engine/ghost'
+import type { Ghost } from '../engine/ghost'
+import { fitWorld } from '../engine/view'
+import { randomSeed } from '../engine/rng'
+import { createDemo } from '../engine/demo'
+import type { Demo } from '../engine/demo'
+import {
+  flappySim,
+  PRESETS,
+  CUSTOM_LIMITS,
+  PIPE_WIDTH,
+  STEP,
+  BIRD_RADIUS,
+  GROUND_HEIGHT,
+} from '../games/flappy-bird/sim'
+import type { Bird, Difficulty, FlappyInput, FlappyState, GameSettings, Pipe } from '../games/flappy-bird/sim'
+import { activate, brainPolicy, decide, parseSavedBrain, senses, SENSES } from '../games/flappy-bird/brain'
+import type { Brain, SavedBrain } from '../games/flappy-bird/brain'
+import { createPopulation, leader, nextGeneration, stepPopulation } from '../games/flappy-bird/evolution'
+import type { Bot, Champion, GenerationStats, Population } from '../games/flappy-bird/evolution'
+import ReplayViewer from '../components/ReplayViewer'
+import ScoreEntry from '../components/ScoreEntry'
+import GlobalRank from '../components/GlobalRank'
 import './FlappyBird.css'
 
-// ── Constants ──────────────────────────────────────────────
-const GRAVITY = 0.45
-const FLAP_STRENGTH = -7.5
-const PIPE_WIDTH = 60
-const PIPE_GAP = 160
-const PIPE_SPEED = 2.8
-const PIPE_SPAWN_INTERVAL = 100 // frames
-const BIRD_RADIUS = 16
-const GROUND_HEIGHT = 60
-
-// ── Types ──────────────────────────────────────────────────
-interface Bird {
-  x: number
-  y: number
-  velocity: number
-  rotation: number
-  wingPhase: number
-}
-
-interface Pipe {
-  x: number
-  gapY: number // centre of the gap
-  scored: boolean
-}
-
-type GameState = 'ready' | 'playing' | 'gameover'
-
 // ── Drawing helpers ────────────────────────────────────────
 function drawBird(ctx: CanvasRenderingContext2D, bird: Bird) {
   ctx.save()
@@ -72,8 +78,8 @@ function drawBird(ctx: CanvasRenderingContext2D, bird: Bird) {
   ctx.restore()
 }
 
-function drawPipe(ctx: CanvasRenderingContext2D, pipe: Pipe, canvasH: number) {
-  const halfGap = PIPE_GAP / 2
+function drawPipe(ctx: CanvasRenderingContext2D, pipe: Pipe, gap: number, canvasH: number) {
+  const halfGap = gap / 2
   const topH = pipe.gapY - halfGap
   const bottomY = pipe.gapY + halfGap
   const bottomH = canvasH - GROUND_HEIGHT - bottomY
@@ -154,256 +160,807 @@ function drawSky(ctx: CanvasRenderingContext2D, w: number, h: number) {
   }
 }
 
-// ── Component ──────────────────────────────────────────────
-function FlappyBird() {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const containerRef = useRef<HTMLDivElement>(null)
-  const [displayScore, setDisplayScore] = useState(0)
-  const [best, setBest] = useState(() => {
-    const saved = localStorage.getItem('flappy-best')
-    return saved ? parseInt(saved, 10) : 0
-  })
-  const [gameState, setGameState] = useState<GameState>('ready')
+// Everything that belongs to the run itself, in world coordinates – shared
+// by live play and the replay viewer. Live play also passes the ghost.
+function drawWorld(
+  ctx: CanvasRenderingContext2D,
+  state: FlappyState,
+  alpha: number,
+  _now?: number,
+  ghost?: FlappyState | null,
+) {
+  const { world, settings, bird } = state
+  const { width: w, height: h } = world
+
+  // positions between the previous step and the current one
+  const lag = state.over ? 0 : 1 - alpha
+  const drawnBird = { ...bird, y: bird.y + (state.prevBirdY - bird.y) * lag }
+  const scrollLag = state.started && !state.over ? settings.pipeSpeed * STEP * lag : 0
+
+  fitWorld(ctx, world)
+  drawSky(ctx, w, h)
+
+  // pipes
+  for (const p of state.pipes) {
+    drawPipe(ctx, { ...p, x: p.x + scrollLag }, settings.gap, h)
+  }
 
-  // Mutable game state kept in refs so the loop doesn't depend on React state
-  const stateRef = useRef<GameState>('ready')
-  const birdRef = useRef<Bird>({ x: 0, y: 0, velocity: 0, rotation: 0, wingPhase: 0 })
-  const pipesRef = useRef<Pipe[]>([])
-  const scoreRef = useRef(0)
-  const frameRef = useRef(0)
-  const groundOffsetRef = useRef(0)
-  const rafRef = useRef(0)
-
-  // Initialize / reset
-  const resetGame = useCallback((w: number, h: number) => {
-    birdRef.current = {
-      x: w * 0.25,
-      y: (h - GROUND_HEIGHT) / 2,
-      velocity: 0,
-      rotation: 0,
-      wingPhase: 0,
+  // ground
+  drawGround(ctx, w, h, state.groundOffset - scrollLag)
+
+  // ghost of the best run, in the same world as this one
+  if (ghost && !ghost.over) {
+    const gb = ghost.bird
+    ctx.globalAlpha = 0.35
+    drawBird(ctx, { ...gb, y: gb.y + (ghost.prevBirdY - gb.y) * lag })
+    ctx.globalAlpha = 1
+  }
+
+  // bird
+  drawBird(ctx, drawnBird)
+
+  // score
+  if (state.started && !state.over) {
+    ctx.fillStyle = '#fff'
+    ctx.strokeStyle = '#000'
+    ctx.lineWidth = 4
+    ctx.font = 'bold 48px "Segoe UI", system-ui, sans-serif'
+    ctx.textAlign = 'center'
+    ctx.strokeText(String(state.score), w / 2, 60)
+    ctx.fillText(String(state.score), w / 2, 60)
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+}
+
+// ── Training ───────────────────────────────────────────────
+const TRAIN_SPEEDS = [1, 5, 20, 50]
+const MAX_SAVED_BRAINS = 8
+
+function loadSavedBrains(): SavedBrain[] {
+  return loadBrains('flappy-bird')
+    .map(parseSavedBrain)
+    .filter((b): b is SavedBrain => b !== null)
+}
+
+// The whole flock over the leader's course – every bird flies the same
+// pipes, so only their heights differ.
+function drawFlock(ctx: CanvasRenderingContext2D, pop: Population, lead: Bot, alpha: number) {
+  drawWorld(ctx, lead.state, alpha)
+  fitWorld(ctx, pop.world)
+  ctx.globalAlpha = 0.3
+  for (const bot of pop.bots) {
+    const { state } = bot
+    if (bot === lead || state.over) continue
+    const y = state.bird.y + (state.prevBirdY - state.bird.y) * (1 - alpha)
+    drawBird(ctx, { ...state.bird, y })
+  }
+  ctx.globalAlpha = 1
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+}
+
+// Best and average fitness of every finished generation.
+function drawFitness(ctx: CanvasRenderingContext2D, history: GenerationStats[]) {
+  const { width: w, height: h } = ctx.canvas
+  const pad = 8
+  ctx.clearRect(0, 0, w, h)
+  ctx.strokeStyle = 'rgba(255,255,255,0.15)'
+  ctx.lineWidth = 1
+  ctx.strokeRect(0.5, 0.5, w - 1, h - 1)
+  if (history.length === 0) {
+    ctx.fillStyle = '#888'
+    ctx.font = '12px "Segoe UI", system-ui, sans-serif'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText('Fitness appears after the first generation', w / 2, h / 2)
+    return
+  }
+
+  const top = Math.max(...history.map((g) => g.best))
+  const x = (i: number) => pad + (history.length > 1 ? (i / (history.length - 1)) * (w - pad * 2) : (w - pad * 2) / 2)
+  const y = (v: number) => h - pad - (v / top) * (h - pad * 2)
+  const line = (values: number[], color: string) => {
+    ctx.strokeStyle = color
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    values.forEach((v, i) => (i === 0 ? ctx.moveTo(x(i), y(v)) : ctx.lineTo(x(i), y(v))))
+    ctx.stroke()
+  }
+  line(history.map((g) => g.average), '#5b9bd5')
+  line(history.map((g) => g.best), '#f5c842')
+}
+
+// The network with its current activations: blue is positive, red
+// negative, and thicker lines carry bigger weights.
+function drawNetwork(ctx: CanvasRenderingContext2D, brain: Brain, activations: number[][]) {
+  const { width: w, height: h } = ctx.canvas
+  const { layers, weights } = brain
+  const labelW = 70
+  const colX = (l: number) => labelW + (l / (layers.length - 1)) * (w - labelW - 16)
+  const rowY = (l: number, n: number) => ((n + 1) / (layers[l] + 1)) * h
+  const shade = (v: number, a: number) => (v >= 0 ? `rgba(91,155,213,${a})` : `rgba(233,69,96,${a})`)
+  ctx.clearRect(0, 0, w, h)
+
+  let i = 0
+  for (let l = 1; l < layers.length; l++) {
+    for (let n = 0; n < layers[l]; n++) {
+      i++ // bias
+      for (let m = 0; m < layers[l - 1]; m++) {
+        const weight = weights[i++]
+        ctx.strokeStyle = shade(weight, Math.min(0.8, 0.15 + Math.abs(weight) * 0.3))
+        ctx.lineWidth = Math.min(4, 0.5 + Math.abs(weight))
+        ctx.beginPath()
+        ctx.moveTo(colX(l - 1), rowY(l - 1, m))
+        ctx.lineTo(colX(l), rowY(l, n))
+        ctx.stroke()
+      }
     }
-    pipesRef.current = []
-    scoreRef.current = 0
-    frameRef.current = 0
-    setDisplayScore(0)
-  }, [])
+  }
 
-  const flap = useCallback(() => {
-    if (stateRef.current === 'ready') {
-      stateRef.current = 'playing'
-      setGameState('playing')
-      birdRef.current.velocity = FLAP_STRENGTH
-    } else if (stateRef.current === 'playing') {
-      birdRef.current.velocity = FLAP_STRENGTH
-    } else {
-      // gameover → restart
-      const canvas = canvasRef.current
-      if (canvas) resetGame(canvas.width, canvas.height)
-      stateRef.current = 'ready'
-      setGameState('ready')
+  ctx.font = '11px "Segoe UI", system-ui, sans-serif'
+  ctx.textBaseline = 'middle'
+  layers.forEach((size, l) => {
+    for (let n = 0; n < size; n++) {
+      const value = activations[l]?.[n] ?? 0
+      ctx.fillStyle = shade(value, 0.25 + Math.min(1, Math.abs(value)) * 0.75)
+      ctx.strokeStyle = '#fff'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.arc(colX(l), rowY(l, n), 7, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+      if (l === 0) {
+        ctx.fillStyle = '#aaa'
+        ctx.textAlign = 'right'
+        ctx.fillText(SENSES[n], colX(0) - 12, rowY(0, n))
+      }
     }
-  }, [resetGame])
+  })
+  ctx.fillStyle = '#aaa'
+  ctx.textAlign = 'left'
+  ctx.fillText('Flap', colX(layers.length - 1) - 12, rowY(layers.length - 1, 0) + 18)
+}
+
+interface TrainerProps {
+  settings: GameSettings
+  onWatch: (brain: SavedBrain) => void
+  onClose: () => void
+}
+
+// A flock of network-driven birds learning the current settings by
+// neuroevolution. The fittest birds of each generation parent the next.
+function Trainer({ settings, onWatch, onClose }: TrainerProps) {
+  const [speed, setSpeed] = useState(5)
+  const [generation, setGeneration] = useState(1)
+  const [champion, setChampion] = useState<Champion | null>(null)
+  const [saved, setSaved] = useState(loadSavedBrains)
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const graphRef = useRef<HTMLCanvasElement>(null)
+  const networkRef = useRef<HTMLCanvasElement>(null)
+  const popRef = useRef<Population | null>(null)
+
+  function update() {
+    const pop = popRef.current
+    if (!pop) return
+    for (let i = 0; i < speed; i++) {
+      if (!stepPopulation(pop)) continue
+      nextGeneration(pop)
+      setGeneration(pop.generation)
+      setChampion(pop.champion)
+      break // show the new flock taking off
+    }
+  }
+
+  function render(alpha: number) {
+    const pop = popRef.current
+    const canvas = canvasRef.current
+    if (!pop || !canvas) return
+    const ctx = canvas.getContext('2d')!
+    const lead = leader(pop)
+    drawFlock(ctx, pop, lead, speed === 1 ? alpha : 1)
+
+    const flying = pop.bots.filter((b) => !b.state.over).length
+    ctx.fillStyle = '#fff'
+    ctx.strokeStyle = '#000'
+    ctx.lineWidth = 3
+    ctx.font = 'bold 16px "Segoe UI", system-ui, sans-serif'
+    ctx.textAlign = 'right'
+    ctx.textBaseline = 'top'
+    const label = `Generation ${pop.generation} · ${flying}/${pop.bots.length} flying`
+    ctx.strokeText(label, canvas.width - 14, 14)
+    ctx.fillText(label, canvas.width - 14, 14)
+
+    const graph = graphRef.current?.getContext('2d')
+    if (graph) drawFitness(graph, pop.history)
+    const network = networkRef.current?.getContext('2d')
+    if (network) drawNetwork(network, lead.brain, activate(lead.brain, senses(lead.state)))
+  }
+
+  const { state: loopState, stateRef, togglePause } = useGameLoop({
+    initialState: 'playing',
+    step: STEP,
+    update,
+    render,
+  })
 
-  // ── Main game loop ─────────────────────────────────────
+  const restart = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    popRef.current = createPopulation(settings, { width: canvas.width, height: canvas.height }, randomSeed())
+    setGeneration(1)
+    setChampion(null)
+  }, [settings])
+
+  // the flock's world is the canvas size it starts with
   useEffect(() => {
     const canvas = canvasRef.current
     const container = containerRef.current
     if (!canvas || !container) return
-
-    const ctx = canvas.getContext('2d')!
-
     function resize() {
       const rect = container!.getBoundingClientRect()
       canvas!.width = rect.width
       canvas!.height = rect.height
-      if (stateRef.current === 'ready') {
-        resetGame(canvas!.width, canvas!.height)
-      }
     }
     resize()
+    if (!popRef.current) restart()
     window.addEventListener('resize', resize)
+    function onVisibility() {
+      if (document.hidden && stateRef.current === 'playing') togglePause()
+    }
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => {
+      window.removeEventListener('resize', resize)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [restart, stateRef, togglePause])
+
+  function saveChampion() {
+    if (!champion) return
+    const { brain, generation, score } = champion
+    const next = [{ brain, generation, score, date: new Date().toISOString() }, ...saved].slice(0, MAX_SAVED_BRAINS)
+    saveBrains('flappy-bird', next)
+    setSaved(next)
+  }
 
-    function loop() {
-      const w = canvas!.width
-      const h = canvas!.height
-      const playH = h - GROUND_HEIGHT
-      const bird = birdRef.current
-      const pipes = pipesRef.current
-
-      // ── Update ──────────────────────
-      if (stateRef.current === 'playing') {
-        // bird physics
-        bird.velocity += GRAVITY
-        bird.y += bird.velocity
-        bird.rotation = Math.atan2(bird.velocity, 8)
-        bird.wingPhase += 0.3
-        frameRef.current++
-        groundOffsetRef.current += PIPE_SPEED
-
-        // spawn pipes
-        if (frameRef.current % PIPE_SPAWN_INTERVAL === 0) {
-          const minGapY = PIPE_GAP / 2 + 40
-          const maxGapY = playH - PIPE_GAP / 2 - 40
-          const gapY = minGapY + Math.random() * (maxGapY - minGapY)
-          pipes.push({ x: w, gapY, scored: false })
-        }
-
-        // move pipes + score
-        for (let i = pipes.length - 1; i >= 0; i--) {
-          pipes[i].x -= PIPE_SPEED
-
-          // scoring
-          if (!pipes[i].scored && pipes[i].x + PIPE_WIDTH < bird.x) {
-            pipes[i].scored = true
-            scoreRef.current++
-            setDisplayScore(scoreRef.current)
-          }
-
-          // remove off-screen
-          if (pipes[i].x + PIPE_WIDTH + 8 < 0) {
-            pipes.splice(i, 1)
-          }
-        }
-
-        // collision
-        let dead = false
-        // ground / ceiling
-        if (bird.y + BIRD_RADIUS > playH || bird.y - BIRD_RADIUS < 0) {
-          dead = true
-        }
-        // pipes
-        for (const p of pipes) {
-          const bLeft = bird.x - BIRD_RADIUS
-          const bRight = bird.x + BIRD_RADIUS
-          const bTop = bird.y - BIRD_RADIUS
-          const bBottom = bird.y + BIRD_RADIUS
-          const pLeft = p.x - 4 // account for cap overhang
-          const pRight = p.x + PIPE_WIDTH + 4
-          const gapTop = p.gapY - PIPE_GAP / 2
-          const gapBottom = p.gapY + PIPE_GAP / 2
-
-          if (bRight > pLeft && bLeft < pRight) {
-            if (bTop < gapTop || bBottom > gapBottom) {
-              dead = true
-              break
-            }
-          }
-        }
-
-        if (dead) {
-          stateRef.current = 'gameover'
-          setGameState('gameover')
-          if (scoreRef.current > best) {
-            setBest(scoreRef.current)
-            localStorage.setItem('flappy-best', String(scoreRef.current))
-          }
-        }
-      } else if (stateRef.current === 'ready') {
-        // gentle hover animation
-        bird.y = playH / 2 + Math.sin(Date.now() / 300) * 8
-        bird.wingPhase += 0.15
-        bird.rotation = 0
-      }
+  function deleteSaved(index: number) {
+    const next = saved.filter((_, i) => i !== index)
+    saveBrains('flappy-bird', next)
+    setSaved(next)
+  }
 
-      // ── Draw ────────────────────────
-      drawSky(ctx!, w, h)
+  return (
+    <div className="flappy-trainer">
+      <div className="flappy-trainer-stage" ref={containerRef}>
+        <canvas ref={canvasRef} className="flappy-canvas" />
+      </div>
 
-      // pipes
-      for (const p of pipes) {
-        drawPipe(ctx!, p, h)
-      }
+      <aside className="flappy-trainer-panel">
+        <h2 className="flappy-trainer-title">🧠 Training</h2>
+
+        <div className="flappy-diff-buttons">
+          {TRAIN_SPEEDS.map((s) => (
+            <button
+              key={s}
+              className={`flappy-diff-btn ${speed === s ? 'flappy-diff-btn-active' : ''}`}
+              onClick={() => setSpeed(s)}
+            >
+              {s}×
+            </button>
+          ))}
+          <button className="flappy-diff-btn" onClick={togglePause}>
+            {loopState === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+        </div>
+
+        <div className="flappy-trainer-section">
+          <span className="flappy-trainer-heading">
+            Fitness <span className="flappy-trainer-key flappy-trainer-key-best">best</span>{' '}
+            <span className="flappy-trainer-key flappy-trainer-key-avg">average</span>
+          </span>
+          <canvas ref={graphRef} className="flappy-trainer-graph" width={260} height={110} />
+        </div>
+
+        <div className="flappy-trainer-section">
+          <span className="flappy-trainer-heading">Leading bird's network</span>
+          <canvas ref={networkRef} className="flappy-trainer-graph" width={260} height={150} />
+        </div>
+
+        <div className="flappy-trainer-section">
+          <span className="flappy-trainer-heading">
+            {champion
+              ? `Best so far: generation ${champion.generation}, ${champion.score} ${champion.score === 1 ? 'pipe' : 'pipes'}`
+              : `Generation ${generation} is still learning…`}
+          </span>
+          <div className="flappy-trainer-actions">
+            <button className="flappy-diff-btn" disabled={!champion} onClick={saveChampion}>Save</button>
+            <button
+              className="flappy-diff-btn"
+              disabled={!champion}
+              onClick={() => champion && onWatch({ ...champion, date: new Date().toISOString() })}
+            >
+              Watch
+            </button>
+            <button className="flappy-diff-btn" onClick={restart}>Restart</button>
+          </div>
+        </div>
+
+        {saved.length > 0 && (
+          <div className="flappy-trainer-section">
+            <span className="flappy-trainer-heading">Saved brains</span>
+            <ul className="flappy-trainer-saved">
+              {saved.map((b, i) => (
+                <li key={b.date}>
+                  <span>Gen {b.generation} · {b.score} {b.score === 1 ? 'pipe' : 'pipes'}</span>
+                  <button className="flappy-trainer-link" onClick={() => onWatch(b)}>Watch</button>
+                  <button className="flappy-trainer-link" onClick={() => deleteSaved(i)}>Delete</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
-      // ground
-      drawGround(ctx!, w, h, groundOffsetRef.current)
-
-      // bird
-      drawBird(ctx!, bird)
-
-      // score
-      if (stateRef.current === 'playing') {
-        ctx!.fillStyle = '#fff'
-        ctx!.strokeStyle = '#000'
-        ctx!.lineWidth = 4
-        ctx!.font = 'bold 48px "Segoe UI", system-ui, sans-serif'
-        ctx!.textAlign = 'center'
-        ctx!.strokeText(String(scoreRef.current), w / 2, 60)
-        ctx!.fillText(String(scoreRef.current), w / 2, 60)
-      }
+        <p className="flappy-trainer-note">Bots fly the normal game when watched, but their runs aren't scored.</p>
 
-      // overlays
-      if (stateRef.current === 'ready') {
-        ctx!.fillStyle = 'rgba(0,0,0,0.25)'
-        ctx!.fillRect(0, 0, w, h)
-        ctx!.fillStyle = '#fff'
-        ctx!.font = 'bold 36px "Segoe UI", system-ui, sans-serif'
-        ctx!.textAlign = 'center'
-        ctx!.fillText('Flappy Bird', w / 2, playH / 2 - 70)
-        ctx!.font = '20px "Segoe UI", system-ui, sans-serif'
-        ctx!.fillStyle = '#ddd'
-        ctx!.fillText('Tap, click, or press Space to start', w / 2, playH / 2 + 50)
-      }
+        <button className="flappy-overlay-btn flappy-overlay-btn-sec" onClick={onClose}>Back to Menu</button>
+      </aside>
+    </div>
+  )
+}
 
-      if (stateRef.current === 'gameover') {
-        ctx!.fillStyle = 'rgba(0,0,0,0.45)'
-        ctx!.fillRect(0, 0, w, h)
-        ctx!.fillStyle = '#e94560'
-        ctx!.font = 'bold 40px "Segoe UI", system-ui, sans-serif'
-        ctx!.textAlign = 'center'
-        ctx!.fillText('Game Over', w / 2, playH / 2 - 40)
-        ctx!.fillStyle = '#fff'
-        ctx!.font = '24px "Segoe UI", system-ui, sans-serif'
-        ctx!.fillText(`Score: ${scoreRef.current}`, w / 2, playH / 2 + 10)
-        ctx!.fillStyle = '#ddd'
-        ctx!.font = '18px "Segoe UI", system-ui, sans-serif'
-        ctx!.fillText('Tap or press Space to restart', w / 2, playH / 2 + 55)
+// ── Demo ───────────────────────────────────────────────────
+// Home's preview: the best brain trained so far flying medium, or the best
+// run replayed while none has been saved.
+export function demo(): Demo | null {
+  const best = loadSavedBrains().reduce<SavedBrain | null>((a, b) => (a && a.score >= b.score ? a : b), null)
+  return createDemo({
+    sim: flappySim,
+    game: 'flappy-bird',
+    variant: 'medium',
+    settings: { ...PRESETS.medium },
+    draw: drawWorld,
+    policy: best && brainPolicy(best.brain),
+  })
+}
+
+// ── Component ──────────────────────────────────────────────
+function FlappyBird() {
+  // ── Settings state ──
+  const [restored] = useState(() => loadSettings<Difficulty, GameSettings>('flappy-bird', PRESETS))
+  const [difficulty, setDifficulty] = useState<Difficulty>(restored?.difficulty ?? 'medium')
+  const [settings, setSettings] = useState<GameSettings>(restored?.settings ?? { ...PRESETS.medium })
+  const [displayScore, setDisplayScore] = useState(0)
+  const [best, setBest] = useState(() => loadBest('flappy-bird', restored?.difficulty ?? 'medium'))
+  const [replay, setReplay] = useState<Recording<FlappyInput, GameSettings> | null>(null)
+  const [entry, setEntry] = useState<LeaderboardEntry | null>(null)
+  const [submission, setSubmission] = useState<Submission | null>(null)
+  const [training, setTraining] = useState(false)
+  const [pilot, setPilot] = useState<SavedBrain | null>(null)
+  const [race, setRace] = useState(false)
+
+  // Mutable game state kept in refs so the loop doesn't depend on React state
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const settingsRef = useRef<GameSettings>(settings)
+  const difficultyRef = useRef<Difficulty>(difficulty)
+  const needsInitRef = useRef(false)
+  const runRef = useRef<Run<FlappyState, FlappyInput, GameSettings> | null>(null)
+  const lastRecordingRef = useRef<Recording<FlappyInput, GameSettings> | null>(null)
+  const ghostRef = useRef<Ghost<FlappyState> | null>(null)
+  const pilotRef = useRef<SavedBrain | null>(null)
+  const raceRef = useRef(race)
+  const { nextSeed } = useRunSeed()
+
+  // keep refs in sync
+  useEffect(() => { settingsRef.current = settings }, [settings])
+  useEffect(() => { difficultyRef.current = difficulty }, [difficulty])
+  useEffect(() => { pilotRef.current = pilot }, [pilot])
+  useEffect(() => { raceRef.current = race }, [race])
+
+  // ── Difficulty change ──
+  const selectDifficulty = useCallback((d: Difficulty) => {
+    setDifficulty(d)
+    setBest(loadBest('flappy-bird', d))
+    if (d !== 'custom') {
+      setSettings({ ...PRESETS[d] })
+    }
+  }, [])
+
+  // ── Update (one fixed physics step) ─────────────────────
+  function update() {
+    const run = runRef.current
+    if (!run) return
+    // a watched bot taps through the same input as a player
+    if (pilotRef.current && decide(pilotRef.current.brain, run.state)) flap()
+    run.update()
+    if (run.state.started) ghostRef.current?.update()
+
+    const score = run.state.score
+    if (score !== displayScore) setDisplayScore(score)
+
+    if (run.state.over) {
+      lastRecordingRef.current = run.recording()
+      setGameState('gameover')
+      // bot runs can be replayed but don't count as the player's
+      if (pilotRef.current) {
+        setEntry(null)
+        setSubmission(null)
+        return
+      }
+      keepBestRun(lastRecordingRef.current)
+      setEntry(addScore('flappy-bird', difficultyRef.current, score))
+      setSubmission(submitScore(lastRecordingRef.current))
+      recordPlay('flappy-bird', score, run.state.tick * STEP)
+      if (score > best) {
+        setBest(score)
+        saveBest('flappy-bird', score, difficultyRef.current)
       }
+    }
+  }
+
+  // ── Draw (once per animation frame) ─────────────────────
+  function render(alpha: number) {
+    const canvas = canvasRef.current
+    const run = runRef.current
+    if (!canvas || !run) return
+    const ctx = canvas.getContext('2d')!
+    const state = stateRef.current
+    const w = canvas.width
+    const h = canvas.height
+    const playH = h - GROUND_HEIGHT
+
+    drawWorld(ctx, run.state, alpha, 0, ghostRef.current?.state)
+
+    // get ready hint
+    if (state === 'playing' && !run.state.started) {
+      ctx.fillStyle = 'rgba(0,0,0,0.25)'
+      ctx.fillRect(0, 0, w, h)
+      ctx.fillStyle = '#fff'
+      ctx.font = 'bold 36px "Segoe UI", system-ui, sans-serif'
+      ctx.textAlign = 'center'
+      ctx.fillText('Get Ready!', w / 2, playH / 2 - 70)
+      ctx.font = '20px "Segoe UI", system-ui, sans-serif'
+      ctx.fillStyle = '#ddd'
+      ctx.fillText('Tap, click, or press Space to flap', w / 2, playH / 2 + 50)
+    }
+
+    // paused overlay
+    if (state === 'paused') {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)'
+      ctx.fillRect(0, 0, w, h)
+      ctx.fillStyle = '#fff'
+      ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif'
+      ctx.textAlign = 'center'
+      ctx.fillText('Paused', w / 2, playH / 2 - 40)
+      ctx.font = '18px "Segoe UI", system-ui, sans-serif'
+      ctx.fillStyle = '#aaa'
+      ctx.fillText('Press Esc or P to resume', w / 2, playH / 2 + 5)
+    }
+
+    if (state === 'gameover') {
+      ctx.fillStyle = 'rgba(0,0,0,0.45)'
+      ctx.fillRect(0, 0, w, h)
+      ctx.fillStyle = '#e94560'
+      ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif'
+      ctx.textAlign = 'center'
+      ctx.fillText('Game Over', w / 2, playH / 2 - 40)
+      ctx.fillStyle = '#fff'
+      ctx.font = '24px "Segoe UI", system-ui, sans-serif'
+      ctx.fillText(`Score: ${run.state.score}`, w / 2, playH / 2 + 10)
+    }
+  }
+
+  const { state: gameState, stateRef, setState: setGameState, togglePause } = useGameLoop({
+    step: STEP,
+    update,
+    render,
+  })
+
+  // Initialize / reset – the run keeps the world size it starts with, and
+  // a race runs in the ghost's world, letterboxed to fit this canvas
+  const resetGame = useCallback((w: number, h: number) => {
+    const s = { ...settingsRef.current }
+    const ghost = raceRef.current ? loadGhost(flappySim, 'flappy-bird', s, difficultyRef.current) : null
+    const seed = nextSeed(ghost?.seed)
+    // a `?seed=` challenge on another level has no ghost to race
+    const raced = ghost?.seed === seed ? ghost : null
+    runRef.current = createRun(
+      flappySim,
+      'flappy-bird',
+      s,
+      seed,
+      raced?.state.world ?? { width: w, height: h },
+      difficultyRef.current,
+    )
+    ghostRef.current = raced
+    setDisplayScore(0)
+  }, [nextSeed])
+
+  // ── Start / play again (canvas is sized on mount, then reset) ──
+  const startGame = useCallback(() => {
+    saveSettings('flappy-bird', difficultyRef.current, settingsRef.current)
+    needsInitRef.current = true
+    setGameState('playing')
+  }, [setGameState])
+
+  const playAgain = useCallback(() => {
+    const canvas = canvasRef.current
+    if (canvas) resetGame(canvas.width, canvas.height)
+    setGameState('playing')
+  }, [resetGame, setGameState])
+
+  const backToMenu = useCallback(() => {
+    setPilot(null)
+    setGameState('menu')
+  }, [setGameState])
+
+  // ── Bots ──
+  const watchBrain = useCallback((brain: SavedBrain) => {
+    setTraining(false)
+    setPilot(brain)
+    pilotRef.current = brain
+    needsInitRef.current = true
+    setGameState('playing')
+  }, [setGameState])
+
+  const closeTrainer = useCallback(() => {
+    setTraining(false)
+  }, [])
+
+  const flap = useCallback(() => {
+    if (stateRef.current !== 'playing') return
+    const run = runRef.current
+    if (!run) return
+    // the ghost waited on its own Get Ready – start it at its first flap
+    if (!run.state.started) ghostRef.current?.seek(ghostRef.current.start)
+    run.input('flap')
+  }, [stateRef])
+
+  const watchReplay = useCallback(() => {
+    setReplay(lastRecordingRef.current)
+  }, [])
 
-      rafRef.current = requestAnimationFrame(loop)
+  const closeReplay = useCallback(() => {
+    setReplay(null)
+  }, [])
+
+  // ── Canvas sizing + input ───────────────────────────────
+  useEffect(() => {
+    if (gameState === 'menu' || replay) return
+
+    const canvas = canvasRef.current
+    const container = containerRef.current
+    if (!canvas || !container) return
+
+    function resize() {
+      const rect = container!.getBoundingClientRect()
+      canvas!.width = rect.width
+      canvas!.height = rect.height
     }
+    resize()
+    window.addEventListener('resize', resize)
 
-    rafRef.current = requestAnimationFrame(loop)
+    // Deferred init – canvas is now mounted and sized
+    if (needsInitRef.current) {
+      needsInitRef.current = false
+      resetGame(canvas.width, canvas.height)
+    }
 
     // input
     function onKey(e: KeyboardEvent) {
+      if (e.key === 'Escape' || e.key === 'p' || e.key === 'P') {
+        e.preventDefault()
+        togglePause()
+        return
+      }
       if (e.code === 'Space' || e.key === ' ') {
         e.preventDefault()
-        flap()
+        if (e.repeat) return
+        if (stateRef.current === 'gameover') playAgain()
+        else tap()
       }
     }
-    function onClick() {
-      flap()
+    function onMouseDown() {
+      tap()
     }
     function onTouch(e: TouchEvent) {
       e.preventDefault()
-      flap()
+      tap()
+    }
+    // while a bot flies, the player only watches
+    function tap() {
+      if (!pilotRef.current) flap()
+    }
+
+    // switching tabs or minimising shouldn't cost the run
+    function onVisibility() {
+      if (document.hidden && stateRef.current === 'playing') togglePause()
     }
 
     window.addEventListener('keydown', onKey)
-    canvas.addEventListener('click', onClick)
+    document.addEventListener('visibilitychange', onVisibility)
+    canvas.addEventListener('mousedown', onMouseDown)
     canvas.addEventListener('touchstart', onTouch, { passive: false })
 
     return () => {
-      cancelAnimationFrame(rafRef.current)
       window.removeEventListener('resize', resize)
       window.removeEventListener('keydown', onKey)
-      canvas.removeEventListener('click', onClick)
+      document.removeEventListener('visibilitychange', onVisibility)
+      canvas.removeEventListener('mousedown', onMouseDown)
       canvas.removeEventListener('touchstart', onTouch)
     }
-  }, [flap, resetGame, best])
+  }, [gameState, replay, flap, playAgain, resetGame, stateRef, togglePause])
+
+  // ── Training ──
+  if (training) {
+    return <Trainer settings={settings} onWatch={watchBrain} onClose={closeTrainer} />
+  }
+
+  // ── Menu / Settings screen ──
+  if (gameState === 'menu') {
+    return (
+      <div className="flappy-menu">
+        <div className="flappy-menu-panel">
+          <h1 className="flappy-menu-title">Flappy Bird</h1>
+          <p className="flappy-menu-sub">Choose your difficulty</p>
+
+          <div className="flappy-diff-buttons">
+            {(['easy', 'medium', 'hard', 'custom'] as Difficulty[]).map((d) => (
+              <button
+                key={d}
+                className={`flappy-diff-btn ${difficulty === d ? 'flappy-diff-btn-active' : ''}`}
+                onClick={() => selectDifficulty(d)}
+              >
+                {d.charAt(0).toUpperCase() + d.slice(1)}
+              </button>
+            ))}
+          </div>
+
+          {difficulty === 'custom' && (
+            <div className="flappy-custom-settings">
+              <label className="flappy-setting-row">
+                <span className="flappy-setting-label">Gap Size</span>
+                <input
+                  type="range"
+                  min={CUSTOM_LIMITS.gap.min}
+                  max={CUSTOM_LIMITS.gap.max}
+                  step={CUSTOM_LIMITS.gap.step}
+                  value={settings.gap}
+                  onChange={(e) => setSettings(s => ({ ...s, gap: Number(e.target.value) }))}
+                />
+                <span className="flappy-setting-value">{settings.gap}px</span>
+              </label>
+
+              <label className="flappy-setting-row">
+                <span className="flappy-setting-label">Pipe Speed</span>
+                <input
+                  type="range"
+                  min={CUSTOM_LIMITS.pipeSpeed.min}
+                  max={CUSTOM_LIMITS.pipeSpeed.max}
+                  step={CUSTOM_LIMITS.pipeSpeed.step}
+                  value={settings.pipeSpeed}
+                  onChange={(e) => setSettings(s => ({ ...s, pipeSpeed: Number(e.target.value) }))}
+                />
+                <span className="flappy-setting-value">{settings.pipeSpeed}</span>
+              </label>
+
+              <label className="flappy-setting-row">
+                <span className="flappy-setting-label">Spawn Every</span>
+                <input
+                  type="range"
+                  min={CUSTOM_LIMITS.spawnInterval.min}
+                  max={CUSTOM_LIMITS.spawnInterval.max}
+                  step={CUSTOM_LIMITS.spawnInterval.step}
+                  value={settings.spawnInterval}
+                  onChange={(e) => setSettings(s => ({ ...s, spawnInterval: Number(e.target.value) }))}
+                />
+                <span className="flappy-setting-value">{settings.spawnInterval.toFixed(1)}s</span>
+              </label>
+
+              <label className="flappy-setting-row">
+                <span className="flappy-setting-label">Gravity</span>
+                <input
+                  type="range"
+                  min={CUSTOM_LIMITS.gravity.min}
+                  max={CUSTOM_LIMITS.gravity.max}
+                  step={CUSTOM_LIMITS.gravity.step}
+                  value={settings.gravity}
+                  onChange={(e) => setSettings(s => ({ ...s, gravity: Number(e.target.value) }))}
+                />
+                <span className="flappy-setting-value">{settings.gravity}</span>
+              </label>
+            </div>
+          )}
+
+          <div className="flappy-settings-summary">
+            <span>Gap: {settings.gap}px</span>
+            <span>Speed: {settings.pipeSpeed}</span>
+            <span>Gravity: {settings.gravity}</span>
+          </div>
+
+          <div className="flappy-race">
+            <span className="flappy-setting-label">Race Best Run</span>
+            <div className="flappy-diff-buttons">
+              {[true, false].map((on) => (
+                <button
+                  key={String(on)}
+                  className={`flappy-diff-btn ${race === on ? 'flappy-diff-btn-active' : ''}`}
+                  onClick={() => setRace(on)}
+                >
+                  {on ? 'On' : 'Off'}
+                </button>
+              ))}
+            </div>
+            <span className="flappy-race-hint">
+              {race
+                ? 'Flies the pipes of your best run, its ghost alongside.'
+                : 'New pipes every game, no ghost.'}
+            </span>
+          </div>
+
+          {best > 0 && (
+            <p className="flappy-best-line">
+              Best Score: <span className="flappy-best-val">{best}</span>
+            </p>
+          )}
+
+          <button className="flappy-start-btn" onClick={startGame}>
+            Start Game
+          </button>
+
+          <button className="flappy-train-btn" onClick={() => setTraining(true)}>
+            🧠 Train Bots
+          </button>
 
+          <Link className="flappy-leaderboard-link" to={`/leaderboard?game=flappy-bird&variant=${difficulty}`}>
+            🏆 Leaderboard
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  // ── Replay ──
+  if (replay) {
+    return (
+      <ReplayViewer sim={flappySim} recording={replay} draw={drawWorld} onClose={closeReplay} />
+    )
+  }
+
+  // ── Game screen ──
   return (
     <div className="flappy-container" ref={containerRef}>
       <canvas ref={canvasRef} className="flappy-canvas" />
       <div className="flappy-hud">
         <span className="hud-score">Score: {displayScore}</span>
         <span className="hud-best">Best: {best}</span>
-        {gameState === 'gameover' && (
-          <button className="hud-restart" onClick={flap}>
-            Play Again
+        {pilot && <span className="hud-score">🤖 Generation {pilot.generation}</span>}
+        {gameState === 'playing' && (
+          <button className="flappy-hud-pause" onClick={togglePause}>
+            Pause
           </button>
         )}
       </div>
+
+      {gameState === 'paused' && (
+        <div className="flappy-overlay">
+          <button className="flappy-overlay-btn" onClick={togglePause}>Resume</button>
+          <button className="flappy-overlay-btn flappy-overlay-btn-sec" onClick={backToMenu}>Quit to Menu</button>
+        </div>
+      )}
+
+      {gameState === 'gameover' && (
+        <div className="flappy-overlay">
+          {entry && (
+            <ScoreEntry game="flappy-bird" variant={difficulty} entry={entry} submission={submission} />
+          )}
+          <GlobalRank submission={submission} />
+          <button className="flappy-overlay-btn" onClick={playAgain}>Play Again</button>
+          <button className="flappy-overlay-btn flappy-overlay-btn-sec" onClick={watchReplay}>Watch Replay</button>
+          <button className="flappy-overlay-btn flappy-overlay-btn-sec" onClick={backToMenu}>Back to Menu</button>
+        </div>
+      )}
     </div>
   )
 }
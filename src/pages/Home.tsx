@@ -1,45 +1,20 @@
+import { useReducer } from "react";
+import { Link } from "react-router";
+import AttractMode from "../components/AttractMode";
 import GameCard from "../components/GameCard";
+import SaveTransfer from "../components/SaveTransfer";
+import { GAMES } from "../games/registry";
+import { loadBest } from "../engine/storage";
+import { useIdle } from "../engine/useIdle";
 import "./Home.css";
 
-const games = [
-  {
-    title: "Flappy Bird",
-    description:
-      "Tap to fly through the pipes! A classic arcade game that tests your timing and reflexes.",
-    path: "/flappy-bird",
-    emoji: "🐦",
-  },
-  {
-    title: "Snake",
-    description:
-      "Guide the snake, eat food, and grow longer. How long can you survive?",
-    path: "/snake",
-    emoji: "🐍",
-  },
-  {
-    title: "Match Three",
-    description:
-      "Swap and match colorful gems in this addictive puzzle game. Race against the clock!",
-    path: "/match-three",
-    emoji: "💎",
-  },
-  {
-    title: "Pixel Runner",
-    description:
-      "Jump across platforms, dodge obstacles, and collect coins in this endless runner!",
-    path: "/pixel-runner",
-    emoji: "🏃",
-  },
-  {
-    title: "Space Invaders",
-    description:
-      "Defend Earth from waves of descending aliens! Dodge enemy fire and destroy them all.",
-    path: "/space-invaders",
-    emoji: "👾",
-  },
-];
+const ATTRACT_AFTER = 30000; // ms without input before the demos take over
 
 function Home() {
+  // bumped after a save import so the cards re-read their bests
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const idle = useIdle(ATTRACT_AFTER);
+
   return (
     <div className="home">
       <section className="home-hero">
@@ -47,12 +22,25 @@ function Home() {
         <p className="home-subtitle">
           Pick a game and start playing instantly — no downloads, no installs.
         </p>
+        <Link to="/leaderboard" className="home-leaderboard-link">
+          🏆 Leaderboards
+        </Link>
       </section>
       <section className="home-grid">
-        {games.map((game) => (
-          <GameCard key={game.path} {...game} />
+        {GAMES.map((game) => (
+          <GameCard
+            key={game.id}
+            title={game.title}
+            description={game.description}
+            path={game.path}
+            emoji={game.emoji}
+            best={loadBest(game.id)}
+            demo={game.demo}
+          />
         ))}
       </section>
+      <SaveTransfer onImport={refresh} />
+      {idle && <AttractMode />}
     </div>
   );
 }
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { Link, useSearchParams } from "react-router";
+import { GAMES } from "../games/registry";
+import type { GameId } from "../games/registry";
+import { LEADERBOARD_SIZE } from "../games/leaderboard";
+import type { LeaderboardEntry } from "../games/leaderboard";
+import { loadLeaderboard, loadStats } from "../engine/storage";
+import {
+  fetchGlobalBoard,
+  normalizeServer,
+  pendingCount,
+  setSyncServer,
+  syncServer,
+} from "../engine/scoreSync";
+import type { GlobalBoard as GlobalBoardData } from "../engine/scoreSync";
+import "./Leaderboard.css";
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleDateString();
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+function ScoreTable({ entries }: { entries: LeaderboardEntry[] }) {
+  return (
+    <table className="leaderboard-table">
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Name</th>
+          <th className="leaderboard-num">Score</th>
+          <th className="leaderboard-date">Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.slice(0, LEADERBOARD_SIZE).map((e, i) => (
+          <tr key={`${e.date}-${i}`}>
+            <td className="leaderboard-rank">{i + 1}</td>
+            <td className="leaderboard-initials">{e.initials}</td>
+            <td className="leaderboard-num">{e.score}</td>
+            <td className="leaderboard-date">{formatDate(e.date)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ── Global board ──────────────────────────────────────────
+type GlobalState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ready"; board: GlobalBoardData };
+
+function GlobalBoard({ game, variant }: { game: GameId; variant: string }) {
+  const [server, setServer] = useState(syncServer);
+  const [draft, setDraft] = useState(server);
+  const [invalid, setInvalid] = useState(false);
+  const [global, setGlobal] = useState<GlobalState>({ status: "loading" });
+  const pending = pendingCount();
+
+  useEffect(() => {
+    if (!server) return;
+    let current = true;
+    setGlobal({ status: "loading" });
+    fetchGlobalBoard(game, variant).then(
+      (board) => current && setGlobal({ status: "ready", board }),
+      () => current && setGlobal({ status: "error" }),
+    );
+    return () => {
+      current = false;
+    };
+  }, [game, variant, server]);
+
+  function choose(next: string | null) {
+    setSyncServer(next);
+    const active = syncServer();
+    setServer(active);
+    setDraft(active);
+    setInvalid(false);
+  }
+
+  function save(e: FormEvent) {
+    e.preventDefault();
+    const normalized = normalizeServer(draft);
+    if (normalized === null) setInvalid(true);
+    else choose(normalized);
+  }
+
+  return (
+    <section className="leaderboard-global">
+      <h2 className="leaderboard-heading">🌍 Global</h2>
+      {server &&
+        (global.status === "loading" ? (
+          <p className="leaderboard-empty">Loading…</p>
+        ) : global.status === "error" ? (
+          <p className="leaderboard-empty">Couldn't reach {server}.</p>
+        ) : global.board.entries.length === 0 ? (
+          <p className="leaderboard-empty">
+            No {variant} scores on the server yet.
+          </p>
+        ) : (
+          <>
+            <ScoreTable entries={global.board.entries} />
+            <p className="leaderboard-stats">
+              {global.board.total}{" "}
+              {global.board.total === 1 ? "score" : "scores"} submitted
+            </p>
+          </>
+        ))}
+
+      <form className="leaderboard-server" onSubmit={save}>
+        <label
+          className="leaderboard-server-label"
+          htmlFor="leaderboard-server"
+        >
+          Leaderboard server
+        </label>
+        <div className="leaderboard-server-row">
+          <input
+            id="leaderboard-server"
+            className="leaderboard-server-input"
+            value={draft}
+            placeholder="https://scores.example.com (empty turns sync off)"
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setInvalid(false);
+            }}
+          />
+          <button className="leaderboard-variant" type="submit">
+            Save
+          </button>
+          <button
+            className="leaderboard-variant"
+            type="button"
+            onClick={() => choose(null)}
+          >
+            Default
+          </button>
+        </div>
+        {invalid && (
+          <span className="leaderboard-server-error">
+            Enter an http:// or https:// address.
+          </span>
+        )}
+        {pending > 0 && (
+          <span className="leaderboard-server-note">
+            {pending} {pending === 1 ? "score is" : "scores are"} waiting to be
+            sent.
+          </span>
+        )}
+      </form>
+    </section>
+  );
+}
+
+// Top scores per game and difficulty. `?game=` and `?variant=` pick the
+// table, so menus and game-over screens can link straight to theirs.
+function Leaderboard() {
+  const [params, setParams] = useSearchParams();
+  const game = GAMES.find((g) => g.id === params.get("game")) ?? GAMES[0];
+  const requested = params.get("variant") ?? "";
+  const variant = game.variants.includes(requested)
+    ? requested
+    : game.variants.includes("medium")
+      ? "medium"
+      : game.variants[0];
+  const entries = loadLeaderboard(game.id, variant);
+  const stats = loadStats(game.id);
+
+  return (
+    <div className="leaderboard">
+      <h1 className="leaderboard-title">Leaderboards</h1>
+
+      <div className="leaderboard-tabs">
+        {GAMES.map((g) => (
+          <button
+            key={g.id}
+            className={`leaderboard-tab ${g.id === game.id ? "leaderboard-tab-active" : ""}`}
+            onClick={() => setParams({ game: g.id, variant })}
+          >
+            <span className="leaderboard-tab-emoji">{g.emoji}</span>
+            {g.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="leaderboard-variants">
+        {game.variants.map((v) => (
+          <button
+            key={v}
+            className={`leaderboard-variant ${v === variant ? "leaderboard-variant-active" : ""}`}
+            onClick={() => setParams({ game: game.id, variant: v })}
+          >
+            {capitalize(v)}
+          </button>
+        ))}
+      </div>
+
+      {stats.plays > 0 && (
+        <p className="leaderboard-stats">
+          {game.title}: {stats.plays} {stats.plays === 1 ? "game" : "games"}{" "}
+          played · {formatDuration(stats.timePlayed)} in total · average score{" "}
+          {Math.round(stats.totalScore / stats.plays)}
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="leaderboard-empty">
+          No {variant} scores yet.{" "}
+          <Link to={game.path} className="leaderboard-play">
+            Play {game.title} →
+          </Link>
+        </p>
+      ) : (
+        <ScoreTable entries={entries} />
+      )}
+
+      <GlobalBoard game={game.id} variant={variant} />
+    </div>
+  );
+}
+
+export default Leaderboard;
@@ -1,43 +1,48 @@
 import { useRef, useEffect, useCallback, useState } from "react";
+import { Link } from "react-router";
+import {
+  loadBest,
+  loadSettings,
+  recordPlay,
+  saveBest,
+  saveSettings,
+} from "../engine/storage";
+import { addScore } from "../games/leaderboard";
+import type { LeaderboardEntry } from "../games/leaderboard";
+import { submitScore } from "../engine/scoreSync";
+import type { Submission } from "../engine/scoreSync";
+import { useGameLoop } from "../engine/useGameLoop";
+import { useRunSeed } from "../engine/useRunSeed";
+import { createRun } from "../engine/replay";
+import { createDemo } from "../engine/demo";
+import type { Demo } from "../engine/demo";
+import type { Recording, Run } from "../engine/replay";
+import {
+  CLEAR_MS,
+  FALL_MS,
+  FLOATER_MS,
+  PRESETS,
+  STEP,
+  SWAP_MS,
+  matchSim,
+} from "../games/match-three/sim";
+import type {
+  AnimState,
+  CellPos,
+  Difficulty,
+  FallInfo,
+  GameSettings,
+  MatchInput,
+  MatchState,
+} from "../games/match-three/sim";
+import { MAX_DEPTH, bestMove, solverPolicy } from "../games/match-three/solver";
+import type { Evaluation } from "../games/match-three/solver";
+import ReplayViewer from "../components/ReplayViewer";
+import ScoreEntry from "../components/ScoreEntry";
+import GlobalRank from "../components/GlobalRank";
 import "./MatchThree.css";
 
-// ── Types ──────────────────────────────────────────────────
-interface GameSettings {
-  timeLimit: number; // seconds
-  gridSize: number; // cells per row/col
-  gemTypes: number; // number of distinct gem colors
-}
-
-interface CellPos {
-  row: number;
-  col: number;
-}
-
-interface FallInfo {
-  col: number;
-  toRow: number;
-  fromRow: number; // negative values = new gem entering from above
-  gemType: number;
-}
-
-interface ScoreFloater {
-  x: number;
-  y: number;
-  text: string;
-  start: number;
-}
-
-type Difficulty = "easy" | "medium" | "hard";
-type GameState = "menu" | "playing" | "paused" | "gameover";
-type AnimState = "idle" | "swapping" | "swapping-back" | "clearing" | "falling";
-
 // ── Constants ─────────────────────────────────────────────
-const PRESETS: Record<Difficulty, GameSettings> = {
-  easy: { timeLimit: 180, gridSize: 7, gemTypes: 5 },
-  medium: { timeLimit: 120, gridSize: 8, gemTypes: 6 },
-  hard: { timeLimit: 90, gridSize: 9, gemTypes: 7 },
-};
-
 const GEM_COLORS = [
   { light: "#ff7b90", dark: "#c02040" }, // Red
   { light: "#ffc560", dark: "#d08800" }, // Orange
@@ -48,232 +53,28 @@ const GEM_COLORS = [
   { light: "#ff99cc", dark: "#e04890" }, // Pink
 ];
 
-const SWAP_MS = 200;
-const CLEAR_MS = 250;
-const FALL_MS = 300;
 const HINT_DELAY = 5000;
-const FLOATER_MS = 900;
+const AUTOPLAY_DELAY = 400; // ms the board stays settled before autoplay swaps
+const TIMER_BAR_H = 6;
 
 // ── Pure helpers ──────────────────────────────────────────
-function randomGem(n: number): number {
-  return Math.floor(Math.random() * n);
-}
-
 function easeOut(t: number): number {
   return 1 - (1 - t) * (1 - t);
 }
 
-// ── Board algorithms ──────────────────────────────────────
-function createBoard(size: number, types: number): number[][] {
-  const g: number[][] = [];
-  for (let r = 0; r < size; r++) {
-    g[r] = [];
-    for (let c = 0; c < size; c++) {
-      let gem: number;
-      do {
-        gem = randomGem(types);
-      } while (
-        (c >= 2 && g[r][c - 1] === gem && g[r][c - 2] === gem) ||
-        (r >= 2 && g[r - 1][c] === gem && g[r - 2][c] === gem)
-      );
-      g[r][c] = gem;
-    }
-  }
-  return g;
+interface BoardLayout {
+  offsetX: number;
+  offsetY: number;
+  cellSize: number;
 }
 
-interface MatchGroup {
-  cells: CellPos[];
-}
-
-function findMatches(grid: number[][]): MatchGroup[] {
-  const n = grid.length;
-  const matches: MatchGroup[] = [];
-
-  // horizontal
-  for (let r = 0; r < n; r++) {
-    let c = 0;
-    while (c < n) {
-      const t = grid[r][c];
-      if (t < 0) {
-        c++;
-        continue;
-      }
-      let end = c + 1;
-      while (end < n && grid[r][end] === t) end++;
-      if (end - c >= 3) {
-        const cells: CellPos[] = [];
-        for (let i = c; i < end; i++) cells.push({ row: r, col: i });
-        matches.push({ cells });
-      }
-      c = end;
-    }
-  }
-
-  // vertical
-  for (let c = 0; c < n; c++) {
-    let r = 0;
-    while (r < n) {
-      const t = grid[r][c];
-      if (t < 0) {
-        r++;
-        continue;
-      }
-      let end = r + 1;
-      while (end < n && grid[end][c] === t) end++;
-      if (end - r >= 3) {
-        const cells: CellPos[] = [];
-        for (let i = r; i < end; i++) cells.push({ row: i, col: c });
-        matches.push({ cells });
-      }
-      r = end;
-    }
-  }
-
-  return matches;
-}
-
-function getMatchedSet(matches: MatchGroup[]): Set<string> {
-  const s = new Set<string>();
-  for (const m of matches) for (const c of m.cells) s.add(`${c.row},${c.col}`);
-  return s;
-}
-
-function applyGravity(
-  grid: number[][],
-  types: number,
-): { newGrid: number[][]; fallData: FallInfo[] } {
-  const n = grid.length;
-  const newGrid: number[][] = Array.from({ length: n }, () =>
-    Array(n).fill(-1),
-  );
-  const fallData: FallInfo[] = [];
-
-  for (let c = 0; c < n; c++) {
-    const existing: { row: number; type: number }[] = [];
-    for (let r = n - 1; r >= 0; r--) {
-      if (grid[r][c] >= 0) existing.push({ row: r, type: grid[r][c] });
-    }
-
-    let write = n - 1;
-    for (const { row: fromRow, type } of existing) {
-      newGrid[write][c] = type;
-      if (fromRow !== write) {
-        fallData.push({ col: c, toRow: write, fromRow, gemType: type });
-      }
-      write--;
-    }
-
-    const numNew = write + 1;
-    for (let i = write; i >= 0; i--) {
-      const type = randomGem(types);
-      newGrid[i][c] = type;
-      fallData.push({ col: c, toRow: i, fromRow: i - numNew, gemType: type });
-    }
-  }
-
-  return { newGrid, fallData };
-}
-
-function wouldMatch(
-  grid: number[][],
-  r1: number,
-  c1: number,
-  r2: number,
-  c2: number,
-): boolean {
-  const n = grid.length;
-  const t1 = grid[r1][c1];
-  const t2 = grid[r2][c2];
-  if (t1 === t2) return false;
-
-  // temporarily swap
-  grid[r1][c1] = t2;
-  grid[r2][c2] = t1;
-
-  let found = false;
-
-  // check around (r1,c1) which now holds t2
-  let left = c1,
-    right = c1;
-  while (left > 0 && grid[r1][left - 1] === t2) left--;
-  while (right < n - 1 && grid[r1][right + 1] === t2) right++;
-  if (right - left + 1 >= 3) found = true;
-
-  if (!found) {
-    let top = r1,
-      bot = r1;
-    while (top > 0 && grid[top - 1][c1] === t2) top--;
-    while (bot < n - 1 && grid[bot + 1][c1] === t2) bot++;
-    if (bot - top + 1 >= 3) found = true;
-  }
-
-  // check around (r2,c2) which now holds t1
-  if (!found) {
-    let left2 = c2,
-      right2 = c2;
-    while (left2 > 0 && grid[r2][left2 - 1] === t1) left2--;
-    while (right2 < n - 1 && grid[r2][right2 + 1] === t1) right2++;
-    if (right2 - left2 + 1 >= 3) found = true;
-  }
-
-  if (!found) {
-    let top2 = r2,
-      bot2 = r2;
-    while (top2 > 0 && grid[top2 - 1][c2] === t1) top2--;
-    while (bot2 < n - 1 && grid[bot2 + 1][c2] === t1) bot2++;
-    if (bot2 - top2 + 1 >= 3) found = true;
-  }
-
-  // swap back
-  grid[r1][c1] = t1;
-  grid[r2][c2] = t2;
-  return found;
-}
-
-function findValidMove(grid: number[][]): CellPos[] | null {
-  const n = grid.length;
-  for (let r = 0; r < n; r++) {
-    for (let c = 0; c < n; c++) {
-      if (c < n - 1 && wouldMatch(grid, r, c, r, c + 1))
-        return [
-          { row: r, col: c },
-          { row: r, col: c + 1 },
-        ];
-      if (r < n - 1 && wouldMatch(grid, r, c, r + 1, c))
-        return [
-          { row: r, col: c },
-          { row: r + 1, col: c },
-        ];
-    }
-  }
-  return null;
-}
-
-function shuffleBoard(grid: number[][], types: number): number[][] {
-  const n = grid.length;
-  for (let attempt = 0; attempt < 100; attempt++) {
-    const flat = grid.flat();
-    for (let i = flat.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [flat[i], flat[j]] = [flat[j], flat[i]];
-    }
-    const ng: number[][] = [];
-    for (let r = 0; r < n; r++) ng[r] = flat.slice(r * n, (r + 1) * n);
-    if (findMatches(ng).length === 0 && findValidMove(ng) !== null) return ng;
-  }
-  return createBoard(n, types);
-}
-
-function calcScore(matches: MatchGroup[], cascade: number): number {
-  let total = 0;
-  for (const m of matches) {
-    const len = m.cells.length;
-    if (len <= 3) total += 50;
-    else if (len === 4) total += 150;
-    else total += 300;
-  }
-  return total * cascade;
+function boardLayout(w: number, h: number, gridSize: number): BoardLayout {
+  const topReserve = TIMER_BAR_H + 20;
+  const cellSize = Math.floor(Math.min(w - 16, h - topReserve - 8) / gridSize);
+  const gridPx = cellSize * gridSize;
+  const offsetX = Math.floor((w - gridPx) / 2);
+  const offsetY = Math.floor((h - gridPx) / 2) + Math.floor(topReserve / 2);
+  return { offsetX, offsetY, cellSize };
 }
 
 // ── Drawing helpers ───────────────────────────────────────
@@ -402,119 +203,536 @@ function drawInnerShape(
   }
 }
 
+
+// ── World ─────────────────────────────────────────────────
+// The board itself – timer bar, gems and their animations, combo text and
+// score floaters – shared by live play and the replay viewer.
+function drawWorld(
+  ctx: CanvasRenderingContext2D,
+  game: MatchState,
+  _alpha: number,
+  now: number,
+) {
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+  const clock = game.clock;
+  const gs = game.settings.gridSize;
+  const { offsetX, offsetY, cellSize } = boardLayout(w, h, gs);
+  const gridPx = cellSize * gs;
+
+  // ── Clear ──
+  ctx.fillStyle = "#0f0f1a";
+  ctx.fillRect(0, 0, w, h);
+
+  // ── Timer bar ──
+  const tbY = offsetY - TIMER_BAR_H - 10;
+  const fraction = game.timeRemaining / game.settings.timeLimit;
+  ctx.fillStyle = "rgba(255,255,255,0.08)";
+  ctx.beginPath();
+  ctx.roundRect(offsetX, tbY, gridPx, TIMER_BAR_H, 3);
+  ctx.fill();
+  if (fraction > 0) {
+    ctx.fillStyle =
+      fraction > 0.5
+        ? "#4aea6e"
+        : fraction > 0.25
+          ? "#f5c842"
+          : fraction > 0.1
+            ? "#f5a623"
+            : "#e94560";
+    ctx.beginPath();
+    ctx.roundRect(offsetX, tbY, gridPx * fraction, TIMER_BAR_H, 3);
+    ctx.fill();
+  }
+
+  // ── Grid background ──
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(offsetX, offsetY, gridPx, gridPx);
+  ctx.clip();
+
+  for (let r = 0; r < gs; r++) {
+    for (let c = 0; c < gs; c++) {
+      ctx.fillStyle = (r + c) % 2 === 0 ? "#1a1a32" : "#16162a";
+      ctx.fillRect(
+        offsetX + c * cellSize,
+        offsetY + r * cellSize,
+        cellSize,
+        cellSize,
+      );
+    }
+  }
+
+  // ── Build fall lookup ──
+  const fallMap = new Map<string, FallInfo>();
+  if (game.animState === "falling") {
+    for (const f of game.fallData) fallMap.set(`${f.toRow},${f.col}`, f);
+  }
+
+  const animT = (anim: AnimState) => {
+    if (game.animState !== anim) return 0;
+    return Math.min(
+      1,
+      (clock - game.animStart) /
+        (anim === "clearing"
+          ? CLEAR_MS
+          : anim === "falling"
+            ? FALL_MS
+            : SWAP_MS),
+    );
+  };
+
+  // ── Draw gems ──
+  for (let r = 0; r < gs; r++) {
+    for (let c = 0; c < gs; c++) {
+      const gemType = game.grid[r][c];
+      if (gemType < 0) continue;
+
+      const key = `${r},${c}`;
+
+      // skip swapping gems (drawn separately)
+      if (
+        (game.animState === "swapping" ||
+          game.animState === "swapping-back") &&
+        ((r === game.swapFrom.row && c === game.swapFrom.col) ||
+          (r === game.swapTo.row && c === game.swapTo.col))
+      )
+        continue;
+
+      // clearing animation
+      if (game.animState === "clearing" && game.matchedCells.has(key)) {
+        const t = animT("clearing");
+        drawGem(
+          ctx,
+          offsetX + c * cellSize,
+          offsetY + r * cellSize,
+          cellSize,
+          gemType,
+          1 - t * 0.6,
+          1 - t,
+        );
+        continue;
+      }
+
+      // falling animation
+      if (game.animState === "falling" && fallMap.has(key)) {
+        const f = fallMap.get(key)!;
+        const t = easeOut(animT("falling"));
+        const visRow = f.fromRow + (f.toRow - f.fromRow) * t;
+        drawGem(
+          ctx,
+          offsetX + c * cellSize,
+          offsetY + visRow * cellSize,
+          cellSize,
+          gemType,
+        );
+        continue;
+      }
+
+      drawGem(
+        ctx,
+        offsetX + c * cellSize,
+        offsetY + r * cellSize,
+        cellSize,
+        gemType,
+      );
+    }
+  }
+
+  // ── Draw swapping gems ──
+  if (game.animState === "swapping" || game.animState === "swapping-back") {
+    const sf = game.swapFrom,
+      st = game.swapTo;
+    const t = easeOut(animT(game.animState));
+    const fX = offsetX + sf.col * cellSize;
+    const fY = offsetY + sf.row * cellSize;
+    const tX = offsetX + st.col * cellSize;
+    const tY = offsetY + st.row * cellSize;
+
+    if (game.animState === "swapping") {
+      drawGem(
+        ctx,
+        fX + (tX - fX) * t,
+        fY + (tY - fY) * t,
+        cellSize,
+        game.grid[sf.row][sf.col],
+      );
+      drawGem(
+        ctx,
+        tX + (fX - tX) * t,
+        tY + (fY - tY) * t,
+        cellSize,
+        game.grid[st.row][st.col],
+      );
+    } else {
+      drawGem(
+        ctx,
+        tX + (fX - tX) * t,
+        tY + (fY - tY) * t,
+        cellSize,
+        game.grid[sf.row][sf.col],
+      );
+      drawGem(
+        ctx,
+        fX + (tX - fX) * t,
+        fY + (tY - fY) * t,
+        cellSize,
+        game.grid[st.row][st.col],
+      );
+    }
+  }
+
+  ctx.restore(); // remove clip
+
+  // ── Cascade text ──
+  if (
+    game.cascadeLevel > 1 &&
+    (game.animState === "clearing" || game.animState === "falling")
+  ) {
+    const pulseA = Math.sin(now * 0.009) * 0.1 + 0.9;
+    ctx.fillStyle = `rgba(245,200,66,${pulseA})`;
+    ctx.font = `bold ${Math.round(cellSize * 0.6)}px "Segoe UI", system-ui, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.strokeStyle = "rgba(0,0,0,0.5)";
+    ctx.lineWidth = 3;
+    const txt = `Combo x${game.cascadeLevel}!`;
+    ctx.strokeText(txt, w / 2, offsetY - 30);
+    ctx.fillText(txt, w / 2, offsetY - 30);
+  }
+
+  // ── Score floaters (x/y stored as grid col/row) ──
+  for (const f of game.floaters) {
+    const t = Math.min(1, (clock - f.start) / FLOATER_MS);
+    const px = offsetX + (f.x + 0.5) * cellSize;
+    const py = offsetY + (f.y + 0.5) * cellSize - t * 35;
+    ctx.globalAlpha = 1 - t;
+    ctx.fillStyle = "#fff";
+    ctx.strokeStyle = "rgba(0,0,0,0.5)";
+    ctx.lineWidth = 2;
+    ctx.font = `bold ${Math.round(cellSize * 0.42)}px "Segoe UI", system-ui, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.strokeText(f.text, px, py);
+    ctx.fillText(f.text, px, py);
+    ctx.globalAlpha = 1;
+  }
+
+  // ── Grid border ──
+  ctx.strokeStyle = "rgba(255,255,255,0.08)";
+  ctx.lineWidth = 2;
+  ctx.strokeRect(offsetX, offsetY, gridPx, gridPx);
+}
+
+// ── Demo ──────────────────────────────────────────────────
+// Home's preview: the solver playing medium, swapping as soon as the board
+// settles.
+export function demo(): Demo | null {
+  const settings = { ...PRESETS.medium };
+  return createDemo({
+    sim: matchSim,
+    game: "match-three",
+    variant: "medium",
+    settings,
+    world: { width: settings.gridSize, height: settings.gridSize },
+    draw: drawWorld,
+    policy: solverPolicy(),
+  });
+}
+
 // ── Component ─────────────────────────────────────────────
 function MatchThree() {
-  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
-  const [settings, setSettings] = useState<GameSettings>({ ...PRESETS.medium });
-  const [gameState, setGameState] = useState<GameState>("menu");
+  const [restored] = useState(() =>
+    loadSettings<Difficulty, GameSettings>("match-three", PRESETS),
+  );
+  const [difficulty, setDifficulty] = useState<Difficulty>(
+    restored?.difficulty ?? "medium",
+  );
+  const [settings, setSettings] = useState<GameSettings>(
+    restored?.settings ?? { ...PRESETS.medium },
+  );
   const [displayScore, setDisplayScore] = useState(0);
   const [displayTime, setDisplayTime] = useState(0);
-  const [best, setBest] = useState(() => {
-    const v = localStorage.getItem("match3-best");
-    return v ? parseInt(v, 10) : 0;
-  });
+  const [best, setBest] = useState(() =>
+    loadBest("match-three", restored?.difficulty ?? "medium"),
+  );
+  const [entry, setEntry] = useState<LeaderboardEntry | null>(null);
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [lookahead, setLookahead] = useState(1);
+  const [autoplay, setAutoplay] = useState(false);
+
+  const [replay, setReplay] = useState<Recording<
+    MatchInput,
+    GameSettings
+  > | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const stateRef = useRef<GameState>("menu");
   const settingsRef = useRef<GameSettings>(settings);
-  const rafRef = useRef(0);
-  const frameRef = useRef(0);
-  const layoutRef = useRef({ offsetX: 0, offsetY: 0, cellSize: 1 });
+  const difficultyRef = useRef<Difficulty>(difficulty);
+  const lookaheadRef = useRef(lookahead);
+  const autoplayRef = useRef(autoplay);
+  const runRef = useRef<Run<MatchState, MatchInput, GameSettings> | null>(
+    null,
+  );
+  const lastRecordingRef = useRef<Recording<
+    MatchInput,
+    GameSettings
+  > | null>(null);
+  const { nextSeed } = useRunSeed();
+  const layoutRef = useRef<BoardLayout>({ offsetX: 0, offsetY: 0, cellSize: 1 });
   const dragRef = useRef<{
     startX: number;
     startY: number;
     cell: CellPos;
   } | null>(null);
 
-  const gameRef = useRef({
-    grid: [] as number[][],
-    score: 0,
-    timeRemaining: 0,
-    cascadeLevel: 0,
+  // Selection and hints are UI only – the run just sees the swaps.
+  const uiRef = useRef({
     selected: null as CellPos | null,
-    animState: "idle" as AnimState,
-    animStart: 0,
-    swapFrom: { row: 0, col: 0 } as CellPos,
-    swapTo: { row: 0, col: 0 } as CellPos,
-    matchedCells: new Set<string>(),
-    fallData: [] as FallInfo[],
-    lastInteraction: 0,
-    lastTickTime: 0,
+    lastInteraction: 0, // game clock (ms)
     hintMove: null as CellPos[] | null,
-    floaters: [] as ScoreFloater[],
+    settledAt: 0, // game clock (ms) the board last stopped moving
+    board: 0, // counts the steps the board moved on, to key `best` by
+    best: null as { key: string; move: Evaluation | null } | null,
   });
 
   useEffect(() => {
     settingsRef.current = settings;
   }, [settings]);
 
+  useEffect(() => {
+    difficultyRef.current = difficulty;
+  }, [difficulty]);
+
+  useEffect(() => {
+    lookaheadRef.current = lookahead;
+  }, [lookahead]);
+
+  useEffect(() => {
+    autoplayRef.current = autoplay;
+  }, [autoplay]);
+
   const selectDifficulty = useCallback((d: Difficulty) => {
     setDifficulty(d);
+    setBest(loadBest("match-three", d));
     setSettings({ ...PRESETS[d] });
   }, []);
 
   const initGame = useCallback(() => {
-    const s = settingsRef.current;
-    let grid = createBoard(s.gridSize, s.gemTypes);
-    if (!findValidMove(grid)) grid = shuffleBoard(grid, s.gemTypes);
-    gameRef.current = {
-      grid,
-      score: 0,
-      timeRemaining: s.timeLimit,
-      cascadeLevel: 0,
+    const s = { ...settingsRef.current };
+    runRef.current = createRun(
+      matchSim,
+      "match-three",
+      s,
+      nextSeed(),
+      { width: s.gridSize, height: s.gridSize },
+      difficultyRef.current,
+    );
+    uiRef.current = {
       selected: null,
-      animState: "idle",
-      animStart: 0,
-      swapFrom: { row: 0, col: 0 },
-      swapTo: { row: 0, col: 0 },
-      matchedCells: new Set(),
-      fallData: [],
-      lastInteraction: performance.now(),
-      lastTickTime: 0,
+      lastInteraction: 0,
       hintMove: null,
-      floaters: [],
+      settledAt: 0,
+      board: 0,
+      best: null,
     };
     setDisplayScore(0);
     setDisplayTime(s.timeLimit);
-  }, []);
+  }, [nextSeed]);
+
+  // The solver's pick for the board as it stands. Hints and autoplay ask for
+  // it on every frame the board is still, so it is only worked out again
+  // once the board has moved – a board with no move left would otherwise
+  // be searched in full each time.
+  function bestNow(grid: number[][]): Evaluation | null {
+    const ui = uiRef.current;
+    const key = `${ui.board}/${lookaheadRef.current}`;
+    if (ui.best?.key !== key) {
+      ui.best = { key, move: bestMove(grid, lookaheadRef.current) };
+    }
+    return ui.best.move;
+  }
+
+  // ── Update (one fixed step) ──
+  function update() {
+    const run = runRef.current;
+    if (!run) return;
+    const ui = uiRef.current;
+
+    // autoplay swaps through the same input as the player, once the board
+    // has been still long enough to follow
+    if (
+      autoplayRef.current &&
+      run.state.animState === "idle" &&
+      run.state.clock - ui.settledAt >= AUTOPLAY_DELAY
+    ) {
+      const best = bestNow(run.state.grid);
+      if (best) run.input(best.move);
+    }
+    run.update();
+
+    const game = run.state;
+    if (game.score !== displayScore) setDisplayScore(game.score);
+    setDisplayTime(Math.ceil(Math.max(0, game.timeRemaining)));
+    if (game.animState !== "idle") {
+      ui.hintMove = null;
+      ui.settledAt = game.clock;
+      ui.board++;
+    }
+
+    if (game.over) {
+      lastRecordingRef.current = run.recording();
+      setGameState("gameover");
+      // autoplay runs can be replayed but don't count as the player's
+      if (autoplayRef.current) {
+        setEntry(null);
+        setSubmission(null);
+        return;
+      }
+      setEntry(addScore("match-three", difficultyRef.current, game.score));
+      setSubmission(submitScore(lastRecordingRef.current));
+      recordPlay("match-three", game.score, game.tick * STEP);
+      if (game.score > loadBest("match-three", difficultyRef.current)) {
+        saveBest("match-three", game.score, difficultyRef.current);
+        setBest(game.score);
+      }
+    }
+  }
+
+  // ── Draw ──
+  function render(_alpha: number, now: number) {
+    const canvas = canvasRef.current;
+    const run = runRef.current;
+    if (!canvas || !run) return;
+    const ctx = canvas.getContext("2d")!;
+    const w = canvas.width;
+    const h = canvas.height;
+    const game = run.state;
+    const ui = uiRef.current;
+
+    drawWorld(ctx, game, 1, now);
+
+    const layout = boardLayout(w, h, game.settings.gridSize);
+    layoutRef.current = layout;
+    const { offsetX, offsetY, cellSize } = layout;
+
+    // ── Selection highlight ──
+    if (
+      ui.selected &&
+      game.animState === "idle" &&
+      stateRef.current === "playing"
+    ) {
+      const s = ui.selected;
+      const pulse = Math.sin(now * 0.006) * 0.15 + 0.85;
+      const pad = Math.max(1, cellSize * 0.06);
+      ctx.strokeStyle = `rgba(255,255,255,${pulse})`;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.roundRect(
+        offsetX + s.col * cellSize + pad,
+        offsetY + s.row * cellSize + pad,
+        cellSize - pad * 2,
+        cellSize - pad * 2,
+        Math.max(2, cellSize * 0.18),
+      );
+      ctx.stroke();
+    }
+
+    // ── Hint ──
+    if (
+      game.animState === "idle" &&
+      stateRef.current === "playing" &&
+      !autoplayRef.current &&
+      game.clock - ui.lastInteraction > HINT_DELAY
+    ) {
+      if (!ui.hintMove) {
+        const best = bestNow(game.grid);
+        ui.hintMove = best && [best.move.from, best.move.to];
+      }
+      if (ui.hintMove) {
+        const pulse = Math.sin(now * 0.0048) * 0.2 + 0.25;
+        ctx.fillStyle = `rgba(255,255,255,${pulse})`;
+        for (const hc of ui.hintMove) {
+          ctx.beginPath();
+          ctx.roundRect(
+            offsetX + hc.col * cellSize + 2,
+            offsetY + hc.row * cellSize + 2,
+            cellSize - 4,
+            cellSize - 4,
+            Math.max(2, cellSize * 0.18),
+          );
+          ctx.fill();
+        }
+      }
+    }
+
+    // ── Paused overlay ──
+    if (stateRef.current === "paused") {
+      ctx.fillStyle = "rgba(0,0,0,0.55)";
+      ctx.fillRect(0, 0, w, h);
+      ctx.fillStyle = "#fff";
+      ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif';
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText("Paused", w / 2, h / 2 - 20);
+      ctx.font = '18px "Segoe UI", system-ui, sans-serif';
+      ctx.fillStyle = "#aaa";
+      ctx.fillText("Press Space or Esc to resume", w / 2, h / 2 + 25);
+    }
+
+    // ── Game over overlay ──
+    if (stateRef.current === "gameover") {
+      ctx.fillStyle = "rgba(0,0,0,0.55)";
+      ctx.fillRect(0, 0, w, h);
+      ctx.fillStyle = "#e94560";
+      ctx.font = 'bold 42px "Segoe UI", system-ui, sans-serif';
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText("Time's Up!", w / 2, h / 2 - 30);
+      ctx.fillStyle = "#fff";
+      ctx.font = '24px "Segoe UI", system-ui, sans-serif';
+      ctx.fillText(`Score: ${game.score}`, w / 2, h / 2 + 15);
+    }
+  }
+
+  const {
+    state: gameState,
+    stateRef,
+    setState: setGameState,
+    togglePause,
+  } = useGameLoop({ step: STEP, update, render });
 
   const startGame = useCallback(() => {
+    saveSettings("match-three", difficultyRef.current, settingsRef.current);
     initGame();
-    stateRef.current = "playing";
     setGameState("playing");
-  }, [initGame]);
-
-  const togglePause = useCallback(() => {
-    if (stateRef.current === "playing") {
-      stateRef.current = "paused";
-      setGameState("paused");
-    } else if (stateRef.current === "paused") {
-      gameRef.current.lastTickTime = 0; // avoid time jump
-      stateRef.current = "playing";
-      setGameState("playing");
-    }
-  }, []);
+  }, [initGame, setGameState]);
 
   const backToMenu = useCallback(() => {
-    stateRef.current = "menu";
     setGameState("menu");
-  }, []);
+  }, [setGameState]);
 
   const playAgain = useCallback(() => {
     initGame();
-    stateRef.current = "playing";
     setGameState("playing");
-  }, [initGame]);
+  }, [initGame, setGameState]);
+
+  const watchReplay = useCallback(() => {
+    setReplay(lastRecordingRef.current);
+  }, []);
 
-  // ── Main render loop ──
+  const closeReplay = useCallback(() => {
+    setReplay(null);
+  }, []);
+
+  // ── Canvas sizing + input ──
   useEffect(() => {
-    if (gameState === "menu") return;
+    if (gameState === "menu" || replay) return;
 
     const canvas = canvasRef.current;
     const container = containerRef.current;
     if (!canvas || !container) return;
-    const ctx = canvas.getContext("2d")!;
 
     function resize() {
       const rect = container!.getBoundingClientRect();
@@ -537,48 +755,54 @@ function MatchThree() {
       return { row, col };
     }
 
+    function swap(from: CellPos, to: CellPos) {
+      const run = runRef.current!;
+      const ui = uiRef.current;
+      ui.lastInteraction = run.state.clock;
+      ui.hintMove = null;
+      ui.selected = null;
+      run.input({ from, to });
+    }
+
     // ── Tap handler (small movement / no drag) ──
     function handleTap(clientX: number, clientY: number) {
-      if (stateRef.current !== "playing") return;
-      const game = gameRef.current;
-      if (game.animState !== "idle") return;
+      if (stateRef.current !== "playing" || autoplayRef.current) return;
+      const run = runRef.current;
+      if (!run || run.state.animState !== "idle") return;
+      const ui = uiRef.current;
 
       const cell = clientToCell(clientX, clientY);
       if (!cell) {
-        game.selected = null;
+        ui.selected = null;
         return;
       }
 
-      game.lastInteraction = performance.now();
-      game.hintMove = null;
+      ui.lastInteraction = run.state.clock;
+      ui.hintMove = null;
 
-      if (!game.selected) {
-        game.selected = cell;
+      if (!ui.selected) {
+        ui.selected = cell;
         return;
       }
 
-      const sel = game.selected;
+      const sel = ui.selected;
       if (sel.row === cell.row && sel.col === cell.col) {
-        game.selected = null;
+        ui.selected = null;
         return;
       }
 
       if (Math.abs(sel.row - cell.row) + Math.abs(sel.col - cell.col) === 1) {
-        game.swapFrom = { ...sel };
-        game.swapTo = cell;
-        game.animState = "swapping";
-        game.animStart = performance.now();
-        game.selected = null;
+        swap(sel, cell);
       } else {
-        game.selected = cell;
+        ui.selected = cell;
       }
     }
 
     // ── Drag/swipe handler (significant movement) ──
     function handleSwipe(startCell: CellPos, dx: number, dy: number) {
-      if (stateRef.current !== "playing") return;
-      const game = gameRef.current;
-      if (game.animState !== "idle") return;
+      if (stateRef.current !== "playing" || autoplayRef.current) return;
+      const run = runRef.current;
+      if (!run || run.state.animState !== "idle") return;
 
       const gs = settingsRef.current.gridSize;
       let targetRow = startCell.row;
@@ -593,13 +817,7 @@ function MatchThree() {
       if (targetRow < 0 || targetRow >= gs || targetCol < 0 || targetCol >= gs)
         return;
 
-      game.lastInteraction = performance.now();
-      game.hintMove = null;
-      game.selected = null;
-      game.swapFrom = { ...startCell };
-      game.swapTo = { row: targetRow, col: targetCol };
-      game.animState = "swapping";
-      game.animStart = performance.now();
+      swap(startCell, { row: targetRow, col: targetCol });
     }
 
     const DRAG_THRESHOLD = 10;
@@ -671,413 +889,7 @@ function MatchThree() {
     canvas.addEventListener("touchend", onTouchEnd, { passive: false });
     window.addEventListener("keydown", onKey);
 
-    // ── Animation state machine + draw ──
-    function draw() {
-      const w = canvas!.width;
-      const h = canvas!.height;
-      const now = performance.now();
-      const game = gameRef.current;
-      const gs = settingsRef.current.gridSize;
-
-      frameRef.current++;
-
-      // ── Timer ──
-      if (stateRef.current === "playing") {
-        if (game.lastTickTime > 0) {
-          const dt = (now - game.lastTickTime) / 1000;
-          if (dt < 0.5) game.timeRemaining -= dt;
-        }
-        game.lastTickTime = now;
-
-        if (game.timeRemaining <= 0) {
-          game.timeRemaining = 0;
-          stateRef.current = "gameover";
-          setGameState("gameover");
-          const cur = parseInt(
-            localStorage.getItem("match3-best") || "0",
-            10,
-          );
-          if (game.score > cur) {
-            localStorage.setItem("match3-best", String(game.score));
-            setBest(game.score);
-          }
-        }
-      } else {
-        game.lastTickTime = 0;
-      }
-
-      setDisplayTime(Math.ceil(Math.max(0, game.timeRemaining)));
-
-      // ── Animation transitions ──
-      if (game.animState === "swapping" && now - game.animStart >= SWAP_MS) {
-        const { grid, swapFrom: sf, swapTo: st } = game;
-        [grid[sf.row][sf.col], grid[st.row][st.col]] = [
-          grid[st.row][st.col],
-          grid[sf.row][sf.col],
-        ];
-        const matches = findMatches(grid);
-        if (matches.length > 0) {
-          game.matchedCells = getMatchedSet(matches);
-          game.cascadeLevel = 1;
-          const pts = calcScore(matches, game.cascadeLevel);
-          game.score += pts;
-          setDisplayScore(game.score);
-          addFloaters(game, matches, pts, now);
-          game.animState = "clearing";
-          game.animStart = now;
-        } else {
-          [grid[sf.row][sf.col], grid[st.row][st.col]] = [
-            grid[st.row][st.col],
-            grid[sf.row][sf.col],
-          ];
-          game.animState = "swapping-back";
-          game.animStart = now;
-        }
-      }
-
-      if (
-        game.animState === "swapping-back" &&
-        now - game.animStart >= SWAP_MS
-      ) {
-        game.animState = "idle";
-      }
-
-      if (game.animState === "clearing" && now - game.animStart >= CLEAR_MS) {
-        for (const key of game.matchedCells) {
-          const [r, c] = key.split(",").map(Number);
-          game.grid[r][c] = -1;
-        }
-        const { newGrid, fallData } = applyGravity(
-          game.grid,
-          settingsRef.current.gemTypes,
-        );
-        game.grid = newGrid;
-        game.fallData = fallData;
-        game.matchedCells = new Set();
-        game.animState = "falling";
-        game.animStart = now;
-      }
-
-      if (game.animState === "falling" && now - game.animStart >= FALL_MS) {
-        const matches = findMatches(game.grid);
-        if (matches.length > 0) {
-          game.matchedCells = getMatchedSet(matches);
-          game.cascadeLevel++;
-          const pts = calcScore(matches, game.cascadeLevel);
-          game.score += pts;
-          setDisplayScore(game.score);
-          addFloaters(game, matches, pts, now);
-          game.animState = "clearing";
-          game.animStart = now;
-        } else {
-          game.cascadeLevel = 0;
-          if (!findValidMove(game.grid)) {
-            game.grid = shuffleBoard(game.grid, settingsRef.current.gemTypes);
-          }
-          game.animState = "idle";
-          game.hintMove = null;
-        }
-      }
-
-      // ── Layout ──
-      const timerBarH = 6;
-      const topReserve = timerBarH + 20;
-      const cellSize = Math.floor(Math.min(w - 16, h - topReserve - 8) / gs);
-      const gridPx = cellSize * gs;
-      const offsetX = Math.floor((w - gridPx) / 2);
-      const offsetY = Math.floor((h - gridPx) / 2) + Math.floor(topReserve / 2);
-      layoutRef.current = { offsetX, offsetY, cellSize };
-
-      // ── Clear ──
-      ctx.fillStyle = "#0f0f1a";
-      ctx.fillRect(0, 0, w, h);
-
-      // ── Timer bar ──
-      const tbY = offsetY - timerBarH - 10;
-      const fraction = game.timeRemaining / settingsRef.current.timeLimit;
-      ctx.fillStyle = "rgba(255,255,255,0.08)";
-      ctx.beginPath();
-      ctx.roundRect(offsetX, tbY, gridPx, timerBarH, 3);
-      ctx.fill();
-      if (fraction > 0) {
-        ctx.fillStyle =
-          fraction > 0.5
-            ? "#4aea6e"
-            : fraction > 0.25
-              ? "#f5c842"
-              : fraction > 0.1
-                ? "#f5a623"
-                : "#e94560";
-        ctx.beginPath();
-        ctx.roundRect(offsetX, tbY, gridPx * fraction, timerBarH, 3);
-        ctx.fill();
-      }
-
-      // ── Grid background ──
-      ctx.save();
-      ctx.beginPath();
-      ctx.rect(offsetX, offsetY, gridPx, gridPx);
-      ctx.clip();
-
-      for (let r = 0; r < gs; r++) {
-        for (let c = 0; c < gs; c++) {
-          ctx.fillStyle = (r + c) % 2 === 0 ? "#1a1a32" : "#16162a";
-          ctx.fillRect(
-            offsetX + c * cellSize,
-            offsetY + r * cellSize,
-            cellSize,
-            cellSize,
-          );
-        }
-      }
-
-      // ── Build fall lookup ──
-      const fallMap = new Map<string, FallInfo>();
-      if (game.animState === "falling") {
-        for (const f of game.fallData) fallMap.set(`${f.toRow},${f.col}`, f);
-      }
-
-      const animT = (anim: AnimState) => {
-        if (game.animState !== anim) return 0;
-        return Math.min(
-          1,
-          (now - game.animStart) /
-            (anim === "clearing"
-              ? CLEAR_MS
-              : anim === "falling"
-                ? FALL_MS
-                : SWAP_MS),
-        );
-      };
-
-      // ── Draw gems ──
-      for (let r = 0; r < gs; r++) {
-        for (let c = 0; c < gs; c++) {
-          const gemType = game.grid[r][c];
-          if (gemType < 0) continue;
-
-          const key = `${r},${c}`;
-
-          // skip swapping gems (drawn separately)
-          if (
-            (game.animState === "swapping" ||
-              game.animState === "swapping-back") &&
-            ((r === game.swapFrom.row && c === game.swapFrom.col) ||
-              (r === game.swapTo.row && c === game.swapTo.col))
-          )
-            continue;
-
-          // clearing animation
-          if (game.animState === "clearing" && game.matchedCells.has(key)) {
-            const t = animT("clearing");
-            drawGem(
-              ctx,
-              offsetX + c * cellSize,
-              offsetY + r * cellSize,
-              cellSize,
-              gemType,
-              1 - t * 0.6,
-              1 - t,
-            );
-            continue;
-          }
-
-          // falling animation
-          if (game.animState === "falling" && fallMap.has(key)) {
-            const f = fallMap.get(key)!;
-            const t = easeOut(animT("falling"));
-            const visRow = f.fromRow + (f.toRow - f.fromRow) * t;
-            drawGem(
-              ctx,
-              offsetX + c * cellSize,
-              offsetY + visRow * cellSize,
-              cellSize,
-              gemType,
-            );
-            continue;
-          }
-
-          drawGem(
-            ctx,
-            offsetX + c * cellSize,
-            offsetY + r * cellSize,
-            cellSize,
-            gemType,
-          );
-        }
-      }
-
-      // ── Draw swapping gems ──
-      if (game.animState === "swapping" || game.animState === "swapping-back") {
-        const sf = game.swapFrom,
-          st = game.swapTo;
-        const t = easeOut(animT(game.animState));
-        const fX = offsetX + sf.col * cellSize;
-        const fY = offsetY + sf.row * cellSize;
-        const tX = offsetX + st.col * cellSize;
-        const tY = offsetY + st.row * cellSize;
-
-        if (game.animState === "swapping") {
-          drawGem(
-            ctx,
-            fX + (tX - fX) * t,
-            fY + (tY - fY) * t,
-            cellSize,
-            game.grid[sf.row][sf.col],
-          );
-          drawGem(
-            ctx,
-            tX + (fX - tX) * t,
-            tY + (fY - tY) * t,
-            cellSize,
-            game.grid[st.row][st.col],
-          );
-        } else {
-          drawGem(
-            ctx,
-            tX + (fX - tX) * t,
-            tY + (fY - tY) * t,
-            cellSize,
-            game.grid[sf.row][sf.col],
-          );
-          drawGem(
-            ctx,
-            fX + (tX - fX) * t,
-            fY + (tY - fY) * t,
-            cellSize,
-            game.grid[st.row][st.col],
-          );
-        }
-      }
-
-      ctx.restore(); // remove clip
-
-      // ── Selection highlight ──
-      if (
-        game.selected &&
-        game.animState === "idle" &&
-        stateRef.current === "playing"
-      ) {
-        const s = game.selected;
-        const pulse = Math.sin(frameRef.current * 0.1) * 0.15 + 0.85;
-        const pad = Math.max(1, cellSize * 0.06);
-        ctx.strokeStyle = `rgba(255,255,255,${pulse})`;
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        ctx.roundRect(
-          offsetX + s.col * cellSize + pad,
-          offsetY + s.row * cellSize + pad,
-          cellSize - pad * 2,
-          cellSize - pad * 2,
-          Math.max(2, cellSize * 0.18),
-        );
-        ctx.stroke();
-      }
-
-      // ── Hint ──
-      if (
-        game.animState === "idle" &&
-        stateRef.current === "playing" &&
-        now - game.lastInteraction > HINT_DELAY
-      ) {
-        if (!game.hintMove) game.hintMove = findValidMove(game.grid);
-        if (game.hintMove) {
-          const pulse = Math.sin(frameRef.current * 0.08) * 0.2 + 0.25;
-          ctx.fillStyle = `rgba(255,255,255,${pulse})`;
-          for (const hc of game.hintMove) {
-            ctx.beginPath();
-            ctx.roundRect(
-              offsetX + hc.col * cellSize + 2,
-              offsetY + hc.row * cellSize + 2,
-              cellSize - 4,
-              cellSize - 4,
-              Math.max(2, cellSize * 0.18),
-            );
-            ctx.fill();
-          }
-        }
-      }
-
-      // ── Cascade text ──
-      if (
-        game.cascadeLevel > 1 &&
-        (game.animState === "clearing" || game.animState === "falling")
-      ) {
-        const pulseA = Math.sin(frameRef.current * 0.15) * 0.1 + 0.9;
-        ctx.fillStyle = `rgba(245,200,66,${pulseA})`;
-        ctx.font = `bold ${Math.round(cellSize * 0.6)}px "Segoe UI", system-ui, sans-serif`;
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.strokeStyle = "rgba(0,0,0,0.5)";
-        ctx.lineWidth = 3;
-        const txt = `Combo x${game.cascadeLevel}!`;
-        ctx.strokeText(txt, w / 2, offsetY - 30);
-        ctx.fillText(txt, w / 2, offsetY - 30);
-      }
-
-      // ── Score floaters (x/y stored as grid col/row) ──
-      for (let i = game.floaters.length - 1; i >= 0; i--) {
-        const f = game.floaters[i];
-        const age = now - f.start;
-        if (age > FLOATER_MS) {
-          game.floaters.splice(i, 1);
-          continue;
-        }
-        const t = age / FLOATER_MS;
-        const px = offsetX + (f.x + 0.5) * cellSize;
-        const py = offsetY + (f.y + 0.5) * cellSize - t * 35;
-        ctx.globalAlpha = 1 - t;
-        ctx.fillStyle = "#fff";
-        ctx.strokeStyle = "rgba(0,0,0,0.5)";
-        ctx.lineWidth = 2;
-        ctx.font = `bold ${Math.round(cellSize * 0.42)}px "Segoe UI", system-ui, sans-serif`;
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.strokeText(f.text, px, py);
-        ctx.fillText(f.text, px, py);
-        ctx.globalAlpha = 1;
-      }
-
-      // ── Paused overlay ──
-      if (stateRef.current === "paused") {
-        ctx.fillStyle = "rgba(0,0,0,0.55)";
-        ctx.fillRect(0, 0, w, h);
-        ctx.fillStyle = "#fff";
-        ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif';
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.fillText("Paused", w / 2, h / 2 - 20);
-        ctx.font = '18px "Segoe UI", system-ui, sans-serif';
-        ctx.fillStyle = "#aaa";
-        ctx.fillText("Press Space or Esc to resume", w / 2, h / 2 + 25);
-      }
-
-      // ── Game over overlay ──
-      if (stateRef.current === "gameover") {
-        ctx.fillStyle = "rgba(0,0,0,0.55)";
-        ctx.fillRect(0, 0, w, h);
-        ctx.fillStyle = "#e94560";
-        ctx.font = 'bold 42px "Segoe UI", system-ui, sans-serif';
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.fillText("Time's Up!", w / 2, h / 2 - 30);
-        ctx.fillStyle = "#fff";
-        ctx.font = '24px "Segoe UI", system-ui, sans-serif';
-        ctx.fillText(`Score: ${game.score}`, w / 2, h / 2 + 15);
-      }
-
-      // ── Grid border ──
-      ctx.strokeStyle = "rgba(255,255,255,0.08)";
-      ctx.lineWidth = 2;
-      ctx.strokeRect(offsetX, offsetY, gridPx, gridPx);
-
-      rafRef.current = requestAnimationFrame(draw);
-    }
-
-    rafRef.current = requestAnimationFrame(draw);
-
     return () => {
-      cancelAnimationFrame(rafRef.current);
       window.removeEventListener("resize", resize);
       window.removeEventListener("keydown", onKey);
       canvas.removeEventListener("mousedown", onMouseDown);
@@ -1086,7 +898,7 @@ function MatchThree() {
       canvas.removeEventListener("touchmove", onTouchMove);
       canvas.removeEventListener("touchend", onTouchEnd);
     };
-  }, [gameState, togglePause]);
+  }, [gameState, replay, stateRef, togglePause]);
 
   // ── Menu screen ──
   if (gameState === "menu") {
@@ -1121,6 +933,37 @@ function MatchThree() {
             <span>Colors: {settings.gemTypes}</span>
           </div>
 
+          <div className="m3-solver">
+            <div className="m3-solver-row">
+              <span className="m3-solver-label">Solver lookahead</span>
+              <div className="m3-diff-buttons">
+                {Array.from({ length: MAX_DEPTH }, (_, i) => i + 1).map((d) => (
+                  <button
+                    key={d}
+                    className={`m3-diff-btn ${lookahead === d ? "m3-diff-btn-active" : ""}`}
+                    onClick={() => setLookahead(d)}
+                  >
+                    {d} {d === 1 ? "move" : "moves"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="m3-solver-row">
+              <span className="m3-solver-label">Autoplay</span>
+              <button
+                className={`m3-diff-btn ${autoplay ? "m3-diff-btn-active" : ""}`}
+                onClick={() => setAutoplay((a) => !a)}
+              >
+                {autoplay ? "On" : "Off"}
+              </button>
+            </div>
+            {autoplay && (
+              <span className="m3-solver-note">
+                The solver plays the board itself; its runs aren't scored.
+              </span>
+            )}
+          </div>
+
           {best > 0 && (
             <p className="m3-best-line">
               Best Score: <span className="m3-best-val">{best}</span>
@@ -1130,11 +973,30 @@ function MatchThree() {
           <button className="m3-start-btn" onClick={startGame}>
             Start Game
           </button>
+
+          <Link
+            className="m3-leaderboard-link"
+            to={`/leaderboard?game=match-three&variant=${difficulty}`}
+          >
+            🏆 Leaderboard
+          </Link>
         </div>
       </div>
     );
   }
 
+  // ── Replay ──
+  if (replay) {
+    return (
+      <ReplayViewer
+        sim={matchSim}
+        recording={replay}
+        draw={drawWorld}
+        onClose={closeReplay}
+      />
+    );
+  }
+
   // ── Game screen ──
   const timeClass =
     displayTime <= 10
@@ -1154,6 +1016,7 @@ function MatchThree() {
           {String(displayTime % 60).padStart(2, "0")}
         </span>
         <span className="m3-hud-item m3-hud-best">Best: {best}</span>
+        {autoplay && <span className="m3-hud-item">🤖 Autoplay</span>}
         {gameState === "playing" && (
           <button className="m3-hud-pause" onClick={togglePause}>
             Pause
@@ -1177,9 +1040,24 @@ function MatchThree() {
 
       {gameState === "gameover" && (
         <div className="m3-overlay">
+          {entry && (
+            <ScoreEntry
+              game="match-three"
+              variant={difficulty}
+              entry={entry}
+              submission={submission}
+            />
+          )}
+          <GlobalRank submission={submission} />
           <button className="m3-overlay-btn" onClick={playAgain}>
             Play Again
           </button>
+          <button
+            className="m3-overlay-btn m3-overlay-btn-sec"
+            onClick={watchReplay}
+          >
+            Watch Replay
+          </button>
           <button
             className="m3-overlay-btn m3-overlay-btn-sec"
             onClick={backToMenu}
@@ -1192,32 +1070,4 @@ function MatchThree() {
   );
 }
 
-// ── Floater helper (outside component to avoid closure issues) ──
-function addFloaters(
-  game: { floaters: ScoreFloater[]; grid: number[][] },
-  matches: MatchGroup[],
-  pts: number,
-  now: number,
-) {
-  // Add one floater at the average position of all matched cells.
-  let sumR = 0,
-    sumC = 0,
-    count = 0;
-  for (const m of matches)
-    for (const c of m.cells) {
-      sumR += c.row;
-      sumC += c.col;
-      count++;
-    }
-  if (count > 0) {
-    // Store grid coords; the draw loop will convert
-    game.floaters.push({
-      x: sumC / count,
-      y: sumR / count,
-      text: `+${pts}`,
-      start: now,
-    });
-  }
-}
-
 export default MatchThree;
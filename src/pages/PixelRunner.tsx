@@ -1,140 +1,133 @@
 import { useRef, useEffect, useCallback, useState } from "react";
+import { Link } from "react-router";
+import {
+  loadBest,
+  loadSettings,
+  loadWallet,
+  recordPlay,
+  saveBest,
+  saveSettings,
+  saveWallet,
+} from "../engine/storage";
+import type { Wallet } from "../engine/storage";
+import { addScore } from "../games/leaderboard";
+import type { LeaderboardEntry } from "../games/leaderboard";
+import { submitScore } from "../engine/scoreSync";
+import type { Submission } from "../engine/scoreSync";
+import { useGameLoop } from "../engine/useGameLoop";
+import { useRunSeed } from "../engine/useRunSeed";
+import { createRun } from "../engine/replay";
+import { createDemo } from "../engine/demo";
+import type { Demo } from "../engine/demo";
+import type { Recording, Run } from "../engine/replay";
+import { keepBestRun, loadGhost } from "../engine/ghost";
+import type { Ghost } from "../engine/ghost";
+import type { World } from "../engine/sim";
+import { fitWorld } from "../engine/view";
+import {
+  runnerSim,
+  runnerScore,
+  PRESETS,
+  PLATFORM_H,
+  COIN_R,
+  POWER_UP_R,
+  POWER_UP_TIME,
+  MAGNET_RANGE,
+  STEP,
+} from "../games/pixel-runner/sim";
+import type {
+  Difficulty,
+  GameSettings,
+  Obstacle,
+  Player,
+  PowerUp,
+  PowerUpKind,
+  RunnerInput,
+  RunnerState,
+} from "../games/pixel-runner/sim";
+import {
+  DEFAULT_SKIN,
+  SKINS,
+  SUPPLIES,
+  bankCoins,
+  buySkin,
+  buySupply,
+  skinFor,
+  takeLoadout,
+  wearSkin,
+} from "../games/pixel-runner/shop";
+import type { Skin } from "../games/pixel-runner/shop";
+import { createBot } from "../games/pixel-runner/bot";
+import type { Point, RunnerBot } from "../games/pixel-runner/bot";
+import ReplayViewer from "../components/ReplayViewer";
+import ScoreEntry from "../components/ScoreEntry";
+import GlobalRank from "../components/GlobalRank";
 import "./PixelRunner.css";
 
 // ── Types ──────────────────────────────────────────────────
-interface GameSettings {
-  baseSpeed: number; // px/s
-  acceleration: number; // px/s²
-  gapMin: number; // min gap between platforms (px)
-  gapMax: number; // max gap
-  platWidthMin: number;
-  platWidthMax: number;
-  obstacleChance: number; // 0-1
-  coinChance: number; // 0-1
-  doubleJump: boolean;
-}
-
-interface Platform {
-  x: number;
-  y: number;
-  w: number;
-}
-
-interface Obstacle {
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  kind: "spike" | "flyer";
-  baseY: number; // for flyer sine wave
-  phase: number;
-}
-
-interface Coin {
-  x: number;
-  y: number;
-  collected: boolean;
-}
-
-interface Player {
-  x: number;
-  y: number;
-  vy: number;
-  w: number;
-  h: number;
-  onGround: boolean;
-  jumpsLeft: number;
-  jumpHeld: boolean;
-  jumpHoldTime: number;
-  runFrame: number;
-  runTimer: number;
-}
-
 interface ParallaxLayer {
   shapes: { x: number; y: number; w: number; h: number }[];
   speed: number; // fraction of scroll speed
   color: string;
+  span: number; // shapes repeat every `span` px
 }
 
-type Difficulty = "easy" | "medium" | "hard";
-type GameState = "menu" | "playing" | "paused" | "gameover";
+// What live play draws on top of the run itself.
+interface WorldExtras {
+  ghost?: RunnerState | null; // the best run, raced
+  path?: Point[]; // the autopilot's route
+  skin?: Skin;
+}
+
+interface PowerUpLook {
+  color: string;
+  icon: string;
+  label: string;
+}
 
 // ── Constants ─────────────────────────────────────────────
-const PRESETS: Record<Difficulty, GameSettings> = {
-  easy: {
-    baseSpeed: 180,
-    acceleration: 1.5,
-    gapMin: 40,
-    gapMax: 90,
-    platWidthMin: 120,
-    platWidthMax: 260,
-    obstacleChance: 0.15,
-    coinChance: 0.5,
-    doubleJump: true,
-  },
-  medium: {
-    baseSpeed: 230,
-    acceleration: 2.5,
-    gapMin: 55,
-    gapMax: 120,
-    platWidthMin: 90,
-    platWidthMax: 200,
-    obstacleChance: 0.25,
-    coinChance: 0.4,
-    doubleJump: true,
-  },
-  hard: {
-    baseSpeed: 280,
-    acceleration: 3.5,
-    gapMin: 70,
-    gapMax: 150,
-    platWidthMin: 60,
-    platWidthMax: 150,
-    obstacleChance: 0.4,
-    coinChance: 0.35,
-    doubleJump: false,
-  },
+const POWER_UPS: Record<PowerUpKind, PowerUpLook> = {
+  magnet: { color: "#ff5a6e", icon: "🧲", label: "Magnet" },
+  shield: { color: "#4ad8ff", icon: "🛡️", label: "Shield" },
+  tripleJump: { color: "#7dff8a", icon: "⏫", label: "Triple Jump" },
+  slowMo: { color: "#c58bff", icon: "⏳", label: "Slow-mo" },
 };
-
-const GRAVITY = 1400; // px/s²
-const JUMP_VELOCITY = -520; // px/s (initial)
-const JUMP_HOLD_BOOST = -200; // extra upward while holding
-const JUMP_HOLD_MAX = 0.18; // seconds you can hold for boost
-const PLAYER_W = 28;
-const PLAYER_H = 34;
-const PLATFORM_H = 16;
-const COIN_R = 8;
-const COIN_SCORE = 100;
-const GROUND_Y_FRAC = 0.75; // ground sits at 75% of canvas height
-const SPAWN_AHEAD = 400; // generate platforms this far ahead of screen right
+const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
 
 // ── Pure helpers ──────────────────────────────────────────
+// Scenery only – anything that affects gameplay lives in the simulation.
 function rand(min: number, max: number): number {
   return min + Math.random() * (max - min);
 }
 
-function clamp(v: number, lo: number, hi: number): number {
-  return Math.max(lo, Math.min(hi, v));
+function wrap(v: number, span: number): number {
+  return ((v % span) + span) % span;
 }
 
-function rectsOverlap(
-  ax: number,
-  ay: number,
-  aw: number,
-  ah: number,
-  bx: number,
-  by: number,
-  bw: number,
-  bh: number,
-): boolean {
-  return ax < bx + bw && ax + aw > bx && ay < by + bh && ay + ah > by;
+// Whole seconds each power-up has left, for the HUD.
+function secondsLeft(game: RunnerState): Record<PowerUpKind, number> {
+  const left = { ...game.powers };
+  for (const kind of POWER_UP_KINDS) {
+    left[kind] = Math.ceil(game.powers[kind] * STEP);
+  }
+  return left;
+}
+
+// A power-up that is running out blinks for its last two seconds.
+function fading(steps: number, now: number): boolean {
+  return steps * STEP < 2 && Math.floor(now / 150) % 2 === 0;
 }
 
 // ── Parallax generation ──────────────────────────────────
 function generateParallax(w: number, h: number): ParallaxLayer[] {
   const layers: ParallaxLayer[] = [];
   // far mountains
-  const far: ParallaxLayer = { shapes: [], speed: 0.1, color: "#151530" };
+  const far: ParallaxLayer = {
+    shapes: [],
+    speed: 0.1,
+    color: "#151530",
+    span: w * 2,
+  };
   for (let x = 0; x < w * 2; x += rand(60, 140)) {
     const mw = rand(80, 200);
     const mh = rand(60, 160);
@@ -142,7 +135,12 @@ function generateParallax(w: number, h: number): ParallaxLayer[] {
   }
   layers.push(far);
   // mid hills
-  const mid: ParallaxLayer = { shapes: [], speed: 0.25, color: "#1a1a3a" };
+  const mid: ParallaxLayer = {
+    shapes: [],
+    speed: 0.25,
+    color: "#1a1a3a",
+    span: w * 2,
+  };
   for (let x = 0; x < w * 2; x += rand(50, 110)) {
     const mw = rand(50, 130);
     const mh = rand(30, 90);
@@ -154,6 +152,7 @@ function generateParallax(w: number, h: number): ParallaxLayer[] {
     shapes: [],
     speed: 0.15,
     color: "rgba(255,255,255,0.03)",
+    span: w * 2,
   };
   for (let x = 0; x < w * 2; x += rand(100, 250)) {
     const cw = rand(60, 150);
@@ -164,183 +163,766 @@ function generateParallax(w: number, h: number): ParallaxLayer[] {
   return layers;
 }
 
+// Scenery is cosmetic, so it is generated once per world size rather than
+// stored in the run – replays of the same world share it.
+const parallaxCache = new Map<string, ParallaxLayer[]>();
+
+function parallaxFor(world: World): ParallaxLayer[] {
+  const key = `${world.width}x${world.height}`;
+  let layers = parallaxCache.get(key);
+  if (!layers) {
+    layers = generateParallax(world.width, world.height);
+    parallaxCache.set(key, layers);
+  }
+  return layers;
+}
+
+function drawRunner(
+  ctx: CanvasRenderingContext2D,
+  p: Player,
+  skin: Skin = DEFAULT_SKIN,
+) {
+  if (p.sliding) {
+    drawSlide(ctx, p, skin);
+    return;
+  }
+  // Body
+  ctx.fillStyle = skin.body;
+  ctx.beginPath();
+  ctx.roundRect(p.x, p.y, p.w, p.h - 10, 4);
+  ctx.fill();
+  // Head
+  ctx.fillStyle = skin.head;
+  ctx.beginPath();
+  ctx.roundRect(p.x + 4, p.y - 8, p.w - 8, 14, 4);
+  ctx.fill();
+  // Eyes
+  ctx.fillStyle = "#222";
+  ctx.fillRect(p.x + p.w - 10, p.y - 4, 3, 3);
+  // Legs (animated)
+  ctx.fillStyle = skin.legs;
+  if (p.onGround) {
+    const legOffset = p.runFrame % 2 === 0 ? 0 : 4;
+    ctx.fillRect(p.x + 4 + legOffset, p.y + p.h - 10, 7, 10);
+    ctx.fillRect(p.x + p.w - 11 - legOffset, p.y + p.h - 10, 7, 10);
+  } else {
+    // Jumping pose – legs tucked
+    ctx.fillRect(p.x + 6, p.y + p.h - 8, 6, 8);
+    ctx.fillRect(p.x + p.w - 12, p.y + p.h - 8, 6, 8);
+  }
+  // Arm
+  ctx.fillStyle = skin.body;
+  if (!p.onGround) {
+    // Arms up while jumping
+    ctx.fillRect(p.x - 4, p.y + 2, 5, 10);
+    ctx.fillRect(p.x + p.w - 1, p.y + 2, 5, 10);
+  } else {
+    ctx.fillRect(p.x - 3, p.y + 8, 4, 12);
+    ctx.fillRect(p.x + p.w - 1, p.y + 8, 4, 12);
+  }
+}
+
+// Low and leaning back, legs out in front, one hand trailing on the ground.
+function drawSlide(ctx: CanvasRenderingContext2D, p: Player, skin: Skin) {
+  // Legs
+  ctx.fillStyle = skin.legs;
+  ctx.fillRect(p.x + p.w - 8, p.y + p.h - 7, 12, 6);
+  // Body
+  ctx.fillStyle = skin.body;
+  ctx.beginPath();
+  ctx.roundRect(p.x, p.y + 2, p.w - 4, p.h - 2, 4);
+  ctx.fill();
+  // Arm
+  ctx.fillRect(p.x - 6, p.y + p.h - 4, 10, 4);
+  // Head
+  ctx.fillStyle = skin.head;
+  ctx.beginPath();
+  ctx.roundRect(p.x + 2, p.y - 8, p.w - 10, 13, 4);
+  ctx.fill();
+  // Eyes
+  ctx.fillStyle = "#222";
+  ctx.fillRect(p.x + p.w - 14, p.y - 4, 3, 3);
+}
+
+// A steel girder hanging from the top of the screen, striped along the
+// bottom edge that the runner has to get under.
+function drawBeam(ctx: CanvasRenderingContext2D, obs: Obstacle) {
+  const top = Math.max(obs.y, 0);
+  const bottom = obs.y + obs.h;
+  ctx.fillStyle = "#4a4f6a";
+  ctx.fillRect(obs.x, top, obs.w, bottom - top);
+  // cross-bracing
+  ctx.strokeStyle = "#363a52";
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  for (let y = bottom - 12; y > top; y -= obs.w) {
+    ctx.moveTo(obs.x, y);
+    ctx.lineTo(obs.x + obs.w, y - obs.w);
+  }
+  ctx.stroke();
+  // hazard stripes
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(obs.x, bottom - 8, obs.w, 8);
+  ctx.clip();
+  ctx.fillStyle = "#f5c842";
+  ctx.fillRect(obs.x, bottom - 8, obs.w, 8);
+  ctx.fillStyle = "#222";
+  for (let x = obs.x - 8; x < obs.x + obs.w; x += 16) {
+    ctx.beginPath();
+    ctx.moveTo(x, bottom);
+    ctx.lineTo(x + 8, bottom - 8);
+    ctx.lineTo(x + 16, bottom - 8);
+    ctx.lineTo(x + 8, bottom);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+// A glowing bolt with a trail streaming out behind it.
+function drawProjectile(ctx: CanvasRenderingContext2D, obs: Obstacle) {
+  const cy = obs.y + obs.h / 2;
+  const trail = ctx.createLinearGradient(obs.x, 0, obs.x + obs.w * 4, 0);
+  trail.addColorStop(0, "rgba(255,140,60,0.7)");
+  trail.addColorStop(1, "rgba(255,140,60,0)");
+  ctx.fillStyle = trail;
+  ctx.fillRect(obs.x + obs.w / 2, cy - obs.h / 3, obs.w * 4, (obs.h * 2) / 3);
+  ctx.save();
+  ctx.shadowColor = "#ff8c3c";
+  ctx.shadowBlur = 12;
+  ctx.fillStyle = "#ffb347";
+  ctx.beginPath();
+  ctx.ellipse(obs.x + obs.w / 2, cy, obs.w / 2, obs.h / 2, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+  ctx.fillStyle = "#fff6d5";
+  ctx.beginPath();
+  ctx.ellipse(obs.x + obs.w / 3, cy, obs.w / 5, obs.h / 4, 0, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// A glowing orb with the power-up's icon, bobbing gently.
+function drawPowerUp(ctx: CanvasRenderingContext2D, up: PowerUp, now: number) {
+  const { color, icon } = POWER_UPS[up.kind];
+  const y = up.y + Math.sin(now / 250 + up.x / 50) * 3;
+  ctx.save();
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 12;
+  ctx.fillStyle = "rgba(10, 10, 26, 0.85)";
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(up.x, y, POWER_UP_R + 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+  ctx.font = `${POWER_UP_R * 1.3}px "Segoe UI Emoji", system-ui, sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(icon, up.x, y + 1);
+}
+
+// What the runner's power-ups look like on it: the magnet's reach, a
+// bubble for the shield and a glow at its feet while it can triple jump.
+function drawPowers(
+  ctx: CanvasRenderingContext2D,
+  game: RunnerState,
+  now: number,
+) {
+  const { player: p, powers } = game;
+  const cx = p.x + p.w / 2;
+  const cy = p.y + p.h / 2 - 4;
+
+  if (powers.magnet > 0 && !fading(powers.magnet, now)) {
+    ctx.strokeStyle = "rgba(255, 90, 110, 0.25)";
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 8]);
+    ctx.lineDashOffset = -now / 40;
+    ctx.beginPath();
+    ctx.arc(cx, cy, MAGNET_RANGE, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  if (powers.tripleJump > 0 && !fading(powers.tripleJump, now)) {
+    const glow = ctx.createRadialGradient(cx, p.y + p.h, 2, cx, p.y + p.h, 24);
+    glow.addColorStop(0, "rgba(125, 255, 138, 0.6)");
+    glow.addColorStop(1, "rgba(125, 255, 138, 0)");
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.ellipse(cx, p.y + p.h, 24, 8, 0, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  if (powers.shield > 0 && !fading(powers.shield, now)) {
+    const pulse = 1 + Math.sin(now / 200) * 0.04;
+    ctx.fillStyle = "rgba(74, 216, 255, 0.15)";
+    ctx.strokeStyle = "rgba(74, 216, 255, 0.8)";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.ellipse(cx, cy, 26 * pulse, 30 * pulse, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  }
+}
+
+// The autopilot's planned route through the level ahead, as a trail of dots.
+function drawPath(ctx: CanvasRenderingContext2D, path: Point[]) {
+  ctx.fillStyle = "rgba(125, 249, 255, 0.45)";
+  for (let i = 1; i < path.length; i += 2) {
+    ctx.beginPath();
+    ctx.arc(path[i].x, path[i].y, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+// Everything that belongs to the run itself, in world coordinates – shared
+// by live play and the replay viewer. Live play also passes the ghost, the
+// autopilot's route and the skin the player wears.
+function drawWorld(
+  ctx: CanvasRenderingContext2D,
+  game: RunnerState,
+  now: number,
+  extras: WorldExtras = {},
+) {
+  const { ghost, path, skin } = extras;
+  const { width: w, height: h } = game.world;
+
+  fitWorld(ctx, game.world);
+
+  // Sky
+  const skyGrad = ctx.createLinearGradient(0, 0, 0, h);
+  skyGrad.addColorStop(0, "#0a0a1a");
+  skyGrad.addColorStop(1, "#151530");
+  ctx.fillStyle = skyGrad;
+  ctx.fillRect(0, 0, w, h);
+
+  // Parallax layers
+  for (const layer of parallaxFor(game.world)) {
+    ctx.fillStyle = layer.color;
+    const offset = game.distance * layer.speed;
+    for (const sh of layer.shapes) {
+      const x = wrap(sh.x - offset + 200, layer.span) - 200;
+      ctx.beginPath();
+      // draw as rounded hills / clouds
+      ctx.ellipse(
+        x + sh.w / 2,
+        sh.y + sh.h,
+        sh.w / 2,
+        sh.h,
+        0,
+        Math.PI,
+        0,
+      );
+      ctx.fill();
+    }
+  }
+
+  // Platforms
+  for (const plat of game.platforms) {
+    if (plat.x + plat.w < 0 || plat.x > w) continue;
+    // Top surface
+    const topGrad = ctx.createLinearGradient(
+      0,
+      plat.y,
+      0,
+      plat.y + PLATFORM_H,
+    );
+    topGrad.addColorStop(0, "#5a7d3a");
+    topGrad.addColorStop(1, "#3d5a28");
+    ctx.fillStyle = topGrad;
+    ctx.beginPath();
+    ctx.roundRect(plat.x, plat.y, plat.w, PLATFORM_H, 3);
+    ctx.fill();
+    // Dirt below
+    ctx.fillStyle = "#6b4226";
+    ctx.fillRect(plat.x + 2, plat.y + PLATFORM_H, plat.w - 4, 200);
+    ctx.fillStyle = "#5a3620";
+    // brick lines
+    for (let by = plat.y + PLATFORM_H + 10; by < plat.y + 200; by += 14) {
+      ctx.fillRect(plat.x + 2, by, plat.w - 4, 1);
+    }
+  }
+
+  // Coins
+  const coinPhase = (now / 300) % (Math.PI * 2);
+  for (const coin of game.coins) {
+    if (coin.collected) continue;
+    if (coin.x < -20 || coin.x > w + 20) continue;
+    const scaleX = Math.abs(Math.cos(coinPhase));
+    ctx.save();
+    ctx.translate(coin.x, coin.y);
+    ctx.scale(scaleX, 1);
+    const grad = ctx.createRadialGradient(0, 0, 1, 0, 0, COIN_R);
+    grad.addColorStop(0, "#ffe680");
+    grad.addColorStop(1, "#f5a623");
+    ctx.fillStyle = grad;
+    ctx.beginPath();
+    ctx.arc(0, 0, COIN_R, 0, Math.PI * 2);
+    ctx.fill();
+    // inner circle
+    ctx.fillStyle = "rgba(255,255,255,0.3)";
+    ctx.beginPath();
+    ctx.arc(-1, -1, COIN_R * 0.45, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Power-ups
+  for (const up of game.powerUps) {
+    if (up.collected) continue;
+    if (up.x < -20 || up.x > w + 20) continue;
+    drawPowerUp(ctx, up, now);
+  }
+
+  // Obstacles
+  for (const obs of game.obstacles) {
+    if (obs.x + obs.w < 0 || obs.x > w) continue;
+    if (obs.kind === "spike") {
+      ctx.fillStyle = "#e94560";
+      ctx.beginPath();
+      ctx.moveTo(obs.x + obs.w / 2, obs.y);
+      ctx.lineTo(obs.x + obs.w, obs.y + obs.h);
+      ctx.lineTo(obs.x, obs.y + obs.h);
+      ctx.closePath();
+      ctx.fill();
+      // highlight
+      ctx.fillStyle = "rgba(255,255,255,0.2)";
+      ctx.beginPath();
+      ctx.moveTo(obs.x + obs.w / 2, obs.y + 2);
+      ctx.lineTo(obs.x + obs.w * 0.65, obs.y + obs.h * 0.6);
+      ctx.lineTo(obs.x + obs.w * 0.35, obs.y + obs.h * 0.6);
+      ctx.closePath();
+      ctx.fill();
+    } else if (obs.kind === "beam") {
+      drawBeam(ctx, obs);
+    } else if (obs.kind === "projectile") {
+      drawProjectile(ctx, obs);
+    } else {
+      // flyer – a small bat/enemy
+      ctx.fillStyle = "#c060e0";
+      ctx.beginPath();
+      ctx.ellipse(
+        obs.x + obs.w / 2,
+        obs.y + obs.h / 2,
+        obs.w / 2,
+        obs.h / 2,
+        0,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+      // wings
+      const wingFlap = Math.sin(now / 80) * 6;
+      ctx.fillStyle = "#a040c0";
+      ctx.beginPath();
+      ctx.ellipse(
+        obs.x - 2,
+        obs.y + obs.h / 2 + wingFlap,
+        8,
+        4,
+        -0.3,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+      ctx.beginPath();
+      ctx.ellipse(
+        obs.x + obs.w + 2,
+        obs.y + obs.h / 2 - wingFlap,
+        8,
+        4,
+        0.3,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+      // eyes
+      ctx.fillStyle = "#fff";
+      ctx.beginPath();
+      ctx.arc(obs.x + obs.w * 0.35, obs.y + obs.h * 0.4, 2, 0, Math.PI * 2);
+      ctx.arc(obs.x + obs.w * 0.65, obs.y + obs.h * 0.4, 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  // Ghost of the best run, in the same world as this one
+  if (ghost && !ghost.over) {
+    ctx.globalAlpha = 0.35;
+    drawRunner(ctx, ghost.player, skin);
+    ctx.globalAlpha = 1;
+  }
+
+  if (path) drawPath(ctx, path);
+
+  // Player
+  drawRunner(ctx, game.player, skin);
+  drawPowers(ctx, game, now);
+
+  // Slow motion tints the whole world
+  if (game.powers.slowMo > 0 && !fading(game.powers.slowMo, now)) {
+    ctx.fillStyle = "rgba(150, 100, 255, 0.12)";
+    ctx.fillRect(0, 0, w, h);
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+// ── Demo ──────────────────────────────────────────────────
+// Home's preview: the autopilot running medium, its route drawn ahead.
+export function demo(): Demo | null {
+  const bot = createBot();
+  let path: Point[] = [];
+  return createDemo({
+    sim: runnerSim,
+    game: "pixel-runner",
+    variant: "medium",
+    settings: { ...PRESETS.medium },
+    draw: (ctx, state, _alpha, now) => drawWorld(ctx, state, now, { path }),
+    policy: (state) => {
+      const plan = bot.plan(state);
+      path = plan.path;
+      return plan.input ?? undefined;
+    },
+  });
+}
+
+// ── Shop ──────────────────────────────────────────────────
+interface ShopProps {
+  wallet: Wallet;
+  onChange: (wallet: Wallet) => void;
+}
+
+// Coins banked from runs buy skins for good and supplies for the runs
+// ahead.
+function Shop({ wallet, onChange }: ShopProps) {
+  const worn = skinFor(wallet);
+
+  return (
+    <div className="pr-shop">
+      <div className="pr-shop-head">
+        <span className="pr-shop-title">Shop</span>
+        <span className="pr-wallet">🪙 {wallet.coins}</span>
+      </div>
+
+      <div className="pr-skins">
+        {SKINS.map((skin) => {
+          const owned = skin === DEFAULT_SKIN || wallet.owned.includes(skin.id);
+          const bought = owned ? null : buySkin(wallet, skin);
+          return (
+            <button
+              key={skin.id}
+              className={`pr-skin ${skin === worn ? "pr-skin-worn" : ""}`}
+              disabled={!owned && !bought}
+              onClick={() => onChange(bought ?? wearSkin(wallet, skin))}
+            >
+              <span className="pr-skin-swatch">
+                <span style={{ background: skin.head }} />
+                <span style={{ background: skin.body }} />
+                <span style={{ background: skin.legs }} />
+              </span>
+              <span className="pr-skin-name">{skin.name}</span>
+              <span className="pr-skin-price">
+                {skin === worn ? "Worn" : owned ? "Wear" : `🪙 ${skin.price}`}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="pr-supplies">
+        {SUPPLIES.map((supply) => {
+          const stock = wallet.stock[supply.id] ?? 0;
+          const bought = buySupply(wallet, supply);
+          return (
+            <div key={supply.id} className="pr-supply">
+              <span className="pr-supply-icon">{supply.icon}</span>
+              <span className="pr-supply-text">
+                <span className="pr-supply-name">
+                  {supply.name}
+                  {stock > 0 && (
+                    <span className="pr-supply-stock"> ×{stock}</span>
+                  )}
+                </span>
+                <span className="pr-supply-blurb">{supply.blurb}</span>
+              </span>
+              <button
+                className="pr-supply-buy"
+                disabled={!bought}
+                onClick={() => bought && onChange(bought)}
+              >
+                🪙 {supply.price}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <p className="pr-shop-note">
+        Your next run uses one of each supply in stock.
+      </p>
+    </div>
+  );
+}
+
 // ── Component ─────────────────────────────────────────────
 function PixelRunner() {
-  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
-  const [settings, setSettings] = useState<GameSettings>({ ...PRESETS.medium });
-  const [gameState, setGameState] = useState<GameState>("menu");
+  const [restored] = useState(() =>
+    loadSettings<Difficulty, GameSettings>("pixel-runner", PRESETS),
+  );
+  const [difficulty, setDifficulty] = useState<Difficulty>(
+    restored?.difficulty ?? "medium",
+  );
+  const [settings, setSettings] = useState<GameSettings>(
+    restored?.settings ?? { ...PRESETS.medium },
+  );
   const [displayScore, setDisplayScore] = useState(0);
   const [displayCoins, setDisplayCoins] = useState(0);
-  const [best, setBest] = useState(() => {
-    const v = localStorage.getItem("pixel-runner-best");
-    return v ? parseInt(v, 10) : 0;
-  });
+  const [displayPowers, setDisplayPowers] = useState<
+    Record<PowerUpKind, number>
+  >({ magnet: 0, shield: 0, tripleJump: 0, slowMo: 0 });
+  const [best, setBest] = useState(() =>
+    loadBest("pixel-runner", restored?.difficulty ?? "medium"),
+  );
+  const [entry, setEntry] = useState<LeaderboardEntry | null>(null);
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [autopilot, setAutopilot] = useState(false);
+  const [race, setRace] = useState(false);
+  const [wallet, setWallet] = useState(() => loadWallet("pixel-runner"));
+  const [banked, setBanked] = useState(0);
+  const [revives, setRevives] = useState(0);
+
+  const [replay, setReplay] = useState<Recording<
+    RunnerInput,
+    GameSettings
+  > | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const stateRef = useRef<GameState>("menu");
+  const slideBtnRef = useRef<HTMLButtonElement>(null);
   const settingsRef = useRef<GameSettings>(settings);
-  const rafRef = useRef(0);
-  const lastTimeRef = useRef(0);
+  const difficultyRef = useRef<Difficulty>(difficulty);
   const needsInitRef = useRef(false);
-
-  const gameRef = useRef({
-    player: {} as Player,
-    platforms: [] as Platform[],
-    obstacles: [] as Obstacle[],
-    coins: [] as Coin[],
-    scrollSpeed: 0,
-    distance: 0,
-    coinCount: 0,
-    groundY: 0,
-    parallax: [] as ParallaxLayer[],
-    jumpPressed: false,
-    lastPlatRight: 0, // rightmost edge of last generated platform
-  });
+  const runRef = useRef<Run<RunnerState, RunnerInput, GameSettings> | null>(
+    null,
+  );
+  const lastRecordingRef = useRef<Recording<
+    RunnerInput,
+    GameSettings
+  > | null>(null);
+  const ghostRef = useRef<Ghost<RunnerState> | null>(null);
+  const autopilotRef = useRef(autopilot);
+  const raceRef = useRef(race);
+  const botRef = useRef<RunnerBot | null>(null);
+  const pathRef = useRef<Point[]>([]);
+  const { nextSeed } = useRunSeed();
 
   useEffect(() => {
     settingsRef.current = settings;
   }, [settings]);
 
+  useEffect(() => {
+    difficultyRef.current = difficulty;
+  }, [difficulty]);
+
+  useEffect(() => {
+    autopilotRef.current = autopilot;
+  }, [autopilot]);
+
+  useEffect(() => {
+    raceRef.current = race;
+  }, [race]);
+
+  const changeWallet = useCallback((next: Wallet) => {
+    saveWallet("pixel-runner", next);
+    setWallet(next);
+  }, []);
+
   const selectDifficulty = useCallback((d: Difficulty) => {
     setDifficulty(d);
+    setBest(loadBest("pixel-runner", d));
     setSettings({ ...PRESETS[d] });
   }, []);
 
   // ── Init game state ──
+  // The run keeps the world size it starts with; resizing only rescales it.
+  // A race runs in the ghost's world, letterboxed to fit this canvas.
   const initGame = useCallback(
     (canvasW: number, canvasH: number) => {
-      const s = settingsRef.current;
-      const groundY = Math.floor(canvasH * GROUND_Y_FRAC);
-      const maxJumps = s.doubleJump ? 2 : 1;
-
-      // Build initial platforms – a solid starting platform + generated ones
-      const platforms: Platform[] = [];
-      // starting platform under the player
-      platforms.push({ x: 0, y: groundY, w: 300 });
-
-      let lastRight = 300;
-      while (lastRight < canvasW + SPAWN_AHEAD) {
-        const gap = rand(s.gapMin, s.gapMax);
-        const pw = rand(s.platWidthMin, s.platWidthMax);
-        const py = clamp(
-          groundY + rand(-60, 40),
-          canvasH * 0.35,
-          canvasH * 0.88,
-        );
-        platforms.push({ x: lastRight + gap, y: py, w: pw });
-        lastRight = lastRight + gap + pw;
-      }
-
-      // Generate coins and obstacles on platforms (skip first)
-      const coins: Coin[] = [];
-      const obstacles: Obstacle[] = [];
-      for (let i = 1; i < platforms.length; i++) {
-        const p = platforms[i];
-        if (Math.random() < s.coinChance) {
-          const cx = p.x + p.w * rand(0.2, 0.8);
-          coins.push({ x: cx, y: p.y - 30, collected: false });
-        }
-        if (Math.random() < s.obstacleChance) {
-          if (Math.random() < 0.6) {
-            // spike on platform
-            const ox = p.x + p.w * rand(0.3, 0.7);
-            obstacles.push({
-              x: ox,
-              y: p.y - 14,
-              w: 14,
-              h: 14,
-              kind: "spike",
-              baseY: 0,
-              phase: 0,
-            });
-          } else {
-            // flyer above platform
-            const ox = p.x + p.w * rand(0.2, 0.8);
-            const oy = p.y - rand(50, 90);
-            obstacles.push({
-              x: ox,
-              y: oy,
-              w: 20,
-              h: 16,
-              kind: "flyer",
-              baseY: oy,
-              phase: Math.random() * Math.PI * 2,
-            });
-          }
-        }
+      const s = { ...settingsRef.current };
+      const ghost = raceRef.current
+        ? loadGhost(runnerSim, "pixel-runner", s, difficultyRef.current)
+        : null;
+      const seed = nextSeed(ghost?.seed);
+      // a `?seed=` challenge on another level has no ghost to race
+      const raced = ghost?.seed === seed ? ghost : null;
+      const run = createRun(
+        runnerSim,
+        "pixel-runner",
+        s,
+        seed,
+        raced?.state.world ?? { width: canvasW, height: canvasH },
+        difficultyRef.current,
+      );
+      runRef.current = run;
+      // supplies go into the run as inputs, so its recording starts with
+      // them too; the autopilot plays without
+      if (!autopilotRef.current) {
+        const taken = takeLoadout(loadWallet("pixel-runner"));
+        for (const start of taken.loadout) run.input({ start });
+        changeWallet(taken.wallet);
       }
-
-      gameRef.current = {
-        player: {
-          x: 80,
-          y: groundY - PLAYER_H,
-          vy: 0,
-          w: PLAYER_W,
-          h: PLAYER_H,
-          onGround: true,
-          jumpsLeft: maxJumps,
-          jumpHeld: false,
-          jumpHoldTime: 0,
-          runFrame: 0,
-          runTimer: 0,
-        },
-        platforms,
-        obstacles,
-        coins,
-        scrollSpeed: s.baseSpeed,
-        distance: 0,
-        coinCount: 0,
-        groundY,
-        parallax: generateParallax(canvasW, canvasH),
-        jumpPressed: false,
-        lastPlatRight: lastRight,
-      };
-
+      ghostRef.current = raced;
+      botRef.current = autopilotRef.current ? createBot() : null;
+      pathRef.current = [];
       setDisplayScore(0);
       setDisplayCoins(0);
+      setDisplayPowers(secondsLeft(run.state));
+      setRevives(run.state.revives);
+      setBanked(0);
     },
-    [],
+    [nextSeed, changeWallet],
   );
 
+  // ── Update (one fixed physics step) ──
+  function update() {
+    const run = runRef.current;
+    if (!run) return;
+    // the autopilot jumps through the same input as the player, so its runs
+    // record and replay like any other
+    const bot = botRef.current;
+    if (bot) {
+      const plan = bot.plan(run.state);
+      if (plan.input) run.input(plan.input);
+      pathRef.current = plan.path;
+    }
+    run.update();
+    ghostRef.current?.update();
+
+    const game = run.state;
+    const total = runnerScore(game);
+    if (total !== displayScore) setDisplayScore(total);
+    if (game.coinCount !== displayCoins) setDisplayCoins(game.coinCount);
+    const powers = secondsLeft(game);
+    if (POWER_UP_KINDS.some((kind) => powers[kind] !== displayPowers[kind])) {
+      setDisplayPowers(powers);
+    }
+    if (game.revives !== revives) setRevives(game.revives);
+
+    if (game.over) {
+      lastRecordingRef.current = run.recording();
+      // autopilot runs can be replayed but don't count as the player's
+      if (bot) {
+        setEntry(null);
+        setSubmission(null);
+        setGameState("gameover");
+        return;
+      }
+      changeWallet(bankCoins(loadWallet("pixel-runner"), game.coinCount));
+      setBanked(game.coinCount);
+      keepBestRun(lastRecordingRef.current);
+      setEntry(addScore("pixel-runner", difficultyRef.current, total));
+      setSubmission(submitScore(lastRecordingRef.current));
+      recordPlay("pixel-runner", total, game.tick * STEP);
+      setGameState("gameover");
+      if (total > loadBest("pixel-runner", difficultyRef.current)) {
+        saveBest("pixel-runner", total, difficultyRef.current);
+        setBest(total);
+      }
+    }
+  }
+
+  // ── Draw ──
+  function render(_alpha: number, now: number) {
+    const canvas = canvasRef.current;
+    const run = runRef.current;
+    if (!canvas || !run) return;
+    const ctx = canvas.getContext("2d")!;
+    const w = canvas.width;
+    const h = canvas.height;
+
+    drawWorld(ctx, run.state, now, {
+      ghost: ghostRef.current?.state,
+      path: botRef.current ? pathRef.current : undefined,
+      skin: skinFor(wallet),
+    });
+
+    // ── Paused overlay on canvas ──
+    if (stateRef.current === "paused") {
+      ctx.fillStyle = "rgba(0,0,0,0.5)";
+      ctx.fillRect(0, 0, w, h);
+      ctx.fillStyle = "#fff";
+      ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif';
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText("Paused", w / 2, h / 2 - 20);
+      ctx.font = '18px "Segoe UI", system-ui, sans-serif';
+      ctx.fillStyle = "#aaa";
+      ctx.fillText("Press Esc or P to resume", w / 2, h / 2 + 25);
+    }
+
+    // ── Game over overlay on canvas ──
+    if (stateRef.current === "gameover") {
+      ctx.fillStyle = "rgba(0,0,0,0.55)";
+      ctx.fillRect(0, 0, w, h);
+      ctx.fillStyle = "#e94560";
+      ctx.font = 'bold 42px "Segoe UI", system-ui, sans-serif';
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText("Game Over!", w / 2, h / 2 - 30);
+      ctx.fillStyle = "#fff";
+      ctx.font = '24px "Segoe UI", system-ui, sans-serif';
+      ctx.fillText(`Score: ${runnerScore(run.state)}`, w / 2, h / 2 + 15);
+    }
+  }
+
+  const {
+    state: gameState,
+    stateRef,
+    setState: setGameState,
+    togglePause,
+  } = useGameLoop({ step: STEP, update, render });
+
   const startGame = useCallback(() => {
+    saveSettings("pixel-runner", difficultyRef.current, settingsRef.current);
     needsInitRef.current = true;
-    stateRef.current = "playing";
     setGameState("playing");
-    lastTimeRef.current = 0;
-  }, []);
-
-  const togglePause = useCallback(() => {
-    if (stateRef.current === "playing") {
-      stateRef.current = "paused";
-      setGameState("paused");
-    } else if (stateRef.current === "paused") {
-      lastTimeRef.current = 0;
-      stateRef.current = "playing";
-      setGameState("playing");
-    }
-  }, []);
+  }, [setGameState]);
 
   const backToMenu = useCallback(() => {
-    stateRef.current = "menu";
     setGameState("menu");
-  }, []);
+  }, [setGameState]);
 
   const playAgain = useCallback(() => {
     needsInitRef.current = true;
-    lastTimeRef.current = 0;
-    stateRef.current = "playing";
     setGameState("playing");
+  }, [setGameState]);
+
+  const watchReplay = useCallback(() => {
+    setReplay(lastRecordingRef.current);
   }, []);
 
-  // ── Main render loop ──
+  const closeReplay = useCallback(() => {
+    setReplay(null);
+  }, []);
+
+  const drawReplay = useCallback(
+    (
+      ctx: CanvasRenderingContext2D,
+      state: RunnerState,
+      _alpha: number,
+      now: number,
+    ) => drawWorld(ctx, state, now, { skin: skinFor(wallet) }),
+    [wallet],
+  );
+
+  // ── Canvas sizing + input ──
   useEffect(() => {
-    if (gameState === "menu") return;
+    if (gameState === "menu" || replay) return;
 
     const canvas = canvasRef.current;
     const container = containerRef.current;
     if (!canvas || !container) return;
-    const ctx = canvas.getContext("2d")!;
 
     function resize() {
       const rect = container!.getBoundingClientRect();
@@ -357,14 +939,23 @@ function PixelRunner() {
     }
 
     // ── Input ──
+    // presses and releases are recorded with the tick they land on; while
+    // the autopilot runs, the player's are ignored
     function jumpStart() {
-      if (stateRef.current !== "playing") return;
-      gameRef.current.jumpPressed = true;
+      if (stateRef.current !== "playing" || botRef.current) return;
+      runRef.current?.input("jump");
     }
     function jumpEnd() {
-      const p = gameRef.current.player;
-      p.jumpHeld = false;
-      p.jumpHoldTime = 0;
+      if (stateRef.current === "menu" || botRef.current) return;
+      runRef.current?.input("release");
+    }
+    function slideStart() {
+      if (stateRef.current !== "playing" || botRef.current) return;
+      runRef.current?.input("slide");
+    }
+    function slideEnd() {
+      if (stateRef.current === "menu" || botRef.current) return;
+      runRef.current?.input("stand");
     }
 
     function onKeyDown(e: KeyboardEvent) {
@@ -378,6 +969,11 @@ function PixelRunner() {
         if (e.repeat) return;
         if (stateRef.current === "playing") jumpStart();
       }
+      if (e.key === "ArrowDown" || e.key === "s" || e.key === "S") {
+        e.preventDefault();
+        if (e.repeat) return;
+        slideStart();
+      }
       if (e.key === "Escape" || e.key === "p" || e.key === "P") {
         e.preventDefault();
         if (
@@ -396,6 +992,9 @@ function PixelRunner() {
       ) {
         jumpEnd();
       }
+      if (e.key === "ArrowDown" || e.key === "s" || e.key === "S") {
+        slideEnd();
+      }
     }
 
     function onMouseDown(e: MouseEvent) {
@@ -405,6 +1004,7 @@ function PixelRunner() {
     function onMouseUp() {
       jumpEnd();
     }
+    // touch screens tap the canvas to jump and hold the slide button
     function onTouchStart(e: TouchEvent) {
       e.preventDefault();
       jumpStart();
@@ -413,473 +1013,29 @@ function PixelRunner() {
       e.preventDefault();
       jumpEnd();
     }
-    function onTouchMove(e: TouchEvent) {
+    function onSlideTouchStart(e: TouchEvent) {
+      e.preventDefault();
+      slideStart();
+    }
+    function onSlideTouchEnd(e: TouchEvent) {
       e.preventDefault();
+      slideEnd();
     }
+    const slideBtn = slideBtnRef.current;
 
     canvas.addEventListener("mousedown", onMouseDown);
     canvas.addEventListener("mouseup", onMouseUp);
     canvas.addEventListener("touchstart", onTouchStart, { passive: false });
     canvas.addEventListener("touchend", onTouchEnd, { passive: false });
-    canvas.addEventListener("touchmove", onTouchMove, { passive: false });
+    slideBtn?.addEventListener("touchstart", onSlideTouchStart, {
+      passive: false,
+    });
+    slideBtn?.addEventListener("touchend", onSlideTouchEnd, { passive: false });
+    slideBtn?.addEventListener("touchcancel", onSlideTouchEnd);
     window.addEventListener("keydown", onKeyDown);
     window.addEventListener("keyup", onKeyUp);
 
-    // ── Frame loop ──
-    function frame(now: number) {
-      const w = canvas!.width;
-      const h = canvas!.height;
-      const game = gameRef.current;
-      const s = settingsRef.current;
-
-      // delta time (capped to avoid spiral of death)
-      let dt = 0;
-      if (lastTimeRef.current > 0) {
-        dt = Math.min((now - lastTimeRef.current) / 1000, 0.05);
-      }
-      lastTimeRef.current = now;
-
-      if (stateRef.current === "paused") {
-        lastTimeRef.current = 0;
-      }
-
-      // ── Update ──
-      if (stateRef.current === "playing" && dt > 0) {
-        const player = game.player;
-        const maxJumps = s.doubleJump ? 2 : 1;
-
-        // Process jump input
-        if (game.jumpPressed) {
-          game.jumpPressed = false;
-          if (player.jumpsLeft > 0) {
-            player.vy = JUMP_VELOCITY;
-            player.onGround = false;
-            player.jumpsLeft--;
-            player.jumpHeld = true;
-            player.jumpHoldTime = 0;
-          }
-        }
-
-        // Hold for higher jump
-        if (player.jumpHeld) {
-          player.jumpHoldTime += dt;
-          if (player.jumpHoldTime < JUMP_HOLD_MAX) {
-            player.vy += JUMP_HOLD_BOOST * dt;
-          } else {
-            player.jumpHeld = false;
-          }
-        }
-
-        // Gravity
-        player.vy += GRAVITY * dt;
-        player.y += player.vy * dt;
-        player.onGround = false;
-
-        // Scroll
-        const scrollDist = game.scrollSpeed * dt;
-        game.distance += scrollDist;
-        game.scrollSpeed += s.acceleration * dt;
-
-        // Move world left
-        for (const p of game.platforms) p.x -= scrollDist;
-        for (const o of game.obstacles) {
-          o.x -= scrollDist;
-          if (o.kind === "flyer") {
-            o.phase += dt * 3;
-            o.y = o.baseY + Math.sin(o.phase) * 20;
-            o.baseY -= scrollDist * 0; // flyers stay at fixed world-y relative to their platform
-          }
-        }
-        for (const c of game.coins) c.x -= scrollDist;
-
-        // Parallax
-        for (const layer of game.parallax) {
-          for (const sh of layer.shapes) {
-            sh.x -= scrollDist * layer.speed;
-          }
-          // wrap shapes that go off left
-          const maxX = Math.max(...layer.shapes.map((s) => s.x + s.w));
-          for (const sh of layer.shapes) {
-            if (sh.x + sh.w < -50) {
-              sh.x = maxX + rand(20, 100);
-            }
-          }
-        }
-
-        // Platform collision (land on top only)
-        for (const plat of game.platforms) {
-          if (
-            player.vy >= 0 &&
-            player.x + player.w > plat.x + 4 &&
-            player.x < plat.x + plat.w - 4 &&
-            player.y + player.h >= plat.y &&
-            player.y + player.h <= plat.y + PLATFORM_H + player.vy * dt + 4
-          ) {
-            player.y = plat.y - player.h;
-            player.vy = 0;
-            player.onGround = true;
-            player.jumpsLeft = maxJumps;
-            player.jumpHeld = false;
-          }
-        }
-
-        // Obstacle collision
-        for (const obs of game.obstacles) {
-          const shrink = 3; // collision forgiveness
-          if (
-            rectsOverlap(
-              player.x + shrink,
-              player.y + shrink,
-              player.w - shrink * 2,
-              player.h - shrink * 2,
-              obs.x + shrink,
-              obs.y + shrink,
-              obs.w - shrink * 2,
-              obs.h - shrink * 2,
-            )
-          ) {
-            // Die
-            stateRef.current = "gameover";
-            setGameState("gameover");
-            const total =
-              Math.floor(game.distance / 10) + game.coinCount * COIN_SCORE;
-            const cur = parseInt(
-              localStorage.getItem("pixel-runner-best") || "0",
-              10,
-            );
-            if (total > cur) {
-              localStorage.setItem("pixel-runner-best", String(total));
-              setBest(total);
-            }
-          }
-        }
-
-        // Coin collection
-        for (const coin of game.coins) {
-          if (coin.collected) continue;
-          const cx = coin.x;
-          const cy = coin.y;
-          const px = player.x + player.w / 2;
-          const py = player.y + player.h / 2;
-          if (Math.hypot(cx - px, cy - py) < COIN_R + 14) {
-            coin.collected = true;
-            game.coinCount++;
-            setDisplayCoins(game.coinCount);
-          }
-        }
-
-        // Remove off-screen objects
-        game.platforms = game.platforms.filter((p) => p.x + p.w > -50);
-        game.obstacles = game.obstacles.filter((o) => o.x + o.w > -50);
-        game.coins = game.coins.filter((c) => c.x > -50);
-
-        // Generate new platforms ahead
-        // Track the rightmost platform edge
-        let lastRight = 0;
-        for (const p of game.platforms) {
-          const r = p.x + p.w;
-          if (r > lastRight) lastRight = r;
-        }
-
-        while (lastRight < w + SPAWN_AHEAD) {
-          const gap = rand(s.gapMin, s.gapMax);
-          const pw = rand(s.platWidthMin, s.platWidthMax);
-          const py = clamp(
-            game.groundY + rand(-60, 40),
-            h * 0.35,
-            h * 0.88,
-          );
-          const nx = lastRight + gap;
-          game.platforms.push({ x: nx, y: py, w: pw });
-
-          // Maybe add coin
-          if (Math.random() < s.coinChance) {
-            game.coins.push({
-              x: nx + pw * rand(0.2, 0.8),
-              y: py - rand(25, 45),
-              collected: false,
-            });
-          }
-          // Maybe add obstacle
-          if (Math.random() < s.obstacleChance) {
-            if (Math.random() < 0.6) {
-              game.obstacles.push({
-                x: nx + pw * rand(0.3, 0.7),
-                y: py - 14,
-                w: 14,
-                h: 14,
-                kind: "spike",
-                baseY: 0,
-                phase: 0,
-              });
-            } else {
-              const oy = py - rand(50, 90);
-              game.obstacles.push({
-                x: nx + pw * rand(0.2, 0.8),
-                y: oy,
-                w: 20,
-                h: 16,
-                kind: "flyer",
-                baseY: oy,
-                phase: Math.random() * Math.PI * 2,
-              });
-            }
-          }
-
-          lastRight = nx + pw;
-        }
-
-        // Run animation
-        if (player.onGround) {
-          player.runTimer += dt;
-          if (player.runTimer > 0.1) {
-            player.runTimer = 0;
-            player.runFrame = (player.runFrame + 1) % 4;
-          }
-        }
-
-        // Fall death
-        if (player.y > h + 50) {
-          stateRef.current = "gameover";
-          setGameState("gameover");
-          const total =
-            Math.floor(game.distance / 10) + game.coinCount * COIN_SCORE;
-          const cur = parseInt(
-            localStorage.getItem("pixel-runner-best") || "0",
-            10,
-          );
-          if (total > cur) {
-            localStorage.setItem("pixel-runner-best", String(total));
-            setBest(total);
-          }
-        }
-
-        // Update display score
-        setDisplayScore(
-          Math.floor(game.distance / 10) + game.coinCount * COIN_SCORE,
-        );
-      }
-
-      // ── Draw ──
-      // Sky
-      const skyGrad = ctx.createLinearGradient(0, 0, 0, h);
-      skyGrad.addColorStop(0, "#0a0a1a");
-      skyGrad.addColorStop(1, "#151530");
-      ctx.fillStyle = skyGrad;
-      ctx.fillRect(0, 0, w, h);
-
-      // Parallax layers
-      for (const layer of game.parallax) {
-        ctx.fillStyle = layer.color;
-        for (const sh of layer.shapes) {
-          ctx.beginPath();
-          // draw as rounded hills / clouds
-          ctx.ellipse(
-            sh.x + sh.w / 2,
-            sh.y + sh.h,
-            sh.w / 2,
-            sh.h,
-            0,
-            Math.PI,
-            0,
-          );
-          ctx.fill();
-        }
-      }
-
-      // Platforms
-      for (const plat of game.platforms) {
-        if (plat.x + plat.w < 0 || plat.x > w) continue;
-        // Top surface
-        const topGrad = ctx.createLinearGradient(
-          0,
-          plat.y,
-          0,
-          plat.y + PLATFORM_H,
-        );
-        topGrad.addColorStop(0, "#5a7d3a");
-        topGrad.addColorStop(1, "#3d5a28");
-        ctx.fillStyle = topGrad;
-        ctx.beginPath();
-        ctx.roundRect(plat.x, plat.y, plat.w, PLATFORM_H, 3);
-        ctx.fill();
-        // Dirt below
-        ctx.fillStyle = "#6b4226";
-        ctx.fillRect(plat.x + 2, plat.y + PLATFORM_H, plat.w - 4, 200);
-        ctx.fillStyle = "#5a3620";
-        // brick lines
-        for (let by = plat.y + PLATFORM_H + 10; by < plat.y + 200; by += 14) {
-          ctx.fillRect(plat.x + 2, by, plat.w - 4, 1);
-        }
-      }
-
-      // Coins
-      const coinPhase = (performance.now() / 300) % (Math.PI * 2);
-      for (const coin of game.coins) {
-        if (coin.collected) continue;
-        if (coin.x < -20 || coin.x > w + 20) continue;
-        const scaleX = Math.abs(Math.cos(coinPhase));
-        ctx.save();
-        ctx.translate(coin.x, coin.y);
-        ctx.scale(scaleX, 1);
-        const grad = ctx.createRadialGradient(0, 0, 1, 0, 0, COIN_R);
-        grad.addColorStop(0, "#ffe680");
-        grad.addColorStop(1, "#f5a623");
-        ctx.fillStyle = grad;
-        ctx.beginPath();
-        ctx.arc(0, 0, COIN_R, 0, Math.PI * 2);
-        ctx.fill();
-        // inner circle
-        ctx.fillStyle = "rgba(255,255,255,0.3)";
-        ctx.beginPath();
-        ctx.arc(-1, -1, COIN_R * 0.45, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.restore();
-      }
-
-      // Obstacles
-      for (const obs of game.obstacles) {
-        if (obs.x + obs.w < 0 || obs.x > w) continue;
-        if (obs.kind === "spike") {
-          ctx.fillStyle = "#e94560";
-          ctx.beginPath();
-          ctx.moveTo(obs.x + obs.w / 2, obs.y);
-          ctx.lineTo(obs.x + obs.w, obs.y + obs.h);
-          ctx.lineTo(obs.x, obs.y + obs.h);
-          ctx.closePath();
-          ctx.fill();
-          // highlight
-          ctx.fillStyle = "rgba(255,255,255,0.2)";
-          ctx.beginPath();
-          ctx.moveTo(obs.x + obs.w / 2, obs.y + 2);
-          ctx.lineTo(obs.x + obs.w * 0.65, obs.y + obs.h * 0.6);
-          ctx.lineTo(obs.x + obs.w * 0.35, obs.y + obs.h * 0.6);
-          ctx.closePath();
-          ctx.fill();
-        } else {
-          // flyer – a small bat/enemy
-          ctx.fillStyle = "#c060e0";
-          ctx.beginPath();
-          ctx.ellipse(
-            obs.x + obs.w / 2,
-            obs.y + obs.h / 2,
-            obs.w / 2,
-            obs.h / 2,
-            0,
-            0,
-            Math.PI * 2,
-          );
-          ctx.fill();
-          // wings
-          const wingFlap = Math.sin(performance.now() / 80) * 6;
-          ctx.fillStyle = "#a040c0";
-          ctx.beginPath();
-          ctx.ellipse(
-            obs.x - 2,
-            obs.y + obs.h / 2 + wingFlap,
-            8,
-            4,
-            -0.3,
-            0,
-            Math.PI * 2,
-          );
-          ctx.fill();
-          ctx.beginPath();
-          ctx.ellipse(
-            obs.x + obs.w + 2,
-            obs.y + obs.h / 2 - wingFlap,
-            8,
-            4,
-            0.3,
-            0,
-            Math.PI * 2,
-          );
-          ctx.fill();
-          // eyes
-          ctx.fillStyle = "#fff";
-          ctx.beginPath();
-          ctx.arc(obs.x + obs.w * 0.35, obs.y + obs.h * 0.4, 2, 0, Math.PI * 2);
-          ctx.arc(obs.x + obs.w * 0.65, obs.y + obs.h * 0.4, 2, 0, Math.PI * 2);
-          ctx.fill();
-        }
-      }
-
-      // Player
-      if (stateRef.current !== "menu") {
-        const p = game.player;
-        // Body
-        ctx.fillStyle = "#4a9eff";
-        ctx.beginPath();
-        ctx.roundRect(p.x, p.y, p.w, p.h - 10, 4);
-        ctx.fill();
-        // Head
-        ctx.fillStyle = "#ffd5a5";
-        ctx.beginPath();
-        ctx.roundRect(p.x + 4, p.y - 8, p.w - 8, 14, 4);
-        ctx.fill();
-        // Eyes
-        ctx.fillStyle = "#222";
-        ctx.fillRect(p.x + p.w - 10, p.y - 4, 3, 3);
-        // Legs (animated)
-        ctx.fillStyle = "#3578c4";
-        if (p.onGround) {
-          const legOffset = p.runFrame % 2 === 0 ? 0 : 4;
-          ctx.fillRect(p.x + 4 + legOffset, p.y + p.h - 10, 7, 10);
-          ctx.fillRect(p.x + p.w - 11 - legOffset, p.y + p.h - 10, 7, 10);
-        } else {
-          // Jumping pose – legs tucked
-          ctx.fillRect(p.x + 6, p.y + p.h - 8, 6, 8);
-          ctx.fillRect(p.x + p.w - 12, p.y + p.h - 8, 6, 8);
-        }
-        // Arm
-        ctx.fillStyle = "#4a9eff";
-        if (!p.onGround) {
-          // Arms up while jumping
-          ctx.fillRect(p.x - 4, p.y + 2, 5, 10);
-          ctx.fillRect(p.x + p.w - 1, p.y + 2, 5, 10);
-        } else {
-          ctx.fillRect(p.x - 3, p.y + 8, 4, 12);
-          ctx.fillRect(p.x + p.w - 1, p.y + 8, 4, 12);
-        }
-      }
-
-      // ── Paused overlay on canvas ──
-      if (stateRef.current === "paused") {
-        ctx.fillStyle = "rgba(0,0,0,0.5)";
-        ctx.fillRect(0, 0, w, h);
-        ctx.fillStyle = "#fff";
-        ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif';
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.fillText("Paused", w / 2, h / 2 - 20);
-        ctx.font = '18px "Segoe UI", system-ui, sans-serif';
-        ctx.fillStyle = "#aaa";
-        ctx.fillText("Press Esc or P to resume", w / 2, h / 2 + 25);
-      }
-
-      // ── Game over overlay on canvas ──
-      if (stateRef.current === "gameover") {
-        ctx.fillStyle = "rgba(0,0,0,0.55)";
-        ctx.fillRect(0, 0, w, h);
-        ctx.fillStyle = "#e94560";
-        ctx.font = 'bold 42px "Segoe UI", system-ui, sans-serif';
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.fillText("Game Over!", w / 2, h / 2 - 30);
-        ctx.fillStyle = "#fff";
-        ctx.font = '24px "Segoe UI", system-ui, sans-serif';
-        const total =
-          Math.floor(game.distance / 10) + game.coinCount * COIN_SCORE;
-        ctx.fillText(`Score: ${total}`, w / 2, h / 2 + 15);
-      }
-
-      rafRef.current = requestAnimationFrame(frame);
-    }
-
-    rafRef.current = requestAnimationFrame(frame);
-
     return () => {
-      cancelAnimationFrame(rafRef.current);
       window.removeEventListener("resize", resize);
       window.removeEventListener("keydown", onKeyDown);
       window.removeEventListener("keyup", onKeyUp);
@@ -887,9 +1043,11 @@ function PixelRunner() {
       canvas.removeEventListener("mouseup", onMouseUp);
       canvas.removeEventListener("touchstart", onTouchStart);
       canvas.removeEventListener("touchend", onTouchEnd);
-      canvas.removeEventListener("touchmove", onTouchMove);
+      slideBtn?.removeEventListener("touchstart", onSlideTouchStart);
+      slideBtn?.removeEventListener("touchend", onSlideTouchEnd);
+      slideBtn?.removeEventListener("touchcancel", onSlideTouchEnd);
     };
-  }, [gameState, togglePause, initGame]);
+  }, [gameState, replay, stateRef, togglePause, initGame]);
 
   // ── Menu screen ──
   if (gameState === "menu") {
@@ -898,7 +1056,7 @@ function PixelRunner() {
         <div className="pr-menu-panel">
           <h1 className="pr-menu-title">Pixel Runner</h1>
           <p className="pr-menu-sub">
-            Jump across platforms, dodge obstacles, and collect coins!
+            Jump across platforms, slide under beams, and collect coins!
           </p>
 
           <div className="pr-diff-buttons">
@@ -918,6 +1076,49 @@ function PixelRunner() {
             <span>Double Jump: {settings.doubleJump ? "Yes" : "No"}</span>
           </div>
 
+          <div className="pr-autopilot">
+            <span className="pr-autopilot-label">Autopilot</span>
+            <div className="pr-diff-buttons">
+              {[false, true].map((on) => (
+                <button
+                  key={String(on)}
+                  className={`pr-diff-btn ${autopilot === on ? "pr-diff-btn-active" : ""}`}
+                  onClick={() => setAutopilot(on)}
+                >
+                  {on ? "On" : "Off"}
+                </button>
+              ))}
+            </div>
+            {autopilot && (
+              <span className="pr-autopilot-note">
+                Reads the level ahead and times every jump. Autopilot runs
+                aren't scored, earn no coins and use no supplies.
+              </span>
+            )}
+          </div>
+
+          <div className="pr-race">
+            <span className="pr-race-label">Race Best Run</span>
+            <div className="pr-diff-buttons">
+              {[true, false].map((on) => (
+                <button
+                  key={String(on)}
+                  className={`pr-diff-btn ${race === on ? "pr-diff-btn-active" : ""}`}
+                  onClick={() => setRace(on)}
+                >
+                  {on ? "On" : "Off"}
+                </button>
+              ))}
+            </div>
+            <span className="pr-race-note">
+              {race
+                ? "Runs the level of your best run, its ghost alongside."
+                : "A new level every game, no ghost."}
+            </span>
+          </div>
+
+          <Shop wallet={wallet} onChange={changeWallet} />
+
           {best > 0 && (
             <p className="pr-best-line">
               Best Score: <span className="pr-best-val">{best}</span>
@@ -927,11 +1128,30 @@ function PixelRunner() {
           <button className="pr-start-btn" onClick={startGame}>
             Start Game
           </button>
+
+          <Link
+            className="pr-leaderboard-link"
+            to={`/leaderboard?game=pixel-runner&variant=${difficulty}`}
+          >
+            🏆 Leaderboard
+          </Link>
         </div>
       </div>
     );
   }
 
+  // ── Replay ──
+  if (replay) {
+    return (
+      <ReplayViewer
+        sim={runnerSim}
+        recording={replay}
+        draw={drawReplay}
+        onClose={closeReplay}
+      />
+    );
+  }
+
   // ── Game screen ──
   return (
     <div className="pr-container" ref={containerRef}>
@@ -941,6 +1161,32 @@ function PixelRunner() {
         <span className="pr-hud-item">Score: {displayScore}</span>
         <span className="pr-hud-item pr-hud-coins">Coins: {displayCoins}</span>
         <span className="pr-hud-item pr-hud-best">Best: {best}</span>
+        {POWER_UP_KINDS.filter((kind) => displayPowers[kind] > 0).map(
+          (kind) => (
+            <span
+              key={kind}
+              className="pr-hud-item pr-hud-power"
+              style={{ color: POWER_UPS[kind].color }}
+              title={POWER_UPS[kind].label}
+            >
+              {POWER_UPS[kind].icon} {displayPowers[kind]}s
+              <span
+                className="pr-hud-power-bar"
+                style={{
+                  width: `${(displayPowers[kind] / POWER_UP_TIME[kind]) * 100}%`,
+                }}
+              />
+            </span>
+          ),
+        )}
+        {revives > 0 && (
+          <span className="pr-hud-item pr-hud-revive" title="Revive">
+            💖 ×{revives}
+          </span>
+        )}
+        {autopilot && (
+          <span className="pr-hud-item pr-hud-autopilot">🤖 Autopilot</span>
+        )}
         {gameState === "playing" && (
           <button className="pr-hud-pause" onClick={togglePause}>
             Pause
@@ -948,6 +1194,12 @@ function PixelRunner() {
         )}
       </div>
 
+      {gameState === "playing" && !autopilot && (
+        <button ref={slideBtnRef} className="pr-slide-btn">
+          Slide
+        </button>
+      )}
+
       {gameState === "paused" && (
         <div className="pr-overlay">
           <button className="pr-overlay-btn" onClick={togglePause}>
@@ -964,9 +1216,29 @@ function PixelRunner() {
 
       {gameState === "gameover" && (
         <div className="pr-overlay">
+          {entry && (
+            <ScoreEntry
+              game="pixel-runner"
+              variant={difficulty}
+              entry={entry}
+              submission={submission}
+            />
+          )}
+          {banked > 0 && (
+            <p className="pr-banked">
+              🪙 +{banked} banked · {wallet.coins} in the wallet
+            </p>
+          )}
+          <GlobalRank submission={submission} />
           <button className="pr-overlay-btn" onClick={playAgain}>
             Play Again
           </button>
+          <button
+            className="pr-overlay-btn pr-overlay-btn-sec"
+            onClick={watchReplay}
+          >
+            Watch Replay
+          </button>
           <button
             className="pr-overlay-btn pr-overlay-btn-sec"
             onClick={backToMenu}
@@ -1,46 +1,36 @@
 import { useRef, useEffect, useCallback, useState } from 'react'
+import { Link } from 'react-router'
+import { loadBest, loadSettings, recordPlay, saveBest, saveSettings } from '../engine/storage'
+import { addScore } from '../games/leaderboard'
+import type { LeaderboardEntry } from '../games/leaderboard'
+import { submitScore } from '../engine/scoreSync'
+import type { Submission } from '../engine/scoreSync'
+import { useGameLoop } from '../engine/useGameLoop'
+import { useRunSeed } from '../engine/useRunSeed'
+import { createRun } from '../engine/replay'
+import type { Recording, Run } from '../engine/replay'
+import { keepBestRun, loadGhost } from '../engine/ghost'
+import type { Ghost } from '../engine/ghost'
+import { createDemo } from '../engine/demo'
+import type { Demo } from '../engine/demo'
+import { snakeSim, CUSTOM_LIMITS, PRESETS } from '../games/snake/sim'
+import type { Difficulty, GameSettings, Point, SnakeInput, SnakeState } from '../games/snake/sim'
+import { createBot, STRATEGIES } from '../games/snake/bot'
+import type { SnakeBot, Strategy } from '../games/snake/bot'
+import ReplayViewer from '../components/ReplayViewer'
+import ScoreEntry from '../components/ScoreEntry'
+import GlobalRank from '../components/GlobalRank'
 import './Snake.css'
 
-// ── Types ──────────────────────────────────────────────────
-interface GameSettings {
-  speed: number       // ticks per second
-  gridSize: number    // cells per row/col
-  wallTeleport: boolean
-}
-
-interface Point {
-  x: number
-  y: number
-}
-
-type Direction = 'up' | 'down' | 'left' | 'right'
-type Difficulty = 'easy' | 'medium' | 'hard' | 'custom'
-type GameState = 'menu' | 'playing' | 'paused' | 'gameover'
-
-// ── Presets ────────────────────────────────────────────────
-const PRESETS: Record<Exclude<Difficulty, 'custom'>, GameSettings> = {
-  easy:   { speed: 8,  gridSize: 15, wallTeleport: true  },
-  medium: { speed: 12, gridSize: 20, wallTeleport: false },
-  hard:   { speed: 18, gridSize: 25, wallTeleport: false },
-}
-
-const DIRECTION_VECTORS: Record<Direction, Point> = {
-  up:    { x:  0, y: -1 },
-  down:  { x:  0, y:  1 },
-  left:  { x: -1, y:  0 },
-  right: { x:  1, y:  0 },
-}
 
-// ── Helpers ────────────────────────────────────────────────
-function spawnFood(gridSize: number, snake: Point[]): Point {
-  const occupied = new Set(snake.map(p => `${p.x},${p.y}`))
-  const free: Point[] = []
-  for (let x = 0; x < gridSize; x++) {
-    for (let y = 0; y < gridSize; y++) {
-      if (!occupied.has(`${x},${y}`)) free.push({ x, y })
-    }
-  }
-  return free.length > 0 ? free[Math.floor(Math.random() * free.length)] : { x: 0, y: 0 }
+// Segment positions part-way between the previous tick and the current one.
+// Segments that wrapped through a wall snap instead of sliding across the grid.
+function interpolateSnake(prev: Point[], cur: Point[], alpha: number): Point[] {
+  return cur.map((p, i) => {
+    const q = prev[i]
+    if (!q || Math.abs(p.x - q.x) + Math.abs(p.y - q.y) > 1) return p
+    return { x: q.x + (p.x - q.x) * alpha, y: q.y + (p.y - q.y) * alpha }
+  })
 }
 
 // ── Drawing ────────────────────────────────────────────────
@@ -117,18 +107,65 @@ function drawSnake(
   }
 }
 
+// The ghost is just an outline so it never hides the live snake or food.
+function drawGhostSnake(
+  ctx: CanvasRenderingContext2D,
+  snake: Point[],
+  cellSize: number,
+  offsetX: number,
+  offsetY: number,
+) {
+  const pad = Math.max(1, cellSize * 0.08)
+  const s = cellSize - pad * 2
+  ctx.strokeStyle = 'rgba(200,220,255,0.35)'
+  ctx.lineWidth = Math.max(1, cellSize * 0.06)
+  for (const seg of snake) {
+    ctx.beginPath()
+    ctx.roundRect(offsetX + seg.x * cellSize + pad, offsetY + seg.y * cellSize + pad, s, s, Math.max(2, s * 0.2))
+    ctx.stroke()
+  }
+}
+
+// The autopilot's planned route, from the head to where it is heading.
+// Steps that wrap through a wall break the line instead of crossing the grid.
+function drawPath(
+  ctx: CanvasRenderingContext2D,
+  head: Point,
+  path: Point[],
+  cellSize: number,
+  offsetX: number,
+  offsetY: number,
+) {
+  const centre = (p: Point) => [offsetX + (p.x + 0.5) * cellSize, offsetY + (p.y + 0.5) * cellSize] as const
+  ctx.strokeStyle = 'rgba(245,200,66,0.45)'
+  ctx.lineWidth = Math.max(2, cellSize * 0.12)
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  ctx.beginPath()
+  ctx.moveTo(...centre(head))
+  let prev = head
+  for (const p of path) {
+    if (Math.abs(p.x - prev.x) + Math.abs(p.y - prev.y) > 1) ctx.moveTo(...centre(p))
+    else ctx.lineTo(...centre(p))
+    prev = p
+  }
+  ctx.stroke()
+  ctx.lineCap = 'butt'
+  ctx.lineJoin = 'miter'
+}
+
 function drawFood(
   ctx: CanvasRenderingContext2D,
   food: Point,
   cellSize: number,
   offsetX: number,
   offsetY: number,
-  frame: number,
+  now: number,
 ) {
   const cx = offsetX + food.x * cellSize + cellSize / 2
   const cy = offsetY + food.y * cellSize + cellSize / 2
   const baseR = cellSize * 0.35
-  const pulse = Math.sin(frame * 0.1) * cellSize * 0.04
+  const pulse = Math.sin(now * 0.006) * cellSize * 0.04
   const r = baseR + pulse
 
   ctx.shadowColor = 'rgba(233,69,96,0.5)'
@@ -147,156 +184,273 @@ function drawFood(
   ctx.fill()
 }
 
+// Everything that belongs to the run itself – shared by live play and the
+// replay viewer. The grid is fitted to whatever canvas it is drawn on.
+// Live play also passes the ghost of the best run and the autopilot's plan.
+function drawWorld(
+  ctx: CanvasRenderingContext2D,
+  state: SnakeState,
+  alpha: number,
+  now: number,
+  ghost?: SnakeState | null,
+  path?: Point[],
+) {
+  const w = ctx.canvas.width
+  const h = ctx.canvas.height
+  const gs = state.settings.gridSize
+  const cellSize = Math.floor(Math.min(w, h) / gs)
+  const gridPx = cellSize * gs
+  const offsetX = Math.floor((w - gridPx) / 2)
+  const offsetY = Math.floor((h - gridPx) / 2)
+
+  // clear
+  ctx.fillStyle = '#0f0f1a'
+  ctx.fillRect(0, 0, w, h)
+
+  drawGrid(ctx, cellSize, gs, offsetX, offsetY)
+  if (ghost && !ghost.over) {
+    drawGhostSnake(ctx, interpolateSnake(ghost.prevSnake, ghost.snake, alpha), cellSize, offsetX, offsetY)
+  }
+  if (path && path.length > 0 && !state.over) {
+    drawPath(ctx, state.snake[0], path, cellSize, offsetX, offsetY)
+  }
+  const snake = state.over ? state.snake : interpolateSnake(state.prevSnake, state.snake, alpha)
+  drawSnake(ctx, snake, cellSize, offsetX, offsetY)
+  if (!state.won) drawFood(ctx, state.food, cellSize, offsetX, offsetY, now)
+
+  // wall indicator
+  if (state.settings.wallTeleport) {
+    ctx.strokeStyle = 'rgba(78,234,110,0.25)'
+    ctx.lineWidth = 2
+    ctx.setLineDash([6, 4])
+    ctx.strokeRect(offsetX, offsetY, gridPx, gridPx)
+    ctx.setLineDash([])
+  } else {
+    ctx.strokeStyle = 'rgba(233,69,96,0.5)'
+    ctx.lineWidth = 3
+    ctx.strokeRect(offsetX, offsetY, gridPx, gridPx)
+  }
+
+  // score during play
+  if (!state.over) {
+    ctx.fillStyle = '#fff'
+    ctx.strokeStyle = '#000'
+    ctx.lineWidth = 3
+    ctx.font = 'bold 36px "Segoe UI", system-ui, sans-serif'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'top'
+    ctx.strokeText(String(state.score), w / 2, 14)
+    ctx.fillText(String(state.score), w / 2, 14)
+  }
+}
+
+// ── Demo ───────────────────────────────────────────────────
+// Home's preview: the safe autopilot playing medium, its plan drawn ahead.
+export function demo(): Demo | null {
+  const settings = { ...PRESETS.medium }
+  const bot = createBot('safe')
+  let path: Point[] = []
+  return createDemo({
+    sim: snakeSim,
+    game: 'snake',
+    variant: 'medium',
+    settings,
+    world: { width: settings.gridSize, height: settings.gridSize },
+    draw: (ctx, state, alpha, now) => drawWorld(ctx, state, alpha, now, null, path),
+    policy: (state) => {
+      const plan = bot.plan(state)
+      path = plan.path
+      if (plan.dir !== state.nextDir) return plan.dir
+    },
+  })
+}
+
 // ── Component ──────────────────────────────────────────────
 function Snake() {
   // ── Settings state ──
-  const [difficulty, setDifficulty] = useState<Difficulty>('medium')
-  const [settings, setSettings] = useState<GameSettings>({ ...PRESETS.medium })
-  const [gameState, setGameState] = useState<GameState>('menu')
+  const [restored] = useState(() => loadSettings<Difficulty, GameSettings>('snake', PRESETS))
+  const [difficulty, setDifficulty] = useState<Difficulty>(restored?.difficulty ?? 'medium')
+  const [settings, setSettings] = useState<GameSettings>(restored?.settings ?? { ...PRESETS.medium })
   const [displayScore, setDisplayScore] = useState(0)
-  const [best, setBest] = useState(() => {
-    const saved = localStorage.getItem('snake-best')
-    return saved ? parseInt(saved, 10) : 0
-  })
+  const [best, setBest] = useState(() => loadBest('snake', restored?.difficulty ?? 'medium'))
+  const [replay, setReplay] = useState<Recording<SnakeInput, GameSettings> | null>(null)
+  const [entry, setEntry] = useState<LeaderboardEntry | null>(null)
+  const [submission, setSubmission] = useState<Submission | null>(null)
+  const [autopilot, setAutopilot] = useState<Strategy | null>(null)
+  const [race, setRace] = useState(false)
 
   // ── Refs for mutable game state ──
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
-  const stateRef = useRef<GameState>('menu')
-  const snakeRef = useRef<Point[]>([])
-  const foodRef = useRef<Point>({ x: 0, y: 0 })
-  const dirRef = useRef<Direction>('right')
-  const nextDirRef = useRef<Direction>('right')
-  const scoreRef = useRef(0)
-  const frameRef = useRef(0)
+  const runRef = useRef<Run<SnakeState, SnakeInput, GameSettings> | null>(null)
+  const lastRecordingRef = useRef<Recording<SnakeInput, GameSettings> | null>(null)
+  const ghostRef = useRef<Ghost<SnakeState> | null>(null)
   const settingsRef = useRef<GameSettings>(settings)
-  const intervalRef = useRef<number>(0)
-  const rafRef = useRef<number>(0)
+  const difficultyRef = useRef<Difficulty>(difficulty)
   const touchStartRef = useRef<Point | null>(null)
+  const autopilotRef = useRef<Strategy | null>(autopilot)
+  const raceRef = useRef(race)
+  const botRef = useRef<SnakeBot | null>(null)
+  const pathRef = useRef<Point[]>([])
+  const { nextSeed } = useRunSeed()
 
-  // keep settingsRef in sync
+  // keep refs in sync
   useEffect(() => { settingsRef.current = settings }, [settings])
+  useEffect(() => { difficultyRef.current = difficulty }, [difficulty])
+  useEffect(() => { autopilotRef.current = autopilot }, [autopilot])
+  useEffect(() => { raceRef.current = race }, [race])
 
   // ── Difficulty change ──
   const selectDifficulty = useCallback((d: Difficulty) => {
     setDifficulty(d)
+    setBest(loadBest('snake', d))
     if (d !== 'custom') {
       setSettings({ ...PRESETS[d] })
     }
   }, [])
 
   // ── Init / reset game ──
+  // Snake's world is its grid; the canvas only decides how big cells are.
   const initGame = useCallback(() => {
-    const gs = settingsRef.current.gridSize
-    const mid = Math.floor(gs / 2)
-    snakeRef.current = [
-      { x: mid, y: mid },
-      { x: mid - 1, y: mid },
-      { x: mid - 2, y: mid },
-    ]
-    dirRef.current = 'right'
-    nextDirRef.current = 'right'
-    scoreRef.current = 0
-    frameRef.current = 0
-    foodRef.current = spawnFood(gs, snakeRef.current)
+    const s = { ...settingsRef.current }
+    const ghost = raceRef.current ? loadGhost(snakeSim, 'snake', s, difficultyRef.current) : null
+    const seed = nextSeed(ghost?.seed)
+    runRef.current = createRun(
+      snakeSim,
+      'snake',
+      s,
+      seed,
+      { width: s.gridSize, height: s.gridSize },
+      difficultyRef.current,
+    )
+    // a `?seed=` challenge on another level has no ghost to race
+    ghostRef.current = ghost?.seed === seed ? ghost : null
+    botRef.current = autopilotRef.current ? createBot(autopilotRef.current) : null
+    pathRef.current = []
     setDisplayScore(0)
-  }, [])
+  }, [nextSeed])
+
+  // ── Game tick ──
+  function tick() {
+    const run = runRef.current
+    if (!run) return
+    // the autopilot steers through the same input as the keyboard, so its
+    // runs record and replay like any other
+    const bot = botRef.current
+    if (bot) {
+      const plan = bot.plan(run.state)
+      if (plan.dir !== run.state.nextDir) run.input(plan.dir)
+      pathRef.current = plan.path
+    }
+    run.update()
+    ghostRef.current?.update()
+
+    const score = run.state.score
+    if (score !== displayScore) setDisplayScore(score)
+    if (run.state.over) endGame(run)
+  }
+
+  function endGame(run: Run<SnakeState, SnakeInput, GameSettings>) {
+    lastRecordingRef.current = run.recording()
+    setGameState('gameover')
+    // autopilot runs can be replayed but don't count as the player's
+    if (botRef.current) {
+      setEntry(null)
+      setSubmission(null)
+      return
+    }
+    keepBestRun(lastRecordingRef.current)
+    setEntry(addScore('snake', difficultyRef.current, run.state.score))
+    setSubmission(submitScore(lastRecordingRef.current))
+    recordPlay('snake', run.state.score, run.state.tick / run.state.settings.speed)
+    if (run.state.score > best) {
+      setBest(run.state.score)
+      saveBest('snake', run.state.score, difficultyRef.current)
+    }
+  }
+
+  // ── Draw ──
+  function draw(alpha: number, now: number) {
+    const canvas = canvasRef.current
+    const run = runRef.current
+    if (!canvas || !run) return
+    const ctx = canvas.getContext('2d')!
+    const state = stateRef.current
+    const w = canvas.width
+    const h = canvas.height
+
+    drawWorld(ctx, run.state, alpha, now, ghostRef.current?.state, pathRef.current)
+
+    // paused overlay
+    if (state === 'paused') {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)'
+      ctx.fillRect(0, 0, w, h)
+      ctx.fillStyle = '#fff'
+      ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText('Paused', w / 2, h / 2 - 20)
+      ctx.font = '18px "Segoe UI", system-ui, sans-serif'
+      ctx.fillStyle = '#aaa'
+      ctx.fillText('Press Space or Esc to resume', w / 2, h / 2 + 25)
+    }
+
+    // game over overlay on canvas
+    if (state === 'gameover') {
+      ctx.fillStyle = 'rgba(0,0,0,0.55)'
+      ctx.fillRect(0, 0, w, h)
+      ctx.fillStyle = run.state.won ? '#4eea6e' : '#e94560'
+      ctx.font = 'bold 42px "Segoe UI", system-ui, sans-serif'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(run.state.won ? 'Board Full!' : 'Game Over', w / 2, h / 2 - 30)
+      ctx.fillStyle = '#fff'
+      ctx.font = '24px "Segoe UI", system-ui, sans-serif'
+      ctx.fillText(`Score: ${run.state.score}`, w / 2, h / 2 + 15)
+    }
+  }
+
+  // ── Game loop: one tick per step, smooth drawing in between ──
+  const { state: gameState, stateRef, setState: setGameState, togglePause } = useGameLoop({
+    step: 1 / settings.speed,
+    update: tick,
+    render: draw,
+  })
 
   // ── Start game ──
   const startGame = useCallback(() => {
+    saveSettings('snake', difficultyRef.current, settingsRef.current)
     initGame()
-    stateRef.current = 'playing'
     setGameState('playing')
-  }, [initGame])
-
-  // ── Pause / resume ──
-  const togglePause = useCallback(() => {
-    if (stateRef.current === 'playing') {
-      stateRef.current = 'paused'
-      setGameState('paused')
-    } else if (stateRef.current === 'paused') {
-      stateRef.current = 'playing'
-      setGameState('playing')
-    }
-  }, [])
+  }, [initGame, setGameState])
 
   // ── Back to menu ──
   const backToMenu = useCallback(() => {
-    stateRef.current = 'menu'
     setGameState('menu')
-    clearInterval(intervalRef.current)
-  }, [])
+  }, [setGameState])
 
   // ── Play again (same settings) ──
   const playAgain = useCallback(() => {
     initGame()
-    stateRef.current = 'playing'
     setGameState('playing')
-  }, [initGame])
-
-  // ── Game tick ──
-  const tick = useCallback(() => {
-    if (stateRef.current !== 'playing') return
+  }, [initGame, setGameState])
 
-    const { gridSize, wallTeleport } = settingsRef.current
-    const snake = snakeRef.current
-    dirRef.current = nextDirRef.current
-    const vec = DIRECTION_VECTORS[dirRef.current]
-    const head = snake[0]
-
-    let newHead: Point = { x: head.x + vec.x, y: head.y + vec.y }
-
-    // wall handling
-    if (wallTeleport) {
-      newHead.x = ((newHead.x % gridSize) + gridSize) % gridSize
-      newHead.y = ((newHead.y % gridSize) + gridSize) % gridSize
-    } else {
-      if (newHead.x < 0 || newHead.x >= gridSize || newHead.y < 0 || newHead.y >= gridSize) {
-        // die
-        stateRef.current = 'gameover'
-        setGameState('gameover')
-        if (scoreRef.current > best) {
-          setBest(scoreRef.current)
-          localStorage.setItem('snake-best', String(scoreRef.current))
-        }
-        return
-      }
-    }
-
-    // self collision (check against all but the tail which will be removed — unless eating)
-    const willEat = newHead.x === foodRef.current.x && newHead.y === foodRef.current.y
-    const bodyToCheck = willEat ? snake : snake.slice(0, -1)
-    for (const seg of bodyToCheck) {
-      if (seg.x === newHead.x && seg.y === newHead.y) {
-        stateRef.current = 'gameover'
-        setGameState('gameover')
-        if (scoreRef.current > best) {
-          setBest(scoreRef.current)
-          localStorage.setItem('snake-best', String(scoreRef.current))
-        }
-        return
-      }
-    }
+  // ── Replay of the last run ──
+  const watchReplay = useCallback(() => {
+    setReplay(lastRecordingRef.current)
+  }, [])
 
-    // move
-    snake.unshift(newHead)
-    if (willEat) {
-      scoreRef.current++
-      setDisplayScore(scoreRef.current)
-      foodRef.current = spawnFood(gridSize, snake)
-    } else {
-      snake.pop()
-    }
-  }, [best])
+  const closeReplay = useCallback(() => {
+    setReplay(null)
+  }, [])
 
-  // ── Render loop (rAF for smooth drawing) ──
+  // ── Canvas sizing + input ──
   useEffect(() => {
-    if (gameState === 'menu') return
+    if (gameState === 'menu' || replay) return
 
     const canvas = canvasRef.current
     const container = containerRef.current
     if (!canvas || !container) return
-    const ctx = canvas.getContext('2d')!
 
     function resize() {
       const rect = container!.getBoundingClientRect()
@@ -306,105 +460,29 @@ function Snake() {
     resize()
     window.addEventListener('resize', resize)
 
-    // tick interval
-    intervalRef.current = window.setInterval(tick, 1000 / settingsRef.current.speed)
-
-    function draw() {
-      const w = canvas!.width
-      const h = canvas!.height
-      const gs = settingsRef.current.gridSize
-      const cellSize = Math.floor(Math.min(w, h) / gs)
-      const gridPx = cellSize * gs
-      const offsetX = Math.floor((w - gridPx) / 2)
-      const offsetY = Math.floor((h - gridPx) / 2)
-      frameRef.current++
-
-      // clear
-      ctx.fillStyle = '#0f0f1a'
-      ctx.fillRect(0, 0, w, h)
-
-      drawGrid(ctx, cellSize, gs, offsetX, offsetY)
-      drawSnake(ctx, snakeRef.current, cellSize, offsetX, offsetY)
-      drawFood(ctx, foodRef.current, cellSize, offsetX, offsetY, frameRef.current)
-
-      // wall indicator
-      if (settingsRef.current.wallTeleport) {
-        ctx.strokeStyle = 'rgba(78,234,110,0.25)'
-        ctx.lineWidth = 2
-        ctx.setLineDash([6, 4])
-        ctx.strokeRect(offsetX, offsetY, gridPx, gridPx)
-        ctx.setLineDash([])
-      } else {
-        ctx.strokeStyle = 'rgba(233,69,96,0.5)'
-        ctx.lineWidth = 3
-        ctx.strokeRect(offsetX, offsetY, gridPx, gridPx)
-      }
-
-      // paused overlay
-      if (stateRef.current === 'paused') {
-        ctx.fillStyle = 'rgba(0,0,0,0.5)'
-        ctx.fillRect(0, 0, w, h)
-        ctx.fillStyle = '#fff'
-        ctx.font = 'bold 40px "Segoe UI", system-ui, sans-serif'
-        ctx.textAlign = 'center'
-        ctx.textBaseline = 'middle'
-        ctx.fillText('Paused', w / 2, h / 2 - 20)
-        ctx.font = '18px "Segoe UI", system-ui, sans-serif'
-        ctx.fillStyle = '#aaa'
-        ctx.fillText('Press Space or Esc to resume', w / 2, h / 2 + 25)
-      }
-
-      // game over overlay on canvas
-      if (stateRef.current === 'gameover') {
-        ctx.fillStyle = 'rgba(0,0,0,0.55)'
-        ctx.fillRect(0, 0, w, h)
-        ctx.fillStyle = '#e94560'
-        ctx.font = 'bold 42px "Segoe UI", system-ui, sans-serif'
-        ctx.textAlign = 'center'
-        ctx.textBaseline = 'middle'
-        ctx.fillText('Game Over', w / 2, h / 2 - 30)
-        ctx.fillStyle = '#fff'
-        ctx.font = '24px "Segoe UI", system-ui, sans-serif'
-        ctx.fillText(`Score: ${scoreRef.current}`, w / 2, h / 2 + 15)
-      }
-
-      // score during play
-      if (stateRef.current === 'playing') {
-        ctx.fillStyle = '#fff'
-        ctx.strokeStyle = '#000'
-        ctx.lineWidth = 3
-        ctx.font = 'bold 36px "Segoe UI", system-ui, sans-serif'
-        ctx.textAlign = 'center'
-        ctx.textBaseline = 'top'
-        ctx.strokeText(String(scoreRef.current), w / 2, 14)
-        ctx.fillText(String(scoreRef.current), w / 2, 14)
-      }
-
-      rafRef.current = requestAnimationFrame(draw)
+    // turns are recorded with the tick they land on
+    function turn(dir: SnakeInput) {
+      if (stateRef.current === 'playing' && !botRef.current) runRef.current?.input(dir)
     }
 
-    rafRef.current = requestAnimationFrame(draw)
-
     // ── Keyboard ──
     function onKey(e: KeyboardEvent) {
-      const cur = dirRef.current
-
       switch (e.key) {
         case 'ArrowUp': case 'w': case 'W':
           e.preventDefault()
-          if (cur !== 'down') nextDirRef.current = 'up'
+          turn('up')
           break
         case 'ArrowDown': case 's': case 'S':
           e.preventDefault()
-          if (cur !== 'up') nextDirRef.current = 'down'
+          turn('down')
           break
         case 'ArrowLeft': case 'a': case 'A':
           e.preventDefault()
-          if (cur !== 'right') nextDirRef.current = 'left'
+          turn('left')
           break
         case 'ArrowRight': case 'd': case 'D':
           e.preventDefault()
-          if (cur !== 'left') nextDirRef.current = 'right'
+          turn('right')
           break
         case ' ': case 'Escape':
           e.preventDefault()
@@ -436,15 +514,12 @@ function Snake() {
       const absDy = Math.abs(dy)
       if (absDx < 20 && absDy < 20) return // too small, ignore
 
-      const cur = dirRef.current
       if (absDx > absDy) {
         // horizontal swipe
-        if (dx > 0 && cur !== 'left') nextDirRef.current = 'right'
-        else if (dx < 0 && cur !== 'right') nextDirRef.current = 'left'
+        turn(dx > 0 ? 'right' : 'left')
       } else {
         // vertical swipe
-        if (dy > 0 && cur !== 'up') nextDirRef.current = 'down'
-        else if (dy < 0 && cur !== 'down') nextDirRef.current = 'up'
+        turn(dy > 0 ? 'down' : 'up')
       }
     }
 
@@ -454,15 +529,13 @@ function Snake() {
     canvas.addEventListener('touchend', onTouchEnd, { passive: false })
 
     return () => {
-      cancelAnimationFrame(rafRef.current)
-      clearInterval(intervalRef.current)
       window.removeEventListener('resize', resize)
       window.removeEventListener('keydown', onKey)
       canvas.removeEventListener('touchstart', onTouchStart)
       canvas.removeEventListener('touchmove', onTouchMove)
       canvas.removeEventListener('touchend', onTouchEnd)
     }
-  }, [gameState, tick, togglePause])
+  }, [gameState, replay, stateRef, togglePause])
 
   // ── Menu / Settings screen ──
   if (gameState === 'menu') {
@@ -490,8 +563,9 @@ function Snake() {
                 <span className="setting-label">Speed</span>
                 <input
                   type="range"
-                  min={4}
-                  max={25}
+                  min={CUSTOM_LIMITS.speed.min}
+                  max={CUSTOM_LIMITS.speed.max}
+                  step={CUSTOM_LIMITS.speed.step}
                   value={settings.speed}
                   onChange={(e) => setSettings(s => ({ ...s, speed: Number(e.target.value) }))}
                 />
@@ -502,8 +576,9 @@ function Snake() {
                 <span className="setting-label">Grid Size</span>
                 <input
                   type="range"
-                  min={10}
-                  max={35}
+                  min={CUSTOM_LIMITS.gridSize.min}
+                  max={CUSTOM_LIMITS.gridSize.max}
+                  step={CUSTOM_LIMITS.gridSize.step}
                   value={settings.gridSize}
                   onChange={(e) => setSettings(s => ({ ...s, gridSize: Number(e.target.value) }))}
                 />
@@ -523,6 +598,53 @@ function Snake() {
             </div>
           )}
 
+          <div className="autopilot-settings">
+            <span className="setting-label">Autopilot</span>
+            <div className="difficulty-buttons">
+              <button
+                className={`diff-btn ${autopilot === null ? 'diff-btn-active' : ''}`}
+                onClick={() => setAutopilot(null)}
+              >
+                Off
+              </button>
+              {(Object.keys(STRATEGIES) as Strategy[]).map((id) => (
+                <button
+                  key={id}
+                  className={`diff-btn ${autopilot === id ? 'diff-btn-active' : ''}`}
+                  title={STRATEGIES[id].hint}
+                  onClick={() => setAutopilot(id)}
+                >
+                  {STRATEGIES[id].label}
+                </button>
+              ))}
+            </div>
+            {autopilot && (
+              <span className="autopilot-hint">
+                {STRATEGIES[autopilot].hint}. Autopilot runs aren't scored.
+              </span>
+            )}
+          </div>
+
+          <div className="race-settings">
+            <span className="setting-label">Race Best Run</span>
+            <div className="difficulty-buttons">
+              {[true, false].map((on) => (
+                <button
+                  key={String(on)}
+                  className={`diff-btn ${race === on ? 'diff-btn-active' : ''}`}
+                  onClick={() => setRace(on)}
+                >
+                  {on ? 'On' : 'Off'}
+                </button>
+              ))}
+            </div>
+            <span className="race-hint">
+              {race
+                ? 'Replays the level of your best run, its ghost alongside.'
+                : 'A new level every game, no ghost.'}
+            </span>
+          </div>
+
           <div className="settings-summary">
             <span>Speed: {settings.speed}</span>
             <span>Grid: {settings.gridSize}x{settings.gridSize}</span>
@@ -532,11 +654,22 @@ function Snake() {
           <button className="start-btn" onClick={startGame}>
             Start Game
           </button>
+
+          <Link className="menu-leaderboard-link" to={`/leaderboard?game=snake&variant=${difficulty}`}>
+            🏆 Leaderboard
+          </Link>
         </div>
       </div>
     )
   }
 
+  // ── Replay ──
+  if (replay) {
+    return (
+      <ReplayViewer sim={snakeSim} recording={replay} draw={drawWorld} onClose={closeReplay} />
+    )
+  }
+
   // ── Game screen ──
   return (
     <div className="snake-container" ref={containerRef}>
@@ -546,6 +679,9 @@ function Snake() {
       <div className="snake-hud">
         <span className="hud-item">Score: {displayScore}</span>
         <span className="hud-item hud-best">Best: {best}</span>
+        {autopilot && (
+          <span className="hud-item hud-autopilot">🤖 {STRATEGIES[autopilot].label}</span>
+        )}
         {gameState === 'playing' && (
           <button className="hud-pause-btn" onClick={togglePause}>
             Pause
@@ -564,7 +700,12 @@ function Snake() {
       {/* Game over overlay buttons */}
       {gameState === 'gameover' && (
         <div className="snake-overlay">
+          {entry && (
+            <ScoreEntry game="snake" variant={difficulty} entry={entry} submission={submission} />
+          )}
+          <GlobalRank submission={submission} />
           <button className="overlay-btn" onClick={playAgain}>Play Again</button>
+          <button className="overlay-btn overlay-btn-secondary" onClick={watchReplay}>Watch Replay</button>
           <button className="overlay-btn overlay-btn-secondary" onClick={backToMenu}>Back to Menu</button>
         </div>
       )}